@@ -0,0 +1,152 @@
+/**
+ * Unit tests for async validation with pluggable resolvers
+ */
+
+import {
+  HEADER_SAP_URL,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_MCP_DESTINATION,
+} from '@mcp-abap-adt/interfaces';
+import {
+  validateAuthHeadersAsync,
+  createDestinationCheckResolver,
+  createTokenIntrospectionResolver,
+  createRevocationResolver,
+  createAllowlistResolver,
+  getAuthIdentity,
+  type AuthResolver,
+} from '../asyncValidation';
+import { validateAuthHeaders } from '../headerValidator';
+import { getValidationHttpStatus } from '../middleware';
+import { DiagnosticCode } from '../diagnostics';
+import { createJwt, BASIC_HEADERS, JWT_HEADERS as BASE_JWT_HEADERS } from './helpers/fixtures';
+
+const JWT = createJwt({ sub: 'user-id', user_name: 'alice', zid: 'tenant-1', exp: 4102444800 });
+const JWT_HEADERS = { ...BASE_JWT_HEADERS, [HEADER_SAP_JWT_TOKEN]: JWT };
+
+/**
+ * Resolver that settles only when aborted
+ */
+function hangingResolver(name: string, onAbort?: (reason: unknown) => void): AuthResolver {
+  return {
+    name,
+    resolve: ({ signal }) => new Promise((_, reject) => {
+      signal.addEventListener('abort', () => {
+        onAbort?.(signal.reason);
+        reject(signal.reason);
+      });
+    }),
+  };
+}
+
+describe('validateAuthHeadersAsync', () => {
+  it('should return synchronous result without resolvers', async () => {
+    expect(await validateAuthHeadersAsync(JWT_HEADERS)).toEqual(validateAuthHeaders(JWT_HEADERS));
+  });
+
+  it('should not call resolvers for invalid headers', async () => {
+    const resolve = jest.fn();
+    const result = await validateAuthHeadersAsync({ [HEADER_SAP_URL]: 'https://sap.example.com' }, { resolvers: [{ name: 'spy', resolve }] });
+
+    expect(result.isValid).toBe(false);
+    expect(resolve).not.toHaveBeenCalled();
+  });
+
+  it('should merge resolver diagnostics in resolver order', async () => {
+    const result = await validateAuthHeadersAsync(JWT_HEADERS, {
+      resolvers: [
+        createTokenIntrospectionResolver(async () => ({ active: false })),
+        createRevocationResolver(async token => token === JWT),
+      ],
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([`${HEADER_SAP_JWT_TOKEN} is not active`, `${HEADER_SAP_JWT_TOKEN} is revoked`]);
+    expect(result.config?.jwtToken).toBe(JWT);
+    expect(getValidationHttpStatus(result.diagnostics)).toBe(401);
+  });
+
+  it('should apply resolvers to their methods only', async () => {
+    const exists = jest.fn(async (destination: string) => destination === 'S4H_100');
+    const resolvers = [createDestinationCheckResolver(exists)];
+
+    expect((await validateAuthHeadersAsync({ [HEADER_MCP_DESTINATION]: 'S4H_100' }, { resolvers })).isValid).toBe(true);
+    expect((await validateAuthHeadersAsync({ [HEADER_MCP_DESTINATION]: 'S4H_200' }, { resolvers })).diagnostics).toEqual([{
+      code: DiagnosticCode.DESTINATION_NOT_FOUND,
+      severity: 'error',
+      headers: [HEADER_MCP_DESTINATION],
+      message: `${HEADER_MCP_DESTINATION} "S4H_200" does not exist`,
+    }]);
+    await validateAuthHeadersAsync(JWT_HEADERS, { resolvers });
+    expect(exists).toHaveBeenCalledTimes(2);
+  });
+
+  it('should pass identity to allowlist lookup', async () => {
+    const isAllowed = jest.fn(async () => false);
+    const result = await validateAuthHeadersAsync(BASIC_HEADERS, { resolvers: [createAllowlistResolver(isAllowed)] });
+    expect(result.diagnostics[0].code).toBe(DiagnosticCode.IDENTITY_NOT_ALLOWED);
+    expect(isAllowed).toHaveBeenCalledWith({ user: 'DEVELOPER', tenant: undefined, sapUrl: 'https://sap.example.com', sapClient: undefined }, expect.anything());
+  });
+
+  it('should take identity from JWT claims only when signature is verified', () => {
+    const config = validateAuthHeaders(JWT_HEADERS).config!;
+
+    expect(getAuthIdentity(config)).toEqual(expect.objectContaining({ user: undefined, tenant: undefined }));
+    expect(getAuthIdentity({ ...config, jwtSignature: { verified: false, reason: 'bad_signature' } }).user).toBeUndefined();
+    expect(getAuthIdentity({ ...config, jwtSignature: { verified: true, kid: 'key-1', alg: 'RS256' } }))
+      .toEqual(expect.objectContaining({ user: 'alice', tenant: 'tenant-1' }));
+  });
+
+  it('should report resolver timeouts and abort the resolver', async () => {
+    const onAbort = jest.fn();
+    const result = await validateAuthHeadersAsync(JWT_HEADERS, {
+      resolvers: [hangingResolver('slow lookup', onAbort), { ...hangingResolver('optional lookup'), timeoutMs: 5, failureSeverity: 'warning' }],
+      resolverTimeoutMs: 10,
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual(['slow lookup resolver timed out after 10 ms']);
+    expect(result.warnings).toEqual(['optional lookup resolver timed out after 5 ms']);
+    expect(result.diagnostics.map(d => d.code)).toEqual([DiagnosticCode.RESOLVER_TIMEOUT, DiagnosticCode.RESOLVER_TIMEOUT]);
+    expect(onAbort).toHaveBeenCalled();
+  });
+
+  it('should report resolver exceptions', async () => {
+    const result = await validateAuthHeadersAsync(JWT_HEADERS, {
+      resolvers: [{ name: 'revocation list', resolve: async () => { throw new Error('connection refused'); } }],
+    });
+
+    expect(result.diagnostics).toEqual([expect.objectContaining({
+      code: DiagnosticCode.RESOLVER_FAILED,
+      severity: 'error',
+      message: 'revocation list resolver failed: connection refused',
+    })]);
+  });
+
+  it('should reject when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('client disconnected'));
+    await expect(validateAuthHeadersAsync(JWT_HEADERS, { signal: controller.signal })).rejects.toThrow('client disconnected');
+
+    const running = new AbortController();
+    const onAbort = jest.fn();
+    const pending = validateAuthHeadersAsync(JWT_HEADERS, { signal: running.signal, resolvers: [hangingResolver('lookup', onAbort)] });
+    await new Promise(resolve => setImmediate(resolve));
+    running.abort(new Error('shutdown'));
+    await expect(pending).rejects.toThrow('shutdown');
+    expect(onAbort).toHaveBeenCalledWith(expect.objectContaining({ message: 'shutdown' }));
+  });
+
+  it('should trace resolvers before result', async () => {
+    const result = await validateAuthHeadersAsync(JWT_HEADERS, {
+      explain: true,
+      resolvers: [createRevocationResolver(async () => false), createTokenIntrospectionResolver(async () => ({ active: false }))],
+    });
+
+    expect(result.trace!.slice(-3)).toEqual([
+      { kind: 'resolver', subject: 'revocation list', headers: [], outcome: 'passed', reason: 'no findings' },
+      { kind: 'resolver', subject: 'token introspection', headers: [], outcome: 'failed', reason: `${HEADER_SAP_JWT_TOKEN} is not active` },
+      { kind: 'result', subject: 'result', headers: [], outcome: 'invalid', reason: '1 error' },
+    ]);
+  });
+});
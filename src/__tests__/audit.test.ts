@@ -0,0 +1,186 @@
+/**
+ * Unit tests for batch traffic audit
+ */
+
+import {
+  HEADER_SAP_URL,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_PASSWORD,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_MCP_DESTINATION,
+  HEADER_BTP_DESTINATION,
+  HEADER_MCP_URL,
+  HEADER_UAA_URL,
+  HEADER_SAP_UAA_URL,
+} from '@mcp-abap-adt/interfaces';
+import { auditTraffic, createTrafficAudit, readHarRequests, readNdjsonRequests, type AuditRecord } from '../audit';
+import { DiagnosticCode } from '../diagnostics';
+import { JWT, SAP_URL } from './helpers/fixtures';
+
+const RECORDS: AuditRecord[] = [
+  {
+    id: 'basic-1',
+    client: 'cline',
+    headers: { [HEADER_SAP_URL]: SAP_URL, [HEADER_SAP_AUTH_TYPE]: 'basic', [HEADER_SAP_LOGIN]: 'DEV', [HEADER_SAP_PASSWORD]: 'secret' },
+  },
+  {
+    id: 'destination-1',
+    client: 'cline',
+    headers: { [HEADER_MCP_DESTINATION]: 'S4H_100', [HEADER_SAP_URL]: SAP_URL },
+  },
+  {
+    id: 'jwt-1',
+    client: 'copilot',
+    headers: { [HEADER_SAP_URL]: SAP_URL, [HEADER_SAP_AUTH_TYPE]: 'jwt', [HEADER_SAP_JWT_TOKEN]: JWT, [HEADER_UAA_URL]: 'https://uaa.example.com' },
+  },
+  {
+    id: 'basic-invalid',
+    client: 'copilot',
+    headers: { [HEADER_SAP_URL]: SAP_URL, [HEADER_SAP_AUTH_TYPE]: 'basic' },
+  },
+  {
+    id: 'proxy-1',
+    client: 'gateway',
+    headers: { [HEADER_BTP_DESTINATION]: 'mcp-server', [HEADER_MCP_URL]: 'https://mcp.example.com/mcp' },
+  },
+  {
+    id: 'env-1',
+    client: 'gateway',
+    headers: { accept: 'application/json' },
+  },
+];
+
+describe('auditTraffic', () => {
+  const report = auditTraffic(RECORDS);
+
+  it('should count request kinds, validity and auth methods', () => {
+    expect(report.total).toBe(6);
+    expect(report.valid).toBe(5);
+    expect(report.invalid).toBe(1);
+    expect(report.kinds).toEqual({ mcp: 4, proxy: 1, env: 1 });
+    expect(report.authMethods).toEqual({ basic: 1, 'mcp-destination': 1, 'direct-jwt': 1 });
+    expect(report.clients).toEqual([
+      { client: 'cline', requests: 2, invalid: 0, authMethods: { basic: 1, 'mcp-destination': 1 } },
+      { client: 'copilot', requests: 2, invalid: 1, authMethods: { 'direct-jwt': 1 } },
+      { client: 'gateway', requests: 2, invalid: 0, authMethods: {} },
+    ]);
+  });
+
+  it('should count diagnostics by code and headers', () => {
+    expect(report.diagnostics).toEqual(expect.arrayContaining([
+      expect.objectContaining({
+        code: DiagnosticCode.HEADER_IGNORED,
+        severity: 'warning',
+        headers: [HEADER_SAP_URL, HEADER_MCP_DESTINATION],
+        count: 1,
+        clients: ['cline'],
+      }),
+      expect.objectContaining({ code: DiagnosticCode.UAA_CONFIG_INCOMPLETE, count: 1, clients: ['copilot'] }),
+      expect.objectContaining({ code: DiagnosticCode.BASIC_CREDENTIALS_INCOMPLETE, severity: 'error' }),
+    ]));
+  });
+
+  it('should list requests that fail under strict options', () => {
+    expect(report.strictFailureCount).toBe(2);
+    expect(report.strictFailures.map(failure => failure.id)).toEqual(['destination-1', 'jwt-1']);
+    expect(report.strictFailures[0].client).toBe('cline');
+  });
+
+  it('should report clients sending deprecated headers', () => {
+    expect(report.deprecatedHeaders).toEqual([
+      { header: HEADER_UAA_URL, replacement: HEADER_SAP_UAA_URL, count: 1, clients: ['copilot'] },
+    ]);
+  });
+
+  it('should compare against custom strict options and cap examples', () => {
+    const custom = auditTraffic(RECORDS, { strictValidation: { requireSapClient: true }, maxExamples: 1 });
+
+    expect(custom.strictFailureCount).toBe(3);
+    expect(custom.strictFailures).toHaveLength(1);
+  });
+
+  it('should accumulate records incrementally', () => {
+    const audit = createTrafficAudit({ clientOf: () => 'all' });
+    audit.add(RECORDS[0]);
+    const first = audit.report();
+    audit.add(RECORDS[1]);
+
+    expect(first.total).toBe(1);
+    expect(audit.report().total).toBe(2);
+    expect(audit.report().clients).toEqual([expect.objectContaining({ client: 'all', requests: 2 })]);
+  });
+});
+
+describe('readHarRequests', () => {
+  it('should read request headers of HAR entries', () => {
+    const har = {
+      log: {
+        entries: [
+          {
+            request: {
+              method: 'POST',
+              url: 'https://mcp.example.com/mcp',
+              headers: [
+                { name: ':authority', value: 'mcp.example.com' },
+                { name: 'User-Agent', value: 'cline/1.0' },
+                { name: 'Accept', value: 'application/json' },
+                { name: 'Accept', value: 'text/event-stream' },
+              ],
+            },
+          },
+          { response: {} },
+        ],
+      },
+    };
+
+    const input = readHarRequests(JSON.stringify(har));
+    expect(input.records).toEqual([{
+      id: 'POST https://mcp.example.com/mcp',
+      headers: { 'user-agent': 'cline/1.0', accept: ['application/json', 'text/event-stream'] },
+    }]);
+    expect(input.errors).toEqual(['entry 1: request.headers is missing']);
+    expect(auditTraffic(input.records).clients[0].client).toBe('cline/1.0');
+  });
+
+  it('should report malformed HAR', () => {
+    expect(readHarRequests('{').errors).toEqual(['HAR is not valid JSON']);
+    expect(readHarRequests({ log: {} }).errors).toEqual(['HAR has no log.entries array']);
+  });
+
+  it('should not copy input into errors or record IDs', () => {
+    expect(readHarRequests('{"log": {"entries": [{"request": {"headers": [{"name": "x-sap-password", "value": hunter2SECRET}]}}]}}').errors)
+      .toEqual(['HAR is not valid JSON']);
+
+    const input = readHarRequests({
+      log: { entries: [{ request: { method: 'GET', url: 'https://user:pw@mcp.example.com/mcp?access_token=SECRET', headers: [] } }] },
+    });
+    expect(input.records[0].id).not.toContain('SECRET');
+    expect(input.records[0].id).not.toContain(':pw@');
+    expect(input.records[0].id).toMatch(/^GET https:\/\/user:.+@mcp\.example\.com\/mcp\?access_token=/);
+  });
+});
+
+describe('readNdjsonRequests', () => {
+  it('should read log lines and report unreadable ones', () => {
+    const input = readNdjsonRequests([
+      JSON.stringify({ id: 'req-1', client: 'cline', headers: { [HEADER_MCP_DESTINATION]: 'S4H_100' } }),
+      '',
+      '{"headers": ',
+      JSON.stringify({ path: '/mcp' }),
+      JSON.stringify({ headers: { accept: 'application/json' } }),
+    ].join('\n'));
+
+    expect(input.records).toEqual([
+      { id: 'req-1', client: 'cline', headers: { [HEADER_MCP_DESTINATION]: 'S4H_100' } },
+      { id: 'line 5', client: undefined, headers: { accept: 'application/json' } },
+    ]);
+    expect(input.errors).toEqual(['line 3: not valid JSON', 'line 4: headers object is missing']);
+  });
+
+  it('should not copy unparsable lines into errors', () => {
+    const input = readNdjsonRequests('{"headers": {"x-sap-login": "DEVELOPER", "x-sap-password":hunter2SECRET}}');
+
+    expect(input.errors).toEqual(['line 1: not valid JSON']);
+  });
+});
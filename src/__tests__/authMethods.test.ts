@@ -0,0 +1,230 @@
+/**
+ * Unit tests for authentication method registry
+ */
+
+import {
+  HEADER_SAP_URL,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_PASSWORD,
+  HEADER_SAP_DESTINATION_SERVICE,
+} from '@mcp-abap-adt/interfaces';
+import {
+  createAuthMethodRegistry,
+  toAuthMethodPriority,
+  BUILTIN_AUTH_METHODS,
+  EXTENDED_AUTH_METHOD_PRIORITY,
+  type AuthMethodPlugin,
+} from '../authMethods';
+import { getHeaderValue } from '../headerSource';
+import { validateAuthHeaders } from '../headerValidator';
+import { describeAuthResult } from '../redaction';
+import { AuthMethodPriority } from '../types';
+import { DiagnosticCode, toDiagnosticSet } from '../diagnostics';
+
+const HEADER_SSO_TICKET = 'x-company-sso-ticket';
+const SSO_PRIORITY = 10;
+
+/**
+ * Standalone method: SSO ticket identifies the system, no x-sap-url needed
+ */
+const SSO_METHOD: AuthMethodPlugin = {
+  id: 'company-sso',
+  name: 'Company SSO',
+  priority: SSO_PRIORITY,
+  triggerHeaders: [HEADER_SSO_TICKET],
+  requiredHeaders: [HEADER_SSO_TICKET],
+  validate: ({ headers }) => {
+    const ticket = getHeaderValue(headers, HEADER_SSO_TICKET);
+    if (!ticket) {
+      return null;
+    }
+    return {
+      priority: toAuthMethodPriority(SSO_PRIORITY),
+      authType: 'jwt',
+      sapUrl: 'https://sso.example.com',
+      jwtToken: ticket,
+      ...toDiagnosticSet([]),
+    };
+  },
+};
+
+/**
+ * Credential method: x-sap-auth-type "apikey" with x-company-api-key
+ */
+const API_KEY_METHOD: AuthMethodPlugin = {
+  id: 'api-key',
+  name: 'API key',
+  priority: 5,
+  triggerHeaders: ['x-company-api-key'],
+  requiredHeaders: ['x-company-api-key'],
+  authTypes: ['apikey'],
+  validate: ({ headers, sapUrl }) => {
+    const key = getHeaderValue(headers, 'x-company-api-key');
+    if (!key) {
+      return null;
+    }
+    return {
+      priority: toAuthMethodPriority(5),
+      authType: 'basic',
+      sapUrl: sapUrl!,
+      password: key,
+      ...toDiagnosticSet([]),
+    };
+  },
+};
+
+const SAP_URL = 'https://sap.example.com';
+const VALID_JWT = 'eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiJ1c2VyIn0.signature';
+
+describe('toAuthMethodPriority', () => {
+  it('should map method priorities to AuthMethodPriority values', () => {
+    expect(toAuthMethodPriority(AuthMethodPriority.MCP_DESTINATION)).toBe(AuthMethodPriority.MCP_DESTINATION);
+    expect(toAuthMethodPriority(EXTENDED_AUTH_METHOD_PRIORITY.SAML)).toBe(AuthMethodPriority.DIRECT_JWT);
+    expect(toAuthMethodPriority(EXTENDED_AUTH_METHOD_PRIORITY.LOGON_TICKET)).toBe(AuthMethodPriority.BASIC);
+    expect(toAuthMethodPriority(SSO_PRIORITY)).toBe(AuthMethodPriority.SAP_DESTINATION);
+    expect(toAuthMethodPriority(0.5)).toBe(AuthMethodPriority.BASIC);
+  });
+});
+
+describe('createAuthMethodRegistry', () => {
+  it('should contain built-in methods by default', () => {
+    const registry = createAuthMethodRegistry();
+    expect(registry.methods.map(method => method.id)).toEqual([
+      'sap-destination',
+      'mcp-destination',
+      'direct-jwt',
+      'basic',
+      'logon-ticket',
+      'saml',
+    ]);
+    expect(registry.get(AuthMethodPriority.BASIC)?.id).toBe('basic');
+    expect(registry.get(SSO_PRIORITY)).toBeUndefined();
+  });
+
+  it('should register custom methods', () => {
+    const registry = createAuthMethodRegistry().register(SSO_METHOD);
+    expect(registry.get(SSO_PRIORITY)).toBe(SSO_METHOD);
+    expect(registry.methods).toHaveLength(BUILTIN_AUTH_METHODS.length + 1);
+  });
+
+  it('should reject duplicate id and priority', () => {
+    const registry = createAuthMethodRegistry();
+    expect(() => registry.register({ ...SSO_METHOD, id: 'basic' })).toThrow('already registered');
+    expect(() => registry.register({ ...SSO_METHOD, priority: AuthMethodPriority.BASIC })).toThrow('same priority');
+    expect(() => registry.register({ ...SSO_METHOD, priority: AuthMethodPriority.NONE })).toThrow('NONE');
+  });
+});
+
+describe('validateAuthHeaders with custom methods', () => {
+  const authMethods = createAuthMethodRegistry().register(SSO_METHOD).register(API_KEY_METHOD);
+
+  it('should select standalone method by priority', () => {
+    const result = validateAuthHeaders({
+      [HEADER_SSO_TICKET]: 'ticket-123',
+      [HEADER_SAP_DESTINATION_SERVICE]: 'TRIAL',
+    }, { authMethods });
+
+    expect(result.isValid).toBe(true);
+    expect(result.config?.authMethod).toBe('company-sso');
+    expect(result.config?.priority).toBe(AuthMethodPriority.SAP_DESTINATION);
+    expect(result.config?.rank).toBe(SSO_PRIORITY);
+    expect(describeAuthResult(result)).toMatch(/^valid: company-sso \(jwt\)/);
+  });
+
+  it('should reject disabled standalone method', () => {
+    const result = validateAuthHeaders({ [HEADER_SSO_TICKET]: 'ticket-123' }, {
+      authMethods,
+      methodOrder: [AuthMethodPriority.DIRECT_JWT],
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.diagnostics[0].code).toBe(DiagnosticCode.AUTH_METHOD_DISABLED);
+    expect(result.errors[0]).toBe('Company SSO authentication is disabled');
+  });
+
+  it('should select credential method by its auth type', () => {
+    const result = validateAuthHeaders({
+      [HEADER_SAP_URL]: SAP_URL,
+      [HEADER_SAP_AUTH_TYPE]: 'APIKEY',
+      'x-company-api-key': 'key-1',
+    }, { authMethods });
+
+    expect(result.isValid).toBe(true);
+    expect(result.config?.authMethod).toBe('api-key');
+  });
+
+  it('should report missing headers of custom credential method', () => {
+    const result = validateAuthHeaders({
+      [HEADER_SAP_URL]: SAP_URL,
+      [HEADER_SAP_AUTH_TYPE]: 'apikey',
+    }, { authMethods });
+
+    expect(result.isValid).toBe(false);
+    expect(result.diagnostics).toContainEqual(expect.objectContaining({
+      code: DiagnosticCode.AUTH_CREDENTIALS_MISSING,
+      message: 'API key authentication requires x-company-api-key header',
+    }));
+  });
+
+  it('should list custom auth types and trigger headers in messages', () => {
+    const invalid = validateAuthHeaders({ [HEADER_SAP_URL]: SAP_URL, [HEADER_SAP_AUTH_TYPE]: 'kerberos' }, { authMethods });
+    expect(invalid.errors[0]).toBe(`${HEADER_SAP_AUTH_TYPE} must be one of: jwt, xsuaa, basic, logon-ticket, saml, apikey, got: kerberos`);
+
+    const missing = validateAuthHeaders({ [HEADER_SAP_URL]: SAP_URL }, { authMethods });
+    expect(missing.errors[0]).toContain(`when ${HEADER_SAP_DESTINATION_SERVICE}, x-mcp-destination and ${HEADER_SSO_TICKET} are not present`);
+
+    const apiKeyOnly = validateAuthHeaders({ [HEADER_SAP_URL]: SAP_URL, 'x-company-api-key': 'key-1' }, { authMethods });
+    expect(apiKeyOnly.errors[0]).toBe(`${HEADER_SAP_AUTH_TYPE} must be "apikey" when x-company-api-key is present`);
+  });
+
+  it('should warn when several methods accept the same auth type', () => {
+    const jwtCookie: AuthMethodPlugin = {
+      id: 'jwt-cookie',
+      name: 'JWT cookie',
+      priority: 3.5,
+      triggerHeaders: ['x-jwt-cookie'],
+      authTypes: ['jwt'],
+      validate: ({ headers, sapUrl }) => getHeaderValue(headers, 'x-jwt-cookie')
+        ? { priority: 3.5 as AuthMethodPriority, authType: 'jwt', sapUrl: sapUrl!, ...toDiagnosticSet([]) }
+        : null,
+    };
+    const result = validateAuthHeaders({
+      [HEADER_SAP_URL]: SAP_URL,
+      [HEADER_SAP_AUTH_TYPE]: 'jwt',
+      [HEADER_SAP_JWT_TOKEN]: VALID_JWT,
+      'x-jwt-cookie': 'cookie',
+    }, { authMethods: createAuthMethodRegistry().register(jwtCookie) });
+
+    expect(result.config?.authMethod).toBe('jwt-cookie');
+    expect(result.diagnostics).toContainEqual(expect.objectContaining({
+      code: DiagnosticCode.AUTH_METHOD_CONFLICT,
+      message: `Multiple authentication methods accept ${HEADER_SAP_AUTH_TYPE} "jwt" (Direct JWT, JWT cookie), using: JWT cookie`,
+    }));
+  });
+
+  it('should build registry without built-in basic auth', () => {
+    const withoutBasic = createAuthMethodRegistry(BUILTIN_AUTH_METHODS.filter(method => method.id !== 'basic'));
+    const result = validateAuthHeaders({
+      [HEADER_SAP_URL]: SAP_URL,
+      [HEADER_SAP_AUTH_TYPE]: 'basic',
+      [HEADER_SAP_LOGIN]: 'user',
+      [HEADER_SAP_PASSWORD]: 'secret',
+    }, { authMethods: withoutBasic });
+
+    expect(result.isValid).toBe(false);
+    expect(result.diagnostics[0].code).toBe(DiagnosticCode.AUTH_TYPE_INVALID);
+  });
+
+  it('should set authMethod for built-in methods', () => {
+    const result = validateAuthHeaders({
+      [HEADER_SAP_URL]: SAP_URL,
+      [HEADER_SAP_AUTH_TYPE]: 'basic',
+      [HEADER_SAP_LOGIN]: 'user',
+      [HEADER_SAP_PASSWORD]: 'secret',
+    });
+
+    expect(result.config?.authMethod).toBe('basic');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for command-line header diagnosis
+ */
+
+import { runCli, CLI_EXIT_VALID, CLI_EXIT_INVALID, CLI_EXIT_USAGE, type CliIo, type CliReport } from '../cli';
+
+interface CliRun {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+async function run(argv: string[], stdin?: string): Promise<CliRun> {
+  const output = { stdout: '', stderr: '' };
+  const io: CliIo = {
+    stdout: text => { output.stdout += text; },
+    stderr: text => { output.stderr += text; },
+    readStdin: async () => stdin,
+  };
+  const code = await runCli(argv, io);
+  return { code, ...output };
+}
+
+const BASIC_HEADERS = [
+  'x-sap-url: https://sap.example.com',
+  'x-sap-auth-type: basic',
+  'x-sap-login: DEVELOPER',
+  'x-sap-password: top-secret',
+];
+
+describe('runCli', () => {
+  it('should print selected method without secrets', async () => {
+    const result = await run(BASIC_HEADERS);
+
+    expect(result.code).toBe(CLI_EXIT_VALID);
+    expect(result.stdout).toBe([
+      'Request: MCP server request (isProxyRequest: false, isMcpServerRequest: true)',
+      'Auth: BASIC (basic) https://sap.example.com, user DEVELOPER',
+      'Result: valid',
+    ].join('\n'));
+    expect(result.stdout).not.toContain('top-secret');
+  });
+
+  it('should print JSON report and exit 1 when invalid', async () => {
+    const result = await run(['--json', ...BASIC_HEADERS, 'x-sap-client: 1000']);
+    const report = JSON.parse(result.stdout) as CliReport;
+
+    expect(result.code).toBe(CLI_EXIT_INVALID);
+    expect(report).toEqual(expect.objectContaining({ kind: 'mcp', proxyRequest: false, mcpServerRequest: true, isValid: false }));
+    expect(report.auth?.config.password).toBe('[REDACTED]');
+    expect(report.diagnostics.map(d => d.code)).toEqual(['SAP_CLIENT_INVALID']);
+    expect(result.stdout).not.toContain('top-secret');
+  });
+
+  it('should read curl command from stdin', async () => {
+    const result = await run(['--authorization', 'map'], 'curl https://mcp.example.com/mcp -H "x-sap-url: https://sap.example.com" -u DEVELOPER:top-secret');
+
+    expect(result.code).toBe(CLI_EXIT_VALID);
+    expect(result.stdout).toContain('Auth: BASIC (basic) https://sap.example.com, user DEVELOPER');
+  });
+
+  it('should plan proxy route and validate forwarded auth', async () => {
+    const result = await run(['--json'], JSON.stringify({
+      'x-btp-destination': 'mcp-server',
+      'x-mcp-url': 'https://mcp.example.com/mcp',
+      'x-sap-destination': 'S4H_100',
+    }));
+    const report = JSON.parse(result.stdout) as CliReport;
+
+    expect(result.code).toBe(CLI_EXIT_VALID);
+    expect(report.kind).toBe('proxy');
+    expect(report.route).toEqual({ upstream: 'url', mcpUrl: 'https://mcp.example.com/mcp', btpDestination: 'mcp-server' });
+    expect(report.auth?.description).toBe('SAP_DESTINATION (jwt) destination S4H_100');
+  });
+
+  it('should report incomplete proxy route', async () => {
+    const result = await run(['--http', '-'], 'GET /mcp HTTP/1.1\nx-btp-destination: mcp-server\n\n');
+
+    expect(result.code).toBe(CLI_EXIT_INVALID);
+    expect(result.stdout).toContain('Request: proxy request');
+    expect(result.stdout).toContain('[PROXY_ROUTE_INCOMPLETE]');
+    expect(result.stdout).toContain('Auth at MCP server: none');
+  });
+
+  it('should print decision trace with --explain', async () => {
+    const result = await run(['--explain', 'x-mcp-destination: S4H_100']);
+
+    expect(result.stdout).toContain('Trace:\n  1. method SAP destination: not-detected - none of x-sap-destination present');
+    expect(result.stdout).toContain('  2. method MCP destination: chosen [x-mcp-destination] - highest-priority method present');
+    expect((JSON.parse((await run(['--json', '--explain', 'x-mcp-destination: S4H_100'])).stdout) as CliReport).trace)
+      .toEqual(expect.arrayContaining([expect.objectContaining({ kind: 'result', outcome: 'valid' })]));
+  });
+
+  it('should exit 1 without auth headers', async () => {
+    const result = await run(['accept: application/json']);
+
+    expect(result.code).toBe(CLI_EXIT_INVALID);
+    expect(result.stdout).toContain('Request: no auth headers');
+  });
+
+  it('should exit 2 on usage and input errors', async () => {
+    expect((await run(['--unknown'])).code).toBe(CLI_EXIT_USAGE);
+    expect((await run(['--authorization', 'other'])).stderr).toContain('--authorization must be map or server, got: other');
+    expect((await run(['a: b', '--curl', 'curl'])).stderr).toContain('use only one of header arguments, --curl and --http');
+    expect((await run([])).stderr).toContain('no headers given');
+    expect((await run(['not a header'])).code).toBe(CLI_EXIT_USAGE);
+    expect((await run(['--help'])).stdout).toMatch(/^Usage: mcp-abap-adt-headers/);
+  });
+});
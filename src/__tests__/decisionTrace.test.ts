@@ -0,0 +1,149 @@
+/**
+ * Unit tests for explain mode decision trace
+ */
+
+import {
+  HEADER_SAP_URL,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_PASSWORD,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_SAP_CLIENT,
+  HEADER_SAP_DESTINATION_SERVICE,
+  HEADER_MCP_DESTINATION,
+  AuthMethodPriority,
+} from '@mcp-abap-adt/interfaces';
+import { validateAuthHeaders } from '../headerValidator';
+import { formatAuthTrace } from '../decisionTrace';
+import type { AuthTraceStep } from '../types';
+import { JWT, SAP_URL, BASIC_HEADERS, JWT_HEADERS } from './helpers/fixtures';
+
+function methodSteps(trace?: AuthTraceStep[]): Record<string, string> {
+  return Object.fromEntries((trace ?? []).filter(step => step.kind === 'method').map(step => [step.method, step.outcome]));
+}
+
+describe('explain mode', () => {
+  it('should not return trace without explain option', () => {
+    expect(validateAuthHeaders({ [HEADER_MCP_DESTINATION]: 'S4H_100' }).trace).toBeUndefined();
+  });
+
+  it('should explain why basic auth was never considered', () => {
+    const result = validateAuthHeaders({ [HEADER_MCP_DESTINATION]: 'S4H_100', ...BASIC_HEADERS }, { explain: true });
+
+    expect(result.trace).toEqual([
+      expect.objectContaining({ kind: 'method', method: 'sap-destination', detected: false, outcome: 'not-detected' }),
+      { kind: 'method', subject: 'MCP destination', method: 'mcp-destination', detected: true, headers: [HEADER_MCP_DESTINATION], outcome: 'chosen', reason: 'highest-priority method present' },
+      expect.objectContaining({ method: 'saml', outcome: 'not-detected' }),
+      expect.objectContaining({ method: 'direct-jwt', outcome: 'not-detected' }),
+      expect.objectContaining({ method: 'logon-ticket', outcome: 'not-detected' }),
+      {
+        kind: 'method',
+        subject: 'Basic',
+        method: 'basic',
+        detected: true,
+        headers: [HEADER_SAP_LOGIN, HEADER_SAP_PASSWORD],
+        outcome: 'skipped',
+        reason: 'MCP destination was chosen (higher priority)',
+      },
+      { kind: 'result', subject: 'result', headers: [], outcome: 'valid', reason: 'mcp-destination selected' },
+    ]);
+  });
+
+  it('should explain .env fallback of credentials without x-sap-url', () => {
+    const result = validateAuthHeaders({ [HEADER_SAP_AUTH_TYPE]: 'jwt', [HEADER_SAP_JWT_TOKEN]: JWT }, { explain: true });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([]);
+    expect(result.trace).toEqual(expect.arrayContaining([
+      expect.objectContaining({ kind: 'check', subject: HEADER_SAP_URL, outcome: 'failed', reason: 'missing; credential methods are not evaluated' }),
+      expect.objectContaining({ method: 'direct-jwt', detected: true, outcome: 'skipped', reason: `${HEADER_SAP_URL} is missing` }),
+    ]));
+    expect(result.trace![result.trace!.length - 1]).toEqual(expect.objectContaining({ kind: 'result', outcome: 'env-fallback' }));
+  });
+
+  it('should explain .env fallback of requests with warnings only', () => {
+    const result = validateAuthHeaders({ 'x-sap-destinaton': 'S4H' }, { explain: true });
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).not.toEqual([]);
+    expect(result.trace![result.trace!.length - 1]).toEqual(expect.objectContaining({ kind: 'result', outcome: 'env-fallback' }));
+  });
+
+  it('should trace credential selection by x-sap-auth-type', () => {
+    const result = validateAuthHeaders({ ...BASIC_HEADERS, ...JWT_HEADERS }, { explain: true });
+
+    expect(result.trace!.filter(step => step.kind === 'check')).toEqual([
+      expect.objectContaining({ subject: HEADER_SAP_URL, outcome: 'passed' }),
+      expect.objectContaining({ subject: HEADER_SAP_AUTH_TYPE, outcome: 'passed', reason: '"jwt" selects Direct JWT' }),
+    ]);
+    expect(methodSteps(result.trace)).toEqual({
+      'sap-destination': 'not-detected',
+      'mcp-destination': 'not-detected',
+      'direct-jwt': 'chosen',
+      basic: 'skipped',
+      saml: 'not-detected',
+      'logon-ticket': 'not-detected',
+    });
+    expect(result.trace!.find(step => step.method === 'basic')?.reason).toBe('auth method already selected');
+  });
+
+  it('should give stop reason for methods not selected by x-sap-auth-type', () => {
+    const headers = { ...BASIC_HEADERS, [HEADER_SAP_AUTH_TYPE]: 'jwt' };
+
+    const rejected = validateAuthHeaders(headers, { explain: true });
+    expect(rejected.trace!.find(step => step.method === 'direct-jwt')?.outcome).toBe('rejected');
+    expect(rejected.trace!.find(step => step.method === 'basic')?.reason).toBe(`${HEADER_SAP_AUTH_TYPE} "jwt" selects another method`);
+
+    const disabled = validateAuthHeaders(
+      headers,
+      { explain: true, methodOrder: [AuthMethodPriority.BASIC] }
+    );
+    expect(disabled.trace!.find(step => step.method === 'basic')?.reason).toBe(`${HEADER_SAP_AUTH_TYPE} "jwt" selects disabled methods only`);
+  });
+
+  it('should trace rejected methods, disabled methods and policies', () => {
+    const rejected = validateAuthHeaders({ [HEADER_SAP_URL]: SAP_URL, [HEADER_SAP_AUTH_TYPE]: 'basic' }, { explain: true });
+    expect(rejected.trace!.find(step => step.method === 'basic')).toEqual(expect.objectContaining({ detected: false, outcome: 'rejected' }));
+    expect(rejected.trace![rejected.trace!.length - 1]).toEqual(expect.objectContaining({ outcome: 'invalid', reason: `${rejected.errors.length} errors` }));
+
+    const disabled = validateAuthHeaders(
+      { [HEADER_SAP_DESTINATION_SERVICE]: 'S4H_100' },
+      { explain: true, methodOrder: [AuthMethodPriority.MCP_DESTINATION, AuthMethodPriority.BASIC] }
+    );
+    expect(methodSteps(disabled.trace)).toEqual(expect.objectContaining({
+      'sap-destination': 'disabled',
+      'mcp-destination': 'not-detected',
+      'direct-jwt': 'disabled',
+    }));
+
+    const policies = validateAuthHeaders(
+      { [HEADER_MCP_DESTINATION]: 'S4H_100', [HEADER_SAP_URL]: SAP_URL },
+      { explain: true, requireSapClient: true, strict: true }
+    );
+    expect(policies.trace!.filter(step => step.kind === 'policy')).toEqual([
+      expect.objectContaining({ subject: 'requireSapClient', headers: [HEADER_SAP_CLIENT], outcome: 'failed' }),
+      expect.objectContaining({ subject: 'strict', outcome: 'failed', reason: '1 warning reported as errors' }),
+    ]);
+  });
+
+  it('should trace Authorization header mapping', () => {
+    const result = validateAuthHeaders(
+      { [HEADER_SAP_URL]: SAP_URL, Authorization: `Bearer ${JWT}` },
+      { explain: true, authorization: { mode: 'map' } }
+    );
+
+    expect(result.trace![0]).toEqual(expect.objectContaining({ kind: 'authorization', outcome: 'passed', reason: 'mapped (mode: map)' }));
+    expect(methodSteps(result.trace)['direct-jwt']).toBe('chosen');
+  });
+});
+
+describe('formatAuthTrace', () => {
+  it('should format one numbered line per step', () => {
+    const result = validateAuthHeaders({ [HEADER_MCP_DESTINATION]: 'S4H_100' }, { explain: true });
+    const lines = formatAuthTrace(result.trace!).split('\n');
+
+    expect(lines[0]).toBe('1. method SAP destination: not-detected - none of x-sap-destination present');
+    expect(lines[1]).toBe('2. method MCP destination: chosen [x-mcp-destination] - highest-priority method present');
+    expect(lines[lines.length - 1]).toBe(`${lines.length}. result: valid - mcp-destination selected`);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Unit tests for local destination resolution
+ */
+
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  HEADER_SAP_DESTINATION_SERVICE,
+  HEADER_MCP_DESTINATION,
+  HEADER_SAP_CLIENT,
+} from '@mcp-abap-adt/interfaces';
+import { parseEnvFile } from '../destinations';
+import { createDestinationResolver } from '../destinationResolver';
+import { validateAuthHeaders } from '../headerValidator';
+import { AuthMethodPriority } from '../types';
+import { DiagnosticCode } from '../diagnostics';
+
+const SERVICE_KEY = {
+  url: 'https://abap.example.com',
+  abap: { url: 'https://abap.example.com', sapClient: '100' },
+  uaa: {
+    url: 'https://tenant.authentication.eu10.hana.ondemand.com',
+    clientid: 'sb-client',
+    clientsecret: 'client-secret',
+  },
+};
+
+const ENV_FILE = [
+  '# Destination E19',
+  'SAP_URL=https://e19.example.com',
+  'SAP_CLIENT="200"',
+  "export SAP_UAA_URL='https://uaa.example.com'",
+  'SAP_UAA_CLIENT_ID=client # inline comment',
+  'SAP_UAA_CLIENT_SECRET=secret',
+].join('\n');
+
+let serviceKeyDir: string;
+let envDir: string;
+
+beforeAll(() => {
+  serviceKeyDir = mkdtempSync(join(tmpdir(), 'header-validator-keys-'));
+  envDir = mkdtempSync(join(tmpdir(), 'header-validator-env-'));
+  writeFileSync(join(serviceKeyDir, 'TRIAL.json'), JSON.stringify(SERVICE_KEY));
+  writeFileSync(join(serviceKeyDir, 'BROKEN.json'), '{ "url": ');
+  writeFileSync(join(serviceKeyDir, 'NO_URL.json'), JSON.stringify({ uaa: SERVICE_KEY.uaa }));
+  writeFileSync(join(serviceKeyDir, 'BAD_URL.json'), JSON.stringify({ url: 'not-a-url' }));
+  writeFileSync(join(serviceKeyDir, 'BAD_CLIENT.json'), JSON.stringify({ ...SERVICE_KEY, abap: { ...SERVICE_KEY.abap, sapClient: '1000' } }));
+  writeFileSync(join(envDir, 'E19.env'), ENV_FILE);
+  writeFileSync(join(envDir, 'TRIAL.env'), 'SAP_URL=https://shadowed.example.com');
+  writeFileSync(join(envDir, 'EMPTY.env'), '# no values\n');
+});
+
+afterAll(() => {
+  rmSync(serviceKeyDir, { recursive: true, force: true });
+  rmSync(envDir, { recursive: true, force: true });
+});
+
+describe('parseEnvFile', () => {
+  it('should parse values, quotes, export and comments', () => {
+    expect(parseEnvFile(ENV_FILE)).toEqual({
+      SAP_URL: 'https://e19.example.com',
+      SAP_CLIENT: '200',
+      SAP_UAA_URL: 'https://uaa.example.com',
+      SAP_UAA_CLIENT_ID: 'client',
+      SAP_UAA_CLIENT_SECRET: 'secret',
+    });
+  });
+});
+
+describe('createDestinationResolver', () => {
+  it('should load service key', () => {
+    const resolver = createDestinationResolver({ directories: serviceKeyDir });
+    
+    expect(resolver.resolve('TRIAL').destination).toEqual({
+      name: 'TRIAL',
+      source: 'service-key',
+      filePath: join(serviceKeyDir, 'TRIAL.json'),
+      sapUrl: 'https://abap.example.com',
+      sapClient: '100',
+      uaaUrl: 'https://tenant.authentication.eu10.hana.ondemand.com',
+      uaaClientId: 'sb-client',
+      uaaClientSecret: 'client-secret',
+    });
+  });
+
+  it('should load .env file', () => {
+    const resolver = createDestinationResolver({ directories: [serviceKeyDir, envDir] });
+    const destination = resolver.resolve('E19').destination;
+    
+    expect(destination?.source).toBe('env');
+    expect(destination?.sapUrl).toBe('https://e19.example.com');
+    expect(destination?.sapClient).toBe('200');
+  });
+
+  it('should search directories in order', () => {
+    const resolver = createDestinationResolver({ directories: [envDir, serviceKeyDir] });
+    
+    expect(resolver.resolve('TRIAL').destination?.sapUrl).toBe('https://shadowed.example.com');
+  });
+
+  it('should report missing destination', () => {
+    const resolution = createDestinationResolver({ directories: [serviceKeyDir, envDir] }).resolve('UNKNOWN');
+    
+    expect(resolution.reason).toBe('not_found');
+    expect(resolution.error).not.toContain(serviceKeyDir);
+  });
+
+  it('should report malformed files', () => {
+    const resolver = createDestinationResolver({ directories: [serviceKeyDir, envDir] });
+    
+    expect(resolver.resolve('BROKEN')).toEqual({ reason: 'malformed', error: 'service key BROKEN.json is not valid JSON' });
+    expect(resolver.resolve('NO_URL')).toEqual({ reason: 'malformed', error: 'service key NO_URL.json does not define "url"' });
+    expect(resolver.resolve('EMPTY')).toEqual({ reason: 'malformed', error: 'EMPTY.env does not define SAP_URL' });
+  });
+
+  it('should not look up names outside of directories', () => {
+    const resolver = createDestinationResolver({ directories: join(serviceKeyDir, 'sub') });
+    
+    expect(resolver.resolve('../TRIAL').reason).toBe('not_found');
+    expect(resolver.resolve('..').reason).toBe('not_found');
+  });
+});
+
+describe('validateAuthHeaders with destinationResolver', () => {
+  const destinationResolver = () => createDestinationResolver({ directories: [serviceKeyDir, envDir] });
+
+  it('should fill config from SAP destination service key', () => {
+    const result = validateAuthHeaders(
+      { [HEADER_SAP_DESTINATION_SERVICE]: 'TRIAL' },
+      { destinationResolver: destinationResolver() }
+    );
+    
+    expect(result.isValid).toBe(true);
+    expect(result.config?.priority).toBe(AuthMethodPriority.SAP_DESTINATION);
+    expect(result.config?.sapUrl).toBe('https://abap.example.com');
+    expect(result.config?.sapClient).toBe('100');
+    expect(result.config?.uaaClientId).toBe('sb-client');
+    expect(result.config?.destinationSource).toBe('service-key');
+    expect(result.config?.destinationFile).toBe(join(serviceKeyDir, 'TRIAL.json'));
+  });
+
+  it('should prefer x-sap-client header over destination client', () => {
+    const result = validateAuthHeaders(
+      { [HEADER_MCP_DESTINATION]: 'E19', [HEADER_SAP_CLIENT]: '300' },
+      { destinationResolver: destinationResolver() }
+    );
+    
+    expect(result.isValid).toBe(true);
+    expect(result.config?.priority).toBe(AuthMethodPriority.MCP_DESTINATION);
+    expect(result.config?.sapUrl).toBe('https://e19.example.com');
+    expect(result.config?.sapClient).toBe('300');
+  });
+
+  it('should apply client policies to destination client', () => {
+    const required = validateAuthHeaders(
+      { [HEADER_SAP_DESTINATION_SERVICE]: 'TRIAL' },
+      { destinationResolver: destinationResolver(), requireSapClient: true }
+    );
+    const invalid = validateAuthHeaders(
+      { [HEADER_SAP_DESTINATION_SERVICE]: 'BAD_CLIENT' },
+      { destinationResolver: destinationResolver() }
+    );
+
+    expect(required.isValid).toBe(true);
+    expect(invalid.isValid).toBe(false);
+    expect(invalid.diagnostics[0].code).toBe(DiagnosticCode.SAP_CLIENT_INVALID);
+    expect(invalid.errors[0]).toBe(`${HEADER_SAP_CLIENT} (from destination) must be a three-digit client number, got: 1000`);
+  });
+
+  it('should reject unknown destination', () => {
+    const result = validateAuthHeaders(
+      { [HEADER_MCP_DESTINATION]: 'E91' },
+      { destinationResolver: destinationResolver() }
+    );
+    
+    expect(result.isValid).toBe(false);
+    expect(result.diagnostics[0].code).toBe(DiagnosticCode.DESTINATION_NOT_FOUND);
+    expect(result.errors[0]).toContain('x-mcp-destination "E91" cannot be resolved');
+  });
+
+  it('should reject malformed destination', () => {
+    const broken = validateAuthHeaders(
+      { [HEADER_SAP_DESTINATION_SERVICE]: 'BROKEN' },
+      { destinationResolver: destinationResolver() }
+    );
+    const badUrl = validateAuthHeaders(
+      { [HEADER_SAP_DESTINATION_SERVICE]: 'BAD_URL' },
+      { destinationResolver: destinationResolver() }
+    );
+    
+    expect(broken.isValid).toBe(false);
+    expect(broken.diagnostics[0].code).toBe(DiagnosticCode.DESTINATION_INVALID);
+    expect(badUrl.isValid).toBe(false);
+    expect(badUrl.diagnostics[0].code).toBe(DiagnosticCode.DESTINATION_INVALID);
+  });
+
+  it('should accept any destination name without resolver', () => {
+    const result = validateAuthHeaders({ [HEADER_MCP_DESTINATION]: 'E91' });
+    
+    expect(result.isValid).toBe(true);
+    expect(result.config?.sapUrl).toBe('');
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for duplicate and conflicting header detection
+ */
+
+import { createServer, request, type IncomingHttpHeaders, type OutgoingHttpHeaders } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  HEADER_SAP_DESTINATION_SERVICE,
+  HEADER_SAP_URL,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_SAP_PASSWORD,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_UAA_URL,
+  HEADER_UAA_URL,
+  HEADER_BTP_DESTINATION,
+  HEADER_MCP_URL,
+} from '@mcp-abap-adt/interfaces';
+import { checkDuplicateHeaders } from '../duplicateHeaders';
+import { validateAuthHeaders, validateProxyHeaders } from '../headerValidator';
+import { DiagnosticCode } from '../diagnostics';
+import { JWT } from './helpers/fixtures';
+
+/**
+ * Send request through a local HTTP server and return headers as Node.js receives them
+ */
+function receiveHeaders(headers: OutgoingHttpHeaders): Promise<IncomingHttpHeaders> {
+  return new Promise((resolve, reject) => {
+    const server = createServer((req, res) => {
+      res.end();
+      server.close();
+      resolve(req.headers);
+    });
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      request({ host: '127.0.0.1', port, headers }, res => res.resume())
+        .on('error', error => {
+          server.close();
+          reject(error);
+        })
+        .end();
+    });
+  });
+}
+
+describe('checkDuplicateHeaders', () => {
+  it('should report repeated headers with different values as conflict', () => {
+    expect(checkDuplicateHeaders({ [HEADER_SAP_DESTINATION_SERVICE]: ['S4H_100', 'S4H_200'] })).toEqual([{
+      code: DiagnosticCode.HEADER_CONFLICT,
+      severity: 'error',
+      headers: [HEADER_SAP_DESTINATION_SERVICE],
+      message: `${HEADER_SAP_DESTINATION_SERVICE} is sent 2 times with different values`,
+    }]);
+  });
+
+  it('should report identical repeats as warning', () => {
+    expect(checkDuplicateHeaders({ [HEADER_SAP_URL]: ['https://sap.example.com', 'https://sap.example.com '] })).toEqual([
+      expect.objectContaining({ code: DiagnosticCode.HEADER_DUPLICATE, severity: 'warning', message: `${HEADER_SAP_URL} is sent 2 times with the same value` }),
+    ]);
+  });
+
+  it('should split comma-joined values only of headers without commas', () => {
+    expect(checkDuplicateHeaders({ [HEADER_SAP_DESTINATION_SERVICE]: 'S4H_100, S4H_200' })[0])
+      .toEqual(expect.objectContaining({ code: DiagnosticCode.HEADER_CONFLICT, headers: [HEADER_SAP_DESTINATION_SERVICE] }));
+    expect(checkDuplicateHeaders({ [HEADER_SAP_AUTH_TYPE]: 'jwt, jwt' })[0].code).toBe(DiagnosticCode.HEADER_DUPLICATE);
+    expect(checkDuplicateHeaders({ [HEADER_SAP_URL]: 'https://sap.example.com/sap?ids=1,2' })).toEqual([]);
+    expect(checkDuplicateHeaders({ [HEADER_SAP_PASSWORD]: 'pass, word', [HEADER_SAP_LOGIN]: 'DEVELOPER' })).toEqual([]);
+    expect(checkDuplicateHeaders({ [HEADER_SAP_PASSWORD]: ['a', 'b'] })[0].code).toBe(DiagnosticCode.HEADER_CONFLICT);
+  });
+
+  it('should detect names that differ only in case', () => {
+    expect(checkDuplicateHeaders({ 'X-SAP-URL': 'https://a.example.com', [HEADER_SAP_URL]: 'https://b.example.com' })[0])
+      .toEqual(expect.objectContaining({ code: DiagnosticCode.HEADER_CONFLICT, headers: [HEADER_SAP_URL] }));
+  });
+
+  it('should report aliases with different or identical values', () => {
+    expect(checkDuplicateHeaders({ [HEADER_SAP_UAA_URL]: 'https://uaa.example.com', [HEADER_UAA_URL]: 'https://other.example.com' })).toEqual([{
+      code: DiagnosticCode.HEADER_CONFLICT,
+      severity: 'error',
+      headers: [HEADER_SAP_UAA_URL, HEADER_UAA_URL],
+      message: `${HEADER_SAP_UAA_URL} and ${HEADER_UAA_URL} have different values`,
+    }]);
+    expect(checkDuplicateHeaders({ [HEADER_SAP_UAA_URL]: 'https://uaa.example.com', [HEADER_UAA_URL]: 'https://uaa.example.com' })[0])
+      .toEqual(expect.objectContaining({ code: DiagnosticCode.HEADER_DUPLICATE, message: `${HEADER_UAA_URL} duplicates ${HEADER_SAP_UAA_URL}` }));
+  });
+
+  it('should never include values in messages', () => {
+    const diagnostics = checkDuplicateHeaders({ [HEADER_SAP_JWT_TOKEN]: [JWT, `${JWT}x`] });
+    expect(diagnostics[0].message).not.toContain(JWT);
+  });
+});
+
+describe('validators', () => {
+  it('should reject auth headers with conflicting values', () => {
+    const result = validateAuthHeaders({
+      [HEADER_SAP_URL]: ['https://sap.example.com', 'https://evil.example.com'],
+      [HEADER_SAP_AUTH_TYPE]: 'jwt',
+      [HEADER_SAP_JWT_TOKEN]: JWT,
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.diagnostics[0].code).toBe(DiagnosticCode.HEADER_CONFLICT);
+  });
+
+  it('should keep identical repeats valid with warning', () => {
+    const result = validateAuthHeaders({
+      [HEADER_SAP_URL]: 'https://sap.example.com',
+      [HEADER_SAP_AUTH_TYPE]: ['jwt', 'jwt'],
+      [HEADER_SAP_JWT_TOKEN]: JWT,
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toEqual([`${HEADER_SAP_AUTH_TYPE} is sent 2 times with the same value`]);
+  });
+
+  it('should accept URLs containing commas', () => {
+    const result = validateAuthHeaders({
+      [HEADER_SAP_URL]: 'https://a.example.com/sap?a=1,2',
+      [HEADER_SAP_AUTH_TYPE]: 'basic',
+      [HEADER_SAP_LOGIN]: 'DEVELOPER',
+      [HEADER_SAP_PASSWORD]: 'secret',
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.diagnostics.filter(d => d.code === DiagnosticCode.HEADER_CONFLICT)).toEqual([]);
+  });
+
+  it('should detect header repeated on the wire', async () => {
+    const headers = await receiveHeaders({ [HEADER_SAP_DESTINATION_SERVICE]: ['S4H_100', 'S4H_200'] });
+    const result = validateAuthHeaders(headers);
+
+    expect(headers[HEADER_SAP_DESTINATION_SERVICE]).toBe('S4H_100, S4H_200');
+    expect(result.isValid).toBe(false);
+    expect(result.diagnostics[0]).toEqual(expect.objectContaining({ code: DiagnosticCode.HEADER_CONFLICT, headers: [HEADER_SAP_DESTINATION_SERVICE] }));
+  });
+
+  it('should check proxy headers', () => {
+    const result = validateProxyHeaders({
+      [HEADER_BTP_DESTINATION]: 'mcp-server',
+      [HEADER_MCP_URL]: ['https://mcp.example.com/mcp', 'https://evil.example.com/mcp'],
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.diagnostics[0]).toEqual(expect.objectContaining({ code: DiagnosticCode.HEADER_CONFLICT, headers: [HEADER_MCP_URL] }));
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for effective auth config from headers and environment defaults
+ */
+
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  HEADER_SAP_URL,
+  HEADER_SAP_CLIENT,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_PASSWORD,
+  HEADER_SAP_DESTINATION_SERVICE,
+} from '@mcp-abap-adt/interfaces';
+import { resolveEffectiveAuthConfig } from '../effectiveConfig';
+import { parseEnvFile } from '../destinations';
+import { createDestinationResolver } from '../destinationResolver';
+import { AuthMethodPriority } from '../types';
+import { DiagnosticCode } from '../diagnostics';
+import { JWT } from './helpers/fixtures';
+
+const ENV = {
+  SAP_URL: 'https://sap.example.com',
+  SAP_CLIENT: '100',
+  SAP_AUTH_TYPE: 'basic',
+  SAP_USERNAME: 'DEVELOPER',
+  SAP_PASSWORD: 'secret',
+};
+
+let destinationDir: string;
+
+beforeAll(() => {
+  destinationDir = mkdtempSync(join(tmpdir(), 'header-validator-effective-'));
+  writeFileSync(join(destinationDir, 'E19.env'), 'SAP_URL=https://e19.example.com\nSAP_CLIENT=200\n');
+});
+
+afterAll(() => {
+  rmSync(destinationDir, { recursive: true, force: true });
+});
+
+describe('resolveEffectiveAuthConfig', () => {
+  it('should validate environment alone', () => {
+    const result = resolveEffectiveAuthConfig(undefined, ENV);
+
+    expect(result.isValid).toBe(true);
+    expect(result.config).toEqual(expect.objectContaining({ priority: AuthMethodPriority.BASIC, sapUrl: ENV.SAP_URL, username: 'DEVELOPER' }));
+    expect(result.provenance).toEqual({ sapUrl: 'env', sapClient: 'env', authType: 'env', username: 'env', password: 'env' });
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should read parsed .env files', () => {
+    const env = parseEnvFile('SAP_URL=https://sap.example.com\nSAP_AUTH_TYPE=jwt\nSAP_JWT_TOKEN="' + JWT + '"\n');
+
+    expect(resolveEffectiveAuthConfig({}, env).config?.jwtToken).toBe(JWT);
+  });
+
+  it('should take request credentials as a whole and report override', () => {
+    const result = resolveEffectiveAuthConfig({ [HEADER_SAP_AUTH_TYPE]: 'jwt', [HEADER_SAP_JWT_TOKEN]: JWT }, ENV);
+
+    expect(result.isValid).toBe(true);
+    expect(result.config).toEqual(expect.objectContaining({ priority: AuthMethodPriority.DIRECT_JWT, sapUrl: ENV.SAP_URL }));
+    expect(result.config?.username).toBeUndefined();
+    expect(result.provenance).toEqual({ sapUrl: 'env', sapClient: 'env', authType: 'header', jwtToken: 'header' });
+    expect(result.diagnostics).toEqual([{
+      code: DiagnosticCode.ENV_OVERRIDDEN,
+      severity: 'warning',
+      headers: [HEADER_SAP_AUTH_TYPE, HEADER_SAP_JWT_TOKEN],
+      message: `${HEADER_SAP_AUTH_TYPE}, ${HEADER_SAP_JWT_TOKEN} override SAP_AUTH_TYPE, SAP_USERNAME, SAP_PASSWORD from environment`,
+    }]);
+  });
+
+  it('should merge connection fields one by one', () => {
+    const result = resolveEffectiveAuthConfig({ [HEADER_SAP_CLIENT]: '200', [HEADER_SAP_AUTH_TYPE]: 'basic' }, ENV);
+
+    expect(result.config?.sapClient).toBe('200');
+    expect(result.provenance).toEqual(expect.objectContaining({ sapUrl: 'env', sapClient: 'header', authType: 'header', password: 'env' }));
+    expect(result.warnings).toEqual([`${HEADER_SAP_CLIENT} overrides SAP_CLIENT from environment`]);
+  });
+
+  it('should not send environment credentials to another system', () => {
+    const result = resolveEffectiveAuthConfig({ [HEADER_SAP_URL]: 'https://other.example.com' }, ENV);
+
+    expect(result.isValid).toBe(false);
+    expect(result.config?.password).toBeUndefined();
+    expect(result.warnings).toEqual([
+      `${HEADER_SAP_URL} overrides SAP_URL from environment`,
+      `SAP_AUTH_TYPE, SAP_USERNAME, SAP_PASSWORD from environment not used (${HEADER_SAP_URL} overrides SAP_URL)`,
+    ]);
+  });
+
+  it('should merge UAA settings with request token', () => {
+    const result = resolveEffectiveAuthConfig(
+      { [HEADER_SAP_AUTH_TYPE]: 'jwt', [HEADER_SAP_JWT_TOKEN]: JWT },
+      { SAP_URL: ENV.SAP_URL, SAP_UAA_URL: 'https://uaa.example.com', SAP_UAA_CLIENT_ID: 'client', SAP_UAA_CLIENT_SECRET: 'secret' }
+    );
+
+    expect(result.warnings).toEqual([]);
+    expect(result.provenance).toEqual(expect.objectContaining({ uaaUrl: 'env', uaaClientId: 'env', uaaClientSecret: 'env', jwtToken: 'header' }));
+  });
+
+  it('should not use environment with destination headers', () => {
+    const result = resolveEffectiveAuthConfig(
+      { [HEADER_SAP_DESTINATION_SERVICE]: 'E19' },
+      ENV,
+      { destinationResolver: createDestinationResolver({ directories: destinationDir }) }
+    );
+
+    expect(result.config).toEqual(expect.objectContaining({ sapUrl: 'https://e19.example.com', sapClient: '200' }));
+    expect(result.provenance).toEqual({ sapUrl: 'destination', sapClient: 'destination', destination: 'header', authType: 'header' });
+    expect(result.warnings).toEqual([
+      `SAP_URL, SAP_CLIENT, SAP_AUTH_TYPE, SAP_USERNAME, SAP_PASSWORD from environment not used (${HEADER_SAP_DESTINATION_SERVICE} selects SAP destination)`,
+    ]);
+  });
+
+  it('should report overrides as errors in strict mode and trace environment values', () => {
+    const strict = resolveEffectiveAuthConfig({ [HEADER_SAP_CLIENT]: '200' }, ENV, { strict: true });
+    expect(strict.isValid).toBe(false);
+    expect(strict.errors).toContain(`${HEADER_SAP_CLIENT} overrides SAP_CLIENT from environment`);
+
+    const explained = resolveEffectiveAuthConfig({}, ENV, { explain: true });
+    expect(explained.trace![0]).toEqual(expect.objectContaining({ kind: 'check', subject: 'environment', headers: [HEADER_SAP_URL, HEADER_SAP_CLIENT, HEADER_SAP_AUTH_TYPE, HEADER_SAP_LOGIN, HEADER_SAP_PASSWORD] }));
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for upstream header computation
+ */
+
+import {
+  HEADER_BTP_DESTINATION,
+  HEADER_MCP_DESTINATION,
+  HEADER_MCP_URL,
+  HEADER_SAP_DESTINATION_SERVICE,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_JWT_TOKEN,
+} from '@mcp-abap-adt/interfaces';
+import { buildUpstreamHeaders } from '../forwarding';
+import { isMcpServerRequest } from '../headerValidator';
+
+const PROXY_REQUEST = {
+  Host: 'proxy.example.com',
+  Connection: 'keep-alive, X-Trace-Hop',
+  'X-Trace-Hop': '1',
+  'Content-Type': 'application/json',
+  [HEADER_BTP_DESTINATION]: 'mcp-server',
+  [HEADER_MCP_URL]: 'https://mcp.example.com/mcp',
+  [HEADER_MCP_DESTINATION]: 'S4H_100',
+  [HEADER_SAP_AUTH_TYPE]: 'jwt',
+  [HEADER_SAP_JWT_TOKEN]: 'eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiJ1c2VyIn0.signature',
+  Authorization: 'Bearer proxy-token',
+};
+
+describe('buildUpstreamHeaders', () => {
+  it('should remove proxy-only and hop-by-hop headers', () => {
+    const upstream = buildUpstreamHeaders(PROXY_REQUEST);
+
+    expect(upstream.removed).toEqual([
+      { header: 'host', reason: 'hop-by-hop' },
+      { header: 'connection', reason: 'hop-by-hop' },
+      { header: 'x-trace-hop', reason: 'hop-by-hop' },
+      { header: HEADER_BTP_DESTINATION, reason: 'proxy' },
+      { header: HEADER_MCP_URL, reason: 'proxy' },
+    ]);
+    expect(upstream.kept).toEqual([
+      'content-type',
+      HEADER_MCP_DESTINATION,
+      HEADER_SAP_AUTH_TYPE,
+      HEADER_SAP_JWT_TOKEN,
+      'authorization',
+    ]);
+    expect(upstream.added).toEqual([]);
+    expect(isMcpServerRequest(upstream.headers)).toBe(true);
+  });
+
+  it('should strip credentials and inject next-hop headers', () => {
+    const upstream = buildUpstreamHeaders(PROXY_REQUEST, {
+      stripCredentials: true,
+      removeHeaders: ['Content-Type'],
+      injectHeaders: new Map([[HEADER_SAP_DESTINATION_SERVICE, 'S4H_100'], ['Authorization', 'Bearer hop-token']]),
+    });
+
+    expect(upstream.headers).toEqual({
+      [HEADER_MCP_DESTINATION]: 'S4H_100',
+      [HEADER_SAP_DESTINATION_SERVICE]: 'S4H_100',
+      authorization: 'Bearer hop-token',
+    });
+    expect(upstream.removed).toEqual(expect.arrayContaining([
+      { header: 'content-type', reason: 'policy' },
+      { header: HEADER_SAP_AUTH_TYPE, reason: 'credential' },
+      { header: HEADER_SAP_JWT_TOKEN, reason: 'credential' },
+      { header: 'authorization', reason: 'credential' },
+    ]));
+    expect(upstream.added).toEqual([HEADER_SAP_DESTINATION_SERVICE, 'authorization']);
+  });
+
+  it('should report injected headers that replace incoming ones', () => {
+    const upstream = buildUpstreamHeaders({ 'x-sap-client': '100' }, { injectHeaders: { 'X-SAP-Client': '200' } });
+
+    expect(upstream.headers).toEqual({ 'x-sap-client': '200' });
+    expect(upstream.removed).toEqual([{ header: 'x-sap-client', reason: 'replaced' }]);
+    expect(upstream.added).toEqual(['x-sap-client']);
+  });
+
+  it('should keep multi-value headers', () => {
+    const upstream = buildUpstreamHeaders({ accept: ['application/json', 'text/event-stream'] });
+    expect(upstream.headers).toEqual({ accept: ['application/json', 'text/event-stream'] });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for header input parsing
+ */
+
+import {
+  parseHeaderLines,
+  parseCurlCommand,
+  parseHttpRequest,
+  parseHeaderJson,
+  parseHeaderInput,
+} from '../headerInput';
+
+describe('parseHeaderLines', () => {
+  it('should parse header lines and keep repeated headers', () => {
+    expect(parseHeaderLines(['x-sap-url: https://sap.example.com', 'Accept: a', 'Accept:b '])).toEqual({
+      headers: { 'x-sap-url': 'https://sap.example.com', Accept: ['a', 'b'] },
+      format: 'lines',
+    });
+  });
+
+  it('should reject lines that are not headers', () => {
+    expect(parseHeaderLines(['x-sap-url https://sap.example.com']).error)
+      .toBe('not a "Name: value" header: x-sap-url https://sap.example.com');
+  });
+});
+
+describe('parseCurlCommand', () => {
+  it('should read headers, user and cookies', () => {
+    const result = parseCurlCommand(`curl -X POST https://mcp.example.com/mcp \\
+      -H 'x-sap-url: https://sap.example.com' \\
+      --header="x-sap-client: 100" -H"X-Sap-Auth-Type: basic" \\
+      -u 'DEVELOPER:pa ss' -b MYSAPSSO2=ticket --data '{"a":1}'`);
+
+    expect(result).toEqual({
+      headers: {
+        'x-sap-url': 'https://sap.example.com',
+        'x-sap-client': '100',
+        'X-Sap-Auth-Type': 'basic',
+        Authorization: `Basic ${Buffer.from('DEVELOPER:pa ss').toString('base64')}`,
+        Cookie: 'MYSAPSSO2=ticket',
+      },
+      format: 'curl',
+    });
+  });
+
+  it('should handle escapes in double quotes', () => {
+    expect(parseCurlCommand('curl -H "x-note: say \\"hi\\" \\n"').headers).toEqual({ 'x-note': 'say "hi" \\n' });
+    expect(parseCurlCommand('curl --oauth2-bearer token').headers).toEqual({ Authorization: 'Bearer token' });
+  });
+
+  it('should report malformed commands', () => {
+    expect(parseCurlCommand('wget -H "a: b"').error).toBe('curl command must start with "curl"');
+    expect(parseCurlCommand('curl -H "a: b').error).toBe('curl command has an unterminated quote or escape');
+    expect(parseCurlCommand('curl -H').error).toBe('curl option -H has no value');
+    expect(parseCurlCommand('curl -H novalue').error).toBe('curl -H value is not a "Name: value" header: novalue');
+  });
+});
+
+describe('parseHttpRequest', () => {
+  it('should read headers up to the body and unfold continuation lines', () => {
+    const request = [
+      'POST /mcp HTTP/1.1',
+      'Host: mcp.example.com',
+      'x-sap-jwt-token: eyJ',
+      '  abc',
+      'x-sap-url: https://sap.example.com',
+      '',
+      'body: not a header',
+    ].join('\r\n');
+
+    expect(parseHttpRequest(request)).toEqual({
+      headers: { Host: 'mcp.example.com', 'x-sap-jwt-token': 'eyJ abc', 'x-sap-url': 'https://sap.example.com' },
+      format: 'http',
+    });
+  });
+});
+
+describe('parseHeaderJson', () => {
+  it('should accept string and string array values', () => {
+    expect(parseHeaderJson('{"x-sap-client": "100", "accept": ["a", "b"]}').headers)
+      .toEqual({ 'x-sap-client': '100', accept: ['a', 'b'] });
+  });
+
+  it('should reject other values', () => {
+    expect(parseHeaderJson('[]').error).toBe('JSON must be an object of header names and values');
+    expect(parseHeaderJson('{"x-sap-client": 100}').error)
+      .toBe('JSON value of header x-sap-client must be a string or an array of strings');
+    expect(parseHeaderJson('{').error).toMatch(/^JSON is invalid: /);
+  });
+});
+
+describe('parseHeaderInput', () => {
+  it('should detect format', () => {
+    expect(parseHeaderInput('  {"a": "b"}\n').format).toBe('json');
+    expect(parseHeaderInput('curl -H "a: b" https://example.com').format).toBe('curl');
+    expect(parseHeaderInput('a: b\nc: d\n').format).toBe('http');
+  });
+});
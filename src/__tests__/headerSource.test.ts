@@ -0,0 +1,70 @@
+/**
+ * Unit tests for header source normalization
+ */
+
+import {
+  HEADER_SAP_URL,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_PASSWORD,
+  HEADER_SAP_CLIENT,
+  HEADER_MCP_URL,
+  AUTH_TYPE_BASIC,
+} from '@mcp-abap-adt/interfaces';
+import { normalizeHeaders } from '../headerSource';
+import { validateAuthHeaders, validateProxyHeaders, isProxyRequest, isMcpServerRequest } from '../headerValidator';
+
+const record = {
+  [HEADER_SAP_URL]: 'https://test.sap.com',
+  [HEADER_SAP_AUTH_TYPE]: AUTH_TYPE_BASIC,
+  [HEADER_SAP_LOGIN]: 'username',
+  [HEADER_SAP_PASSWORD]: 'password',
+  [HEADER_SAP_CLIENT]: '100',
+};
+
+describe('normalizeHeaders', () => {
+  it('should lowercase record header names', () => {
+    expect(normalizeHeaders({ 'X-SAP-URL': 'https://test.sap.com' })).toEqual({ 'x-sap-url': 'https://test.sap.com' });
+  });
+
+  it('should prefer lowercase name when header is present in different cases', () => {
+    expect(normalizeHeaders({ 'X-Sap-Client': '200', 'x-sap-client': '100' })).toEqual({ 'x-sap-client': '100' });
+    expect(normalizeHeaders({ 'x-sap-client': '100', 'X-Sap-Client': '200' })).toEqual({ 'x-sap-client': '100' });
+  });
+
+  it('should drop undefined values and keep arrays', () => {
+    expect(normalizeHeaders({ a: undefined, b: ['1', '2'] })).toEqual({ b: ['1', '2'] });
+  });
+
+  it('should read Map', () => {
+    expect(normalizeHeaders(new Map([['X-SAP-URL', 'https://test.sap.com']]))).toEqual({ 'x-sap-url': 'https://test.sap.com' });
+  });
+
+  it('should read Fetch API Headers', () => {
+    const headers = new Headers({ 'X-SAP-URL': 'https://test.sap.com' });
+    
+    expect(normalizeHeaders(headers)).toEqual({ 'x-sap-url': 'https://test.sap.com' });
+  });
+});
+
+describe('validators with different header sources', () => {
+  it('should return identical results for record, Map and Headers', () => {
+    const fromRecord = validateAuthHeaders(record);
+    const fromMap = validateAuthHeaders(new Map(Object.entries(record)));
+    const fromHeaders = validateAuthHeaders(new Headers(record));
+    
+    expect(fromRecord.isValid).toBe(true);
+    expect(fromMap).toEqual(fromRecord);
+    expect(fromHeaders).toEqual(fromRecord);
+  });
+
+  it('should classify Headers for proxy and MCP server requests', () => {
+    const proxyHeaders = new Headers({ [HEADER_MCP_URL]: 'https://mcp.example.com' });
+    const mcpHeaders = new Headers(record);
+    
+    expect(validateProxyHeaders(proxyHeaders).hasMcpUrl).toBe(true);
+    expect(isProxyRequest(proxyHeaders)).toBe(true);
+    expect(isMcpServerRequest(proxyHeaders)).toBe(false);
+    expect(isMcpServerRequest(mcpHeaders)).toBe(true);
+  });
+});
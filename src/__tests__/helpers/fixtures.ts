@@ -0,0 +1,40 @@
+/**
+ * Shared fixtures for unit tests
+ */
+
+import {
+  HEADER_SAP_URL,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_PASSWORD,
+  HEADER_SAP_JWT_TOKEN,
+} from '@mcp-abap-adt/interfaces';
+
+export function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Create JWT with placeholder signature ("signature", base64url encoded)
+ */
+export function createJwt(payload: Record<string, unknown>, header: Record<string, unknown> = { alg: 'RS256' }): string {
+  return `${encode(header)}.${encode(payload)}.c2lnbmF0dXJl`;
+}
+
+// Expires in 2100
+export const JWT = createJwt({ sub: 'user', exp: 4102444800 });
+
+export const SAP_URL = 'https://sap.example.com';
+
+export const BASIC_HEADERS = {
+  [HEADER_SAP_URL]: SAP_URL,
+  [HEADER_SAP_AUTH_TYPE]: 'basic',
+  [HEADER_SAP_LOGIN]: 'DEVELOPER',
+  [HEADER_SAP_PASSWORD]: 'secret',
+};
+
+export const JWT_HEADERS = {
+  [HEADER_SAP_URL]: SAP_URL,
+  [HEADER_SAP_AUTH_TYPE]: 'jwt',
+  [HEADER_SAP_JWT_TOKEN]: JWT,
+};
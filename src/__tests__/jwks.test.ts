@@ -0,0 +1,187 @@
+/**
+ * Unit tests for offline JWT signature verification
+ * Keys are generated in memory, JWKS file is written to a temp directory
+ */
+
+import { generateKeyPairSync, sign, type KeyObject } from 'crypto';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { IncomingHttpHeaders } from 'http';
+import {
+  HEADER_SAP_URL,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_JWT_TOKEN,
+  AUTH_TYPE_JWT,
+} from '@mcp-abap-adt/interfaces';
+import { createJwtKeySet, verifyJwtSignature } from '../jwks';
+import { decodeJwt } from '../jwt';
+import { validateAuthHeaders } from '../headerValidator';
+import { encode } from './helpers/fixtures';
+
+const rsaKeys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const rotatedRsaKeys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ecKeys = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+function createSignedJwt(header: Record<string, unknown>, privateKey: KeyObject): string {
+  const signingInput = `${encode(header)}.${encode({ sub: 'user', exp: Math.floor(Date.now() / 1000) + 600 })}`;
+  const signature = header.alg === 'ES256'
+    ? sign('sha256', Buffer.from(signingInput), { key: privateKey, dsaEncoding: 'ieee-p1363' })
+    : sign('sha256', Buffer.from(signingInput), privateKey);
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+function verifyToken(token: string, keySet = defaultKeySet) {
+  return verifyJwtSignature(decodeJwt(token).jwt!, keySet);
+}
+
+const defaultKeySet = createJwtKeySet({
+  jwks: {
+    keys: [
+      { ...rsaKeys.publicKey.export({ format: 'jwk' }), kid: 'rsa-1', alg: 'RS256', use: 'sig' },
+      { ...rotatedRsaKeys.publicKey.export({ format: 'jwk' }), kid: 'rsa-2', alg: 'RS256', use: 'sig' },
+      { ...ecKeys.publicKey.export({ format: 'jwk' }), kid: 'ec-1', alg: 'ES256' },
+    ],
+  },
+});
+
+describe('createJwtKeySet', () => {
+  it('should load keys from JWKS file', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'jwks-'));
+    try {
+      const file = join(dir, 'jwks.json');
+      writeFileSync(file, JSON.stringify({ keys: [{ ...rsaKeys.publicKey.export({ format: 'jwk' }), kid: 'rsa-1' }] }));
+      
+      const keySet = createJwtKeySet({ jwksFiles: file });
+      
+      expect(keySet.keys).toHaveLength(1);
+      expect(keySet.keys[0].kid).toBe('rsa-1');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should load PEM keys', () => {
+    const keySet = createJwtKeySet({
+      pemKeys: [
+        rsaKeys.publicKey.export({ format: 'pem', type: 'spki' }).toString(),
+        { pem: ecKeys.publicKey.export({ format: 'pem', type: 'spki' }).toString(), kid: 'ec-1', alg: 'ES256' },
+      ],
+    });
+    
+    expect(keySet.keys).toHaveLength(2);
+    expect(verifyToken(createSignedJwt({ alg: 'RS256' }, rsaKeys.privateKey), keySet).verified).toBe(true);
+    expect(verifyToken(createSignedJwt({ alg: 'ES256', kid: 'ec-1' }, ecKeys.privateKey), keySet).verified).toBe(true);
+  });
+
+  it('should skip encryption keys', () => {
+    const keySet = createJwtKeySet({
+      jwks: { keys: [{ ...rsaKeys.publicKey.export({ format: 'jwk' }), use: 'enc' }] },
+    });
+    
+    expect(keySet.keys).toHaveLength(0);
+  });
+
+  it('should throw when JWKS file cannot be read', () => {
+    expect(() => createJwtKeySet({ jwksFiles: '/nonexistent/jwks.json' })).toThrow('Failed to read JWKS file');
+  });
+});
+
+describe('verifyJwtSignature', () => {
+  it('should verify RS256 token by kid', () => {
+    const result = verifyToken(createSignedJwt({ alg: 'RS256', kid: 'rsa-1' }, rsaKeys.privateKey));
+    
+    expect(result.verified).toBe(true);
+    expect(result.kid).toBe('rsa-1');
+  });
+
+  it('should verify token signed with rotated key', () => {
+    const result = verifyToken(createSignedJwt({ alg: 'RS256', kid: 'rsa-2' }, rotatedRsaKeys.privateKey));
+    
+    expect(result.verified).toBe(true);
+    expect(result.kid).toBe('rsa-2');
+  });
+
+  it('should verify token without kid against all compatible keys', () => {
+    const result = verifyToken(createSignedJwt({ alg: 'RS256' }, rotatedRsaKeys.privateKey));
+    
+    expect(result.verified).toBe(true);
+    expect(result.kid).toBe('rsa-2');
+  });
+
+  it('should verify ES256 token', () => {
+    const result = verifyToken(createSignedJwt({ alg: 'ES256', kid: 'ec-1' }, ecKeys.privateKey));
+    
+    expect(result.verified).toBe(true);
+  });
+
+  it('should reject unknown kid', () => {
+    const result = verifyToken(createSignedJwt({ alg: 'RS256', kid: 'rsa-3' }, rsaKeys.privateKey));
+    
+    expect(result.verified).toBe(false);
+    expect(result.reason).toBe('unknown_kid');
+  });
+
+  it('should reject bad signature', () => {
+    const result = verifyToken(createSignedJwt({ alg: 'RS256', kid: 'rsa-1' }, rotatedRsaKeys.privateKey));
+    
+    expect(result.verified).toBe(false);
+    expect(result.reason).toBe('bad_signature');
+  });
+
+  it('should reject unsupported algorithm', () => {
+    const token = `${encode({ alg: 'HS256' })}.${encode({ sub: 'user' })}.c2ln`;
+    
+    const result = verifyToken(token);
+    
+    expect(result.verified).toBe(false);
+    expect(result.reason).toBe('unsupported_alg');
+  });
+
+  it('should reject alg none', () => {
+    const token = `${encode({ alg: 'none' })}.${encode({ sub: 'user' })}.`;
+    
+    const result = verifyToken(token);
+    
+    expect(result.verified).toBe(false);
+    expect(result.reason).toBe('alg_none');
+  });
+
+  it('should report missing or non-string alg separately from alg none', () => {
+    for (const header of [{}, { alg: 256 }, { alg: '' }]) {
+      const result = verifyToken(`${encode(header)}.${encode({ sub: 'user' })}.c2ln`);
+
+      expect(result.verified).toBe(false);
+      expect(result.reason).toBe('alg_missing');
+      expect(result.error).not.toContain('none');
+    }
+  });
+});
+
+describe('validateAuthHeaders with key set', () => {
+  it('should accept correctly signed token', () => {
+    const headers: IncomingHttpHeaders = {
+      [HEADER_SAP_URL]: 'https://test.sap.com',
+      [HEADER_SAP_AUTH_TYPE]: AUTH_TYPE_JWT,
+      [HEADER_SAP_JWT_TOKEN]: createSignedJwt({ alg: 'RS256', kid: 'rsa-1' }, rsaKeys.privateKey),
+    };
+    
+    const result = validateAuthHeaders(headers, { jwt: { keySet: defaultKeySet } });
+    
+    expect(result.isValid).toBe(true);
+    expect(result.config?.jwtSignature?.verified).toBe(true);
+  });
+
+  it('should report forged token as error with reason', () => {
+    const headers: IncomingHttpHeaders = {
+      [HEADER_SAP_URL]: 'https://test.sap.com',
+      [HEADER_SAP_AUTH_TYPE]: AUTH_TYPE_JWT,
+      [HEADER_SAP_JWT_TOKEN]: createSignedJwt({ alg: 'RS256', kid: 'rsa-1' }, rotatedRsaKeys.privateKey),
+    };
+    
+    const result = validateAuthHeaders(headers, { jwt: { keySet: defaultKeySet } });
+    
+    expect(result.isValid).toBe(false);
+    expect(result.errors.some(e => e.includes(HEADER_SAP_JWT_TOKEN) && e.includes('bad_signature'))).toBe(true);
+  });
+});
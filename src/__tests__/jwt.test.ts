@@ -0,0 +1,118 @@
+/**
+ * Unit tests for JWT decoding and claim validation
+ */
+
+import { decodeJwt, validateJwtClaims, summarizeJwtClaims } from '../jwt';
+import { encode, createJwt } from './helpers/fixtures';
+
+const NOW_SECONDS = 1760000000;
+const now = () => NOW_SECONDS * 1000;
+
+describe('decodeJwt', () => {
+  it('should decode header and payload', () => {
+    const token = createJwt({ sub: 'user' }, { alg: 'RS256', kid: 'key-1' });
+    
+    const result = decodeJwt(token);
+    
+    expect(result.error).toBeUndefined();
+    expect(result.jwt?.header).toEqual({ alg: 'RS256', kid: 'key-1' });
+    expect(result.jwt?.payload).toEqual({ sub: 'user' });
+    expect(result.jwt?.signature).toBe('c2lnbmF0dXJl');
+    expect(result.jwt?.signingInput).toBe(token.substring(0, token.lastIndexOf('.')));
+  });
+
+  it('should return error when token has wrong number of segments', () => {
+    expect(decodeJwt('a.b').error).toContain('3 dot-separated segments');
+    expect(decodeJwt('a.b.c.d').error).toContain('3 dot-separated segments');
+  });
+
+  it('should return error when segment is not base64url', () => {
+    expect(decodeJwt(`a+b.${encode({})}.sig`).error).toContain('header is not base64url');
+  });
+
+  it('should return error when payload is not JSON object', () => {
+    const notJson = Buffer.from('not json').toString('base64url');
+    expect(decodeJwt(`${encode({ alg: 'RS256' })}.${notJson}.sig`).error).toContain('payload is not valid JSON');
+    expect(decodeJwt(`${encode({ alg: 'RS256' })}.${encode([1, 2])}.sig`).error).toContain('payload is not a JSON object');
+  });
+});
+
+describe('validateJwtClaims', () => {
+  it('should accept token within validity period', () => {
+    const result = validateJwtClaims({ exp: NOW_SECONDS + 600, nbf: NOW_SECONDS - 10, iat: NOW_SECONDS - 10 }, { now });
+    
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should reject expired token', () => {
+    const result = validateJwtClaims({ exp: NOW_SECONDS - 600 }, { now });
+    
+    expect(result.errors.some(e => e.includes('expired'))).toBe(true);
+  });
+
+  it('should reject token that is not yet valid', () => {
+    const result = validateJwtClaims({ exp: NOW_SECONDS + 600, nbf: NOW_SECONDS + 300 }, { now });
+    
+    expect(result.errors.some(e => e.includes('not valid before'))).toBe(true);
+  });
+
+  it('should reject token issued in the future', () => {
+    const result = validateJwtClaims({ exp: NOW_SECONDS + 600, iat: NOW_SECONDS + 300 }, { now });
+    
+    expect(result.errors.some(e => e.includes('issued in the future'))).toBe(true);
+  });
+
+  it('should apply clock skew', () => {
+    const claims = { exp: NOW_SECONDS - 30, nbf: NOW_SECONDS + 30 };
+    
+    expect(validateJwtClaims(claims, { now, clockSkewSeconds: 60 }).errors).toEqual([]);
+    expect(validateJwtClaims(claims, { now, clockSkewSeconds: 0 }).errors).toHaveLength(2);
+  });
+
+  it('should reject non-numeric time claims', () => {
+    const result = validateJwtClaims({ exp: 'tomorrow' }, { now });
+    
+    expect(result.errors.some(e => e.includes('"exp"'))).toBe(true);
+  });
+
+  it('should warn when exp claim is missing', () => {
+    const result = validateJwtClaims({ sub: 'user' }, { now });
+    
+    expect(result.errors).toEqual([]);
+    expect(result.warnings.some(w => w.includes('"exp"'))).toBe(true);
+  });
+});
+
+describe('summarizeJwtClaims', () => {
+  it('should extract XSUAA claims', () => {
+    const summary = summarizeJwtClaims({
+      sub: 'sub-id',
+      iss: 'https://issuer',
+      aud: 'sb-app',
+      user_name: 'john',
+      client_id: 'sb-app!t1',
+      zid: 'zone-id',
+      ext_attr: { zdn: 'my-subaccount' },
+      exp: NOW_SECONDS,
+      iat: NOW_SECONDS - 60,
+    });
+    
+    expect(summary).toEqual({
+      subject: 'sub-id',
+      issuer: 'https://issuer',
+      audience: ['sb-app'],
+      userName: 'john',
+      clientId: 'sb-app!t1',
+      zoneId: 'zone-id',
+      subdomain: 'my-subaccount',
+      expiresAt: NOW_SECONDS,
+      notBefore: undefined,
+      issuedAt: NOW_SECONDS - 60,
+    });
+  });
+
+  it('should extract IAS zone claim', () => {
+    expect(summarizeJwtClaims({ app_tid: 'tenant-id' }).zoneId).toBe('tenant-id');
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Unit tests for SAP logon ticket authentication
+ */
+
+import { HEADER_SAP_URL, HEADER_SAP_AUTH_TYPE, HEADER_SAP_CLIENT } from '@mcp-abap-adt/interfaces';
+import {
+  readLogonTicket,
+  decodeLogonTicket,
+  validateLogonTicket,
+  HEADER_SAP_LOGON_TICKET,
+} from '../logonTicket';
+import { EXTENDED_AUTH_METHOD_PRIORITY } from '../authMethods';
+import { normalizeHeaders } from '../headerSource';
+import { validateAuthHeaders } from '../headerValidator';
+import { AuthMethodPriority } from '../types';
+import { describeAuthResult, redactAuthConfig } from '../redaction';
+import { DiagnosticCode } from '../diagnostics';
+
+type TicketField = [id: number, value: Buffer];
+
+function textField(id: number, value: string, encoding: BufferEncoding = 'utf8'): TicketField {
+  return [id, Buffer.from(value, encoding)];
+}
+
+/**
+ * Build ticket in MYSAPSSO2 encoding (base64 with `!` instead of `+`)
+ */
+function buildTicket(fields: TicketField[], codePage = '4110', version = 2): string {
+  const bytes = Buffer.concat([
+    Buffer.from([version]),
+    Buffer.from(codePage, 'latin1'),
+    ...fields.flatMap(([id, value]) => [Buffer.from([id, value.length >> 8, value.length & 0xff]), value]),
+  ]);
+  return bytes.toString('base64').replace(/\+/g, '!');
+}
+
+const SIGNATURE: TicketField = [0xff, Buffer.alloc(64, 0xfb)];
+
+// Issued 2030-01-01T00:00Z by ABC/100 for ALICE, valid 8 hours
+const TICKET_FIELDS: TicketField[] = [
+  textField(0x01, 'ALICE'),
+  textField(0x02, '100'),
+  textField(0x03, 'ABC'),
+  textField(0x04, '203001010000'),
+  [0x05, Buffer.from([0, 0, 0, 8])],
+  SIGNATURE,
+];
+
+const TICKET = buildTicket(TICKET_FIELDS);
+const ISSUED_AT = Date.parse('2030-01-01T00:00:00Z') / 1000;
+const VALID_NOW = () => Date.parse('2030-01-01T01:00:00Z');
+
+const SAP_URL = 'https://sap.example.com';
+
+describe('decodeLogonTicket', () => {
+  it('should decode ticket fields', () => {
+    const { ticket, error } = decodeLogonTicket(TICKET);
+
+    expect(error).toBeUndefined();
+    expect(ticket?.version).toBe(2);
+    expect(ticket?.codePage).toBe('4110');
+    expect(ticket?.summary).toEqual({
+      user: 'ALICE',
+      client: '100',
+      systemId: 'ABC',
+      issuedAt: ISSUED_AT,
+      expiresAt: ISSUED_AT + 8 * 3600,
+    });
+  });
+
+  it('should decode URL-encoded ticket and UTF-16 code page', () => {
+    const utf16 = buildTicket([
+      textField(0x01, 'JÜRGEN', 'utf16le'),
+      textField(0x04, '203001010000', 'utf16le'),
+      [0x07, Buffer.from([0, 0, 0, 30])],
+      SIGNATURE,
+    ], '4103');
+
+    const { ticket } = decodeLogonTicket(encodeURIComponent(utf16));
+    expect(ticket?.summary.user).toBe('JÜRGEN');
+    expect(ticket?.summary.expiresAt).toBe(ISSUED_AT + 30 * 60);
+  });
+
+  it('should decode UTF-16BE and Latin-1 code pages when TextDecoder supports UTF-8 only', () => {
+    const Decoder = globalThis.TextDecoder;
+    // Runtime without full ICU
+    globalThis.TextDecoder = class extends Decoder {
+      constructor(label = 'utf-8', options?: ConstructorParameters<typeof TextDecoder>[1]) {
+        if (label.toLowerCase() !== 'utf-8') {
+          throw new RangeError(`The "${label}" encoding is not supported`);
+        }
+        super(label, options);
+      }
+    } as typeof TextDecoder;
+    try {
+      const utf16be = buildTicket([[0x01, Buffer.from('JÜRGEN', 'utf16le').swap16()], SIGNATURE], '4102');
+      const latin1 = buildTicket([textField(0x01, 'MÜLLER', 'latin1'), SIGNATURE], '1100');
+
+      expect(decodeLogonTicket(utf16be).ticket?.summary.user).toBe('JÜRGEN');
+      expect(decodeLogonTicket(latin1).ticket?.summary.user).toBe('MÜLLER');
+      expect(decodeLogonTicket(TICKET).ticket?.summary.user).toBe('ALICE');
+    } finally {
+      globalThis.TextDecoder = Decoder;
+    }
+  });
+
+  it('should prefer UTF-8 user field', () => {
+    const { ticket } = decodeLogonTicket(buildTicket([textField(0x01, 'ALICE'), textField(0x0a, 'alice@example.com'), SIGNATURE], '1100'));
+    expect(ticket?.summary.user).toBe('alice@example.com');
+    expect(ticket?.summary.expiresAt).toBeUndefined();
+  });
+
+  it('should reject malformed tickets', () => {
+    const truncated = Buffer.from(TICKET.replace(/!/g, '+'), 'base64').subarray(0, 20).toString('base64');
+
+    expect(decodeLogonTicket('not a ticket').error).toBe('not base64 encoded');
+    expect(decodeLogonTicket('AgQx').error).toBe('ticket is too short');
+    expect(decodeLogonTicket(buildTicket(TICKET_FIELDS, '4110', 3)).error).toBe('unsupported ticket version 3');
+    expect(decodeLogonTicket(buildTicket(TICKET_FIELDS, 'UTF8')).error).toBe('ticket code page is invalid');
+    expect(decodeLogonTicket(truncated).error).toMatch(/exceeds ticket length|truncated/);
+    expect(decodeLogonTicket(buildTicket(TICKET_FIELDS.slice(0, -1))).error).toBe('ticket has no signature');
+    expect(decodeLogonTicket(buildTicket([textField(0x02, '100'), SIGNATURE])).error).toBe('ticket has no user');
+    expect(decodeLogonTicket(buildTicket([textField(0x01, 'ALICE'), textField(0x04, 'yesterday'), SIGNATURE])).error)
+      .toBe('ticket creation time is invalid');
+  });
+});
+
+describe('readLogonTicket', () => {
+  it('should read header before MYSAPSSO2 cookie', () => {
+    expect(readLogonTicket(normalizeHeaders({
+      [HEADER_SAP_LOGON_TICKET]: 'from-header',
+      cookie: 'MYSAPSSO2=from-cookie',
+    }))).toBe('from-header');
+    expect(readLogonTicket(normalizeHeaders({ cookie: 'sap-usercontext=sap-client=100; MYSAPSSO2=AjQxMDA=; other=1' })))
+      .toBe('AjQxMDA=');
+    expect(readLogonTicket(normalizeHeaders({ cookie: 'MYSAPSSO2X=value' }))).toBeUndefined();
+  });
+});
+
+describe('validateLogonTicket', () => {
+  const { ticket } = decodeLogonTicket(TICKET);
+
+  it('should accept ticket within validity period', () => {
+    expect(validateLogonTicket(ticket!, { now: VALID_NOW }).diagnostics).toEqual([]);
+  });
+
+  it('should report expired ticket after clock skew', () => {
+    const expiresAt = (ISSUED_AT + 8 * 3600) * 1000;
+
+    expect(validateLogonTicket(ticket!, { now: () => expiresAt + 30_000 }).diagnostics).toEqual([]);
+    const result = validateLogonTicket(ticket!, { now: () => expiresAt + 60_000 });
+    expect(result.diagnostics[0]).toEqual(expect.objectContaining({
+      code: DiagnosticCode.LOGON_TICKET_EXPIRED,
+      message: 'ticket expired at 2030-01-01T08:00:00.000Z',
+    }));
+  });
+});
+
+describe('validateAuthHeaders with logon ticket', () => {
+  const logonTicket = { now: VALID_NOW };
+
+  it('should accept ticket header', () => {
+    const result = validateAuthHeaders({
+      [HEADER_SAP_URL]: SAP_URL,
+      [HEADER_SAP_AUTH_TYPE]: 'logon-ticket',
+      [HEADER_SAP_CLIENT]: '100',
+      [HEADER_SAP_LOGON_TICKET]: TICKET,
+    }, { logonTicket });
+
+    expect(result.isValid).toBe(true);
+    expect(result.config).toEqual(expect.objectContaining({
+      priority: AuthMethodPriority.BASIC,
+      rank: EXTENDED_AUTH_METHOD_PRIORITY.LOGON_TICKET,
+      authType: 'logon-ticket',
+      authMethod: 'logon-ticket',
+      logonTicket: TICKET,
+    }));
+    expect(result.config?.logonTicketSummary?.user).toBe('ALICE');
+    expect(describeAuthResult(result)).toMatch(/^valid: logon-ticket \(logon-ticket\) https:\/\/sap\.example\.com client 100, logon ticket user ALICE$/);
+    expect(redactAuthConfig(result.config!).logonTicket).toContain('[REDACTED');
+  });
+
+  it('should read ticket from MYSAPSSO2 cookie', () => {
+    const result = validateAuthHeaders({
+      [HEADER_SAP_URL]: SAP_URL,
+      [HEADER_SAP_AUTH_TYPE]: 'logon-ticket',
+      cookie: `MYSAPSSO2=${encodeURIComponent(TICKET)}`,
+    }, { logonTicket });
+
+    expect(result.isValid).toBe(true);
+    expect(result.config?.logonTicketSummary?.systemId).toBe('ABC');
+  });
+
+  it('should reject malformed and expired tickets', () => {
+    const malformed = validateAuthHeaders({
+      [HEADER_SAP_URL]: SAP_URL,
+      [HEADER_SAP_AUTH_TYPE]: 'logon-ticket',
+      cookie: 'MYSAPSSO2=AgQx',
+    });
+    expect(malformed.isValid).toBe(false);
+    expect(malformed.diagnostics[0]).toEqual(expect.objectContaining({
+      code: DiagnosticCode.LOGON_TICKET_MALFORMED,
+      message: 'MYSAPSSO2 cookie is not a valid logon ticket (ticket is too short)',
+      headers: ['cookie'],
+    }));
+
+    const expired = validateAuthHeaders({
+      [HEADER_SAP_URL]: SAP_URL,
+      [HEADER_SAP_AUTH_TYPE]: 'logon-ticket',
+      [HEADER_SAP_LOGON_TICKET]: TICKET,
+    }, { logonTicket: { now: () => Date.parse('2030-02-01T00:00:00Z') } });
+    expect(expired.isValid).toBe(false);
+    expect(expired.errors[0]).toBe(`${HEADER_SAP_LOGON_TICKET} is rejected: ticket expired at 2030-01-01T08:00:00.000Z`);
+  });
+
+  it('should report missing ticket and missing auth type', () => {
+    const missing = validateAuthHeaders({ [HEADER_SAP_URL]: SAP_URL, [HEADER_SAP_AUTH_TYPE]: 'logon-ticket' });
+    expect(missing.diagnostics[0].code).toBe(DiagnosticCode.LOGON_TICKET_MISSING);
+
+    const noAuthType = validateAuthHeaders({ [HEADER_SAP_URL]: SAP_URL, [HEADER_SAP_LOGON_TICKET]: TICKET });
+    expect(noAuthType.errors[0]).toBe(`${HEADER_SAP_AUTH_TYPE} must be "logon-ticket" when ${HEADER_SAP_LOGON_TICKET} is present`);
+  });
+
+  it('should warn when ticket header is ignored', () => {
+    const result = validateAuthHeaders({
+      [HEADER_SAP_URL]: SAP_URL,
+      [HEADER_SAP_AUTH_TYPE]: 'basic',
+      'x-sap-login': 'user',
+      'x-sap-password': 'secret',
+      [HEADER_SAP_LOGON_TICKET]: TICKET,
+    });
+
+    expect(result.config?.authMethod).toBe('basic');
+    expect(result.diagnostics).toContainEqual(expect.objectContaining({
+      code: DiagnosticCode.AUTH_METHOD_CONFLICT,
+      message: `${HEADER_SAP_LOGON_TICKET} is ignored when ${HEADER_SAP_AUTH_TYPE} is "basic"`,
+    }));
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for auth from MCP protocol metadata and stdio environments
+ */
+
+import {
+  HEADER_SAP_URL,
+  HEADER_SAP_CLIENT,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_PASSWORD,
+  HEADER_MCP_DESTINATION,
+} from '@mcp-abap-adt/interfaces';
+import {
+  headersFromMcpMeta,
+  headersFromInitializeParams,
+  headersFromStdioEnv,
+  validateMcpMeta,
+  validateInitializeParams,
+  validateStdioEnv,
+} from '../mcpSources';
+import { validateAuthHeaders } from '../headerValidator';
+import { AuthMethodPriority } from '../types';
+import { DiagnosticCode } from '../diagnostics';
+import { JWT, SAP_URL } from './helpers/fixtures';
+
+describe('headersFromMcpMeta', () => {
+  it('should read header-named keys at top level and in nested headers', () => {
+    expect(headersFromMcpMeta({
+      progressToken: 7,
+      'X-SAP-URL': SAP_URL,
+      headers: { [HEADER_SAP_CLIENT]: 100, [HEADER_SAP_AUTH_TYPE]: 'jwt', ignored: { nested: true } },
+    })).toEqual({
+      [HEADER_SAP_URL]: [SAP_URL],
+      [HEADER_SAP_CLIENT]: ['100'],
+      [HEADER_SAP_AUTH_TYPE]: ['jwt'],
+    });
+    expect(headersFromMcpMeta(undefined)).toEqual({});
+  });
+
+  it('should ignore keys that are not named like headers', () => {
+    const meta = { progressToken: 'token-1', name: 'client', version: '1.0.0', Authorization: 'Bearer abc', headers: { 'user-agent': 'cli' } };
+
+    expect(headersFromMcpMeta(meta)).toEqual({ authorization: ['Bearer abc'] });
+    expect(validateMcpMeta({ ...meta, [HEADER_MCP_DESTINATION]: 'S4H_100' }).warnings).toEqual([]);
+  });
+
+  it('should read initialize client info and _meta', () => {
+    expect(headersFromInitializeParams({
+      clientInfo: { name: 'client', version: '1.0.0', [HEADER_MCP_DESTINATION]: 'S4H_100' },
+      _meta: { [HEADER_MCP_DESTINATION]: 'S4H_200' },
+    })[HEADER_MCP_DESTINATION]).toEqual(['S4H_100', 'S4H_200']);
+  });
+
+  it('should map stdio environment variables', () => {
+    expect(headersFromStdioEnv({ SAP_URL: SAP_URL, SAP_USERNAME: 'DEVELOPER', MCP_DESTINATION: ' ', HOME: '/root' })).toEqual({
+      [HEADER_SAP_URL]: SAP_URL,
+      [HEADER_SAP_LOGIN]: 'DEVELOPER',
+    });
+  });
+});
+
+describe('validators', () => {
+  it('should apply the same rules as validateAuthHeaders to _meta', () => {
+    const meta = { [HEADER_MCP_DESTINATION]: 'S4H_100', [HEADER_SAP_AUTH_TYPE]: 'jwt', [HEADER_SAP_JWT_TOKEN]: JWT };
+    const result = validateMcpMeta(meta);
+
+    expect(result).toEqual(validateAuthHeaders(meta));
+    expect(result.config?.priority).toBe(AuthMethodPriority.MCP_DESTINATION);
+    expect(result.diagnostics.map(d => d.code)).toEqual([DiagnosticCode.HEADER_IGNORED, DiagnosticCode.HEADER_IGNORED]);
+  });
+
+  it('should report conflicting initialize client info and _meta', () => {
+    const result = validateInitializeParams({
+      clientInfo: { name: 'client', version: '1.0.0', [HEADER_MCP_DESTINATION]: 'S4H_100' },
+      _meta: { [HEADER_MCP_DESTINATION]: 'S4H_200' },
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.diagnostics[0].code).toBe(DiagnosticCode.HEADER_CONFLICT);
+  });
+
+  it('should validate stdio environment with options', () => {
+    const env = { SAP_URL: SAP_URL, SAP_AUTH_TYPE: 'basic', SAP_USERNAME: 'DEVELOPER', SAP_PASSWORD: 'secret' };
+
+    expect(validateStdioEnv(env).config).toEqual(expect.objectContaining({ priority: AuthMethodPriority.BASIC, username: 'DEVELOPER' }));
+    expect(validateStdioEnv(env, { methodOrder: [AuthMethodPriority.DIRECT_JWT] }).diagnostics[0])
+      .toEqual(expect.objectContaining({ code: DiagnosticCode.AUTH_METHOD_DISABLED }));
+    expect(validateStdioEnv({ SAP_URL: SAP_URL, SAP_AUTH_TYPE: 'basic' }).errors[0]).toContain(HEADER_SAP_PASSWORD);
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Unit tests for HTTP middleware
+ * Uses mocked request/response objects
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { IncomingHttpHeaders } from 'http';
+import {
+  HEADER_SAP_DESTINATION_SERVICE,
+  HEADER_SAP_URL,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_PASSWORD,
+  HEADER_MCP_URL,
+  AUTH_TYPE_JWT,
+  AUTH_TYPE_BASIC,
+} from '@mcp-abap-adt/interfaces';
+import {
+  createHeaderValidationMiddleware,
+  withHeaderValidation,
+  getRequestHeaderValidation,
+  getValidationHttpStatus,
+} from '../middleware';
+import { createHeaderValidator } from '../headerValidator';
+import { AuthMethodPriority } from '../types';
+import { DiagnosticCode, createError } from '../diagnostics';
+
+interface MockResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body?: string;
+  headersSent: boolean;
+  setHeader(name: string, value: string): void;
+  end(body?: string): void;
+}
+
+function createRequest(headers: IncomingHttpHeaders): IncomingMessage {
+  return { headers } as IncomingMessage;
+}
+
+function createResponse(): MockResponse {
+  return {
+    statusCode: 200,
+    headers: {},
+    headersSent: false,
+    setHeader(name, value) {
+      this.headers[name.toLowerCase()] = value;
+    },
+    end(body) {
+      this.body = body;
+      this.headersSent = true;
+    },
+  };
+}
+
+function run(headers: IncomingHttpHeaders, options = {}) {
+  const req = createRequest(headers);
+  const res = createResponse();
+  const next = jest.fn();
+  createHeaderValidationMiddleware(options)(req, res as unknown as ServerResponse, next);
+  return { req, res, next };
+}
+
+describe('createHeaderValidationMiddleware', () => {
+  it('should attach validation and call next for valid headers', () => {
+    const { req, res, next } = run({ [HEADER_SAP_DESTINATION_SERVICE]: 'S4HANA_E19' });
+    
+    expect(next).toHaveBeenCalledWith();
+    expect(res.body).toBeUndefined();
+    const validation = getRequestHeaderValidation(req);
+    expect(validation?.kind).toBe('mcp');
+    expect(validation?.auth?.config?.destination).toBe('S4HANA_E19');
+  });
+
+  it('should pass through requests without auth headers (.env fallback)', () => {
+    const { req, next } = run({});
+    
+    expect(next).toHaveBeenCalledWith();
+    expect(getRequestHeaderValidation(req)?.kind).toBe('env');
+  });
+
+  it('should reject requests without auth headers when .env fallback is disabled', () => {
+    const { res, next } = run({}, { allowEnvFallback: false });
+    
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+    expect(JSON.parse(res.body!).error).toBe('auth_headers_required');
+  });
+
+  it('should respond 400 with JSON body for invalid headers', () => {
+    const { res, next } = run({
+      [HEADER_SAP_URL]: 'not-a-valid-url',
+      [HEADER_SAP_AUTH_TYPE]: AUTH_TYPE_JWT,
+    });
+    
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(400);
+    expect(res.headers['content-type']).toContain('application/json');
+    const body = JSON.parse(res.body!);
+    expect(body.error).toBe('invalid_auth_headers');
+    expect(body.errors).toHaveLength(1);
+    expect(body.diagnostics[0].code).toBe(DiagnosticCode.SAP_URL_INVALID);
+  });
+
+  it('should respond 401 for rejected credentials', () => {
+    const { res } = run({
+      [HEADER_SAP_URL]: 'https://test.sap.com',
+      [HEADER_SAP_AUTH_TYPE]: AUTH_TYPE_JWT,
+      [HEADER_SAP_JWT_TOKEN]: 'not-a-jwt-token-at-all',
+    });
+    
+    expect(res.statusCode).toBe(401);
+  });
+
+  it('should use provided validator', () => {
+    const validator = createHeaderValidator({ methodOrder: [AuthMethodPriority.SAP_DESTINATION] });
+    
+    const { res } = run({
+      [HEADER_SAP_URL]: 'https://test.sap.com',
+      [HEADER_SAP_AUTH_TYPE]: AUTH_TYPE_BASIC,
+      [HEADER_SAP_LOGIN]: 'user',
+      [HEADER_SAP_PASSWORD]: 'pass',
+    }, { validator });
+    
+    expect(res.statusCode).toBe(401);
+    expect(JSON.parse(res.body!).diagnostics[0].code).toBe(DiagnosticCode.AUTH_METHOD_DISABLED);
+  });
+
+  it('should route proxy requests in auto mode', () => {
+    const { req, next } = run({ [HEADER_MCP_URL]: 'https://mcp.example.com' }, { mode: 'auto' });
+    
+    expect(next).toHaveBeenCalledWith();
+    const validation = getRequestHeaderValidation(req);
+    expect(validation?.kind).toBe('proxy');
+    expect(validation?.proxy?.hasMcpUrl).toBe(true);
+  });
+
+  it('should reject invalid proxy headers in auto mode', () => {
+    const { res } = run({ [HEADER_MCP_URL]: 'not-a-url' }, { mode: 'auto' });
+    
+    expect(res.statusCode).toBe(400);
+    expect(JSON.parse(res.body!).error).toBe('invalid_proxy_headers');
+  });
+
+  it('should check proxy x-mcp-url with validator URL policy', () => {
+    const validator = createHeaderValidator({ urlPolicy: {} });
+    
+    const { res } = run({ [HEADER_MCP_URL]: 'http://169.254.169.254' }, { mode: 'proxy', validator });
+    
+    expect(res.statusCode).toBe(400);
+    expect(JSON.parse(res.body!).diagnostics[0].code).toBe(DiagnosticCode.MCP_URL_NOT_ALLOWED);
+  });
+
+  it('should attach validation to custom request property', () => {
+    const { req } = run({ [HEADER_SAP_DESTINATION_SERVICE]: 'S4HANA_E19' }, { requestProperty: 'sapAuth' });
+    
+    expect(getRequestHeaderValidation(req, 'sapAuth')?.kind).toBe('mcp');
+    expect(getRequestHeaderValidation(req)).toBeUndefined();
+  });
+});
+
+describe('withHeaderValidation', () => {
+  it('should call listener for valid request', () => {
+    const listener = jest.fn();
+    const req = createRequest({ [HEADER_SAP_DESTINATION_SERVICE]: 'S4HANA_E19' });
+    
+    withHeaderValidation(listener)(req, createResponse() as unknown as ServerResponse);
+    
+    expect(listener).toHaveBeenCalledWith(req, expect.anything());
+  });
+
+  it('should not call listener for invalid request', () => {
+    const listener = jest.fn();
+    const res = createResponse();
+    
+    withHeaderValidation(listener)(createRequest({ [HEADER_SAP_DESTINATION_SERVICE]: '   ' }), res as unknown as ServerResponse);
+    
+    expect(listener).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('should respond 500 when listener throws synchronously', async () => {
+    const res = createResponse();
+    const handler = withHeaderValidation(() => {
+      throw new Error('listener failed');
+    });
+
+    expect(() => handler(createRequest({ [HEADER_SAP_DESTINATION_SERVICE]: 'S4HANA_E19' }), res as unknown as ServerResponse))
+      .not.toThrow();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(res.statusCode).toBe(500);
+    expect(res.headersSent).toBe(true);
+  });
+
+  it('should pass listener errors to onError', async () => {
+    const onError = jest.fn();
+    const error = new Error('listener failed');
+    const req = createRequest({ [HEADER_SAP_DESTINATION_SERVICE]: 'S4HANA_E19' });
+    const res = createResponse();
+
+    withHeaderValidation(async () => {
+      throw error;
+    }, { onError })(req, res as unknown as ServerResponse);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(onError).toHaveBeenCalledWith(error, req, res);
+  });
+
+  it('should respond 500 when onError throws', async () => {
+    const res = createResponse();
+    const onError = jest.fn(() => {
+      throw new Error('onError failed');
+    });
+
+    withHeaderValidation(() => {
+      throw new Error('listener failed');
+    }, { onError })(createRequest({ [HEADER_SAP_DESTINATION_SERVICE]: 'S4HANA_E19' }), res as unknown as ServerResponse);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(onError).toHaveBeenCalled();
+    expect(res.statusCode).toBe(500);
+    expect(res.headersSent).toBe(true);
+  });
+});
+
+describe('getValidationHttpStatus', () => {
+  it('should return 401 for credential errors and 400 otherwise', () => {
+    expect(getValidationHttpStatus([createError(DiagnosticCode.JWT_EXPIRED, 'expired')])).toBe(401);
+    expect(getValidationHttpStatus([createError(DiagnosticCode.SAP_URL_INVALID, 'invalid')])).toBe(400);
+  });
+});
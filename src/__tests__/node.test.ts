@@ -0,0 +1,45 @@
+/**
+ * Unit tests for package entry points
+ */
+
+const NODE_BUILTINS = ['fs', 'path', 'crypto', 'util'];
+
+describe('package entry points', () => {
+  afterEach(() => {
+    NODE_BUILTINS.forEach(builtin => jest.dontMock(builtin));
+    jest.resetModules();
+  });
+
+  it('should load root entry without Node.js built-ins', () => {
+    for (const builtin of NODE_BUILTINS) {
+      jest.doMock(builtin, () => {
+        throw new Error(`${builtin} must not be loaded by the package root`);
+      });
+    }
+
+    jest.isolateModules(() => {
+      const root = require('../index');
+      expect(root.validateAuthHeaders({ 'x-sap-destination': 'S4H_100' }).isValid).toBe(true);
+      expect(typeof root.createJwtKeySet).toBe('function');
+      expect(root.SUPPORTED_JWT_ALGORITHMS).toEqual(['RS256', 'ES256']);
+    });
+  });
+
+  it('should load node entry on first use of deprecated root exports', () => {
+    const root = require('../index');
+
+    expect(root.createJwtKeySet({ jwks: { keys: [] } }).keys).toEqual([]);
+    expect(root.X509_AUTH_METHOD.id).toBe('x509');
+    expect({ ...root.X509_AUTH_METHOD }.authTypes).toEqual(['x509']);
+    expect(root.createAuthMethodRegistry([root.X509_AUTH_METHOD]).get(root.EXTENDED_AUTH_METHOD_PRIORITY.X509)?.name)
+      .toBe('X.509 client certificate');
+  });
+
+  it('should export Node.js parts from node entry', () => {
+    const node = require('../node');
+
+    expect(typeof node.createJwtKeySet).toBe('function');
+    expect(typeof node.createDestinationResolver).toBe('function');
+    expect(node.X509_AUTH_METHOD.id).toBe('x509');
+  });
+});
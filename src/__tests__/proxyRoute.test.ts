@@ -0,0 +1,76 @@
+/**
+ * Unit tests for proxy route planning
+ */
+
+import { HEADER_BTP_DESTINATION, HEADER_MCP_DESTINATION, HEADER_MCP_URL } from '@mcp-abap-adt/interfaces';
+import { resolveProxyRoute } from '../proxyRoute';
+import { DiagnosticCode } from '../diagnostics';
+
+const MCP_URL = 'https://mcp.example.com/mcp';
+
+describe('resolveProxyRoute', () => {
+  it('should route x-mcp-url directly', () => {
+    const result = resolveProxyRoute({ [HEADER_MCP_URL]: MCP_URL });
+
+    expect(result.isValid).toBe(true);
+    expect(result.route).toEqual({ upstream: 'url', mcpUrl: MCP_URL });
+  });
+
+  it('should authorize x-mcp-url hop with BTP destination', () => {
+    const result = resolveProxyRoute({ [HEADER_MCP_URL]: MCP_URL, [HEADER_BTP_DESTINATION]: 'mcp-server' });
+
+    expect(result.route).toEqual({ upstream: 'url', mcpUrl: MCP_URL, btpDestination: 'mcp-server' });
+  });
+
+  it('should route SAP destination via BTP destination', () => {
+    const result = resolveProxyRoute({ [HEADER_BTP_DESTINATION]: 'mcp-server', [HEADER_MCP_DESTINATION]: 'S4H_100' });
+
+    expect(result.isValid).toBe(true);
+    expect(result.route).toEqual({ upstream: 'btp-destination', btpDestination: 'mcp-server', sapDestination: 'S4H_100' });
+  });
+
+  it('should reject x-mcp-url together with x-mcp-destination', () => {
+    const result = resolveProxyRoute({
+      [HEADER_MCP_URL]: MCP_URL,
+      [HEADER_MCP_DESTINATION]: 'S4H_100',
+      [HEADER_BTP_DESTINATION]: 'mcp-server',
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.route).toBeUndefined();
+    expect(result.diagnostics).toEqual([expect.objectContaining({
+      code: DiagnosticCode.PROXY_ROUTE_CONFLICT,
+      headers: [HEADER_MCP_URL, HEADER_MCP_DESTINATION],
+    })]);
+  });
+
+  it('should reject incomplete routes', () => {
+    const btpOnly = resolveProxyRoute({ [HEADER_BTP_DESTINATION]: 'mcp-server' });
+    expect(btpOnly.isValid).toBe(false);
+    expect(btpOnly.errors).toEqual([`${HEADER_BTP_DESTINATION} requires ${HEADER_MCP_URL} or ${HEADER_MCP_DESTINATION} as target`]);
+
+    const sapOnly = resolveProxyRoute({ [HEADER_MCP_DESTINATION]: 'S4H_100' });
+    expect(sapOnly.diagnostics[0].code).toBe(DiagnosticCode.PROXY_ROUTE_INCOMPLETE);
+    expect(sapOnly.errors[0]).toBe(`${HEADER_MCP_DESTINATION} requires ${HEADER_BTP_DESTINATION} to reach the MCP server`);
+  });
+
+  it('should include header validation errors', () => {
+    const result = resolveProxyRoute(
+      { [HEADER_MCP_URL]: 'http://10.0.0.1/mcp' },
+      { urlPolicy: { blockPrivateAddresses: true } }
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.validation.hasMcpUrl).toBe(true);
+    expect(result.diagnostics[0].code).toBe(DiagnosticCode.MCP_URL_NOT_ALLOWED);
+  });
+
+  it('should return no route without proxy headers', () => {
+    const result = resolveProxyRoute({});
+
+    expect(result.isValid).toBe(false);
+    expect(result.route).toBeUndefined();
+    expect(result.errors).toEqual([]);
+    expect(result.diagnostics[0].code).toBe(DiagnosticCode.PROXY_HEADERS_MISSING);
+  });
+});
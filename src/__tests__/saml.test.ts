@@ -0,0 +1,198 @@
+/**
+ * Unit tests for SAML bearer assertion authentication
+ */
+
+import { HEADER_SAP_URL, HEADER_SAP_AUTH_TYPE, HEADER_SAP_JWT_TOKEN } from '@mcp-abap-adt/interfaces';
+import { decodeSamlAssertion, validateSamlAssertion, HEADER_SAP_SAML_ASSERTION } from '../saml';
+import { EXTENDED_AUTH_METHOD_PRIORITY } from '../authMethods';
+import { validateAuthHeaders } from '../headerValidator';
+import { AuthMethodPriority } from '../types';
+import { describeAuthResult, redactAuthConfig } from '../redaction';
+import { DiagnosticCode } from '../diagnostics';
+
+interface AssertionTimes {
+  notBefore?: string;
+  notOnOrAfter?: string;
+  confirmationNotOnOrAfter?: string;
+}
+
+function assertionXml(times: AssertionTimes = {
+  notBefore: '2030-01-01T00:00:00Z',
+  notOnOrAfter: '2030-01-01T01:00:00Z',
+  confirmationNotOnOrAfter: '2030-01-01T00:05:00.000Z',
+}): string {
+  const attribute = (name: string, value?: string) => (value ? ` ${name}="${value}"` : '');
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<saml2:Assertion xmlns:saml2="urn:oasis:names:tc:SAML:2.0:assertion" ID="_a1b2c3" Version="2.0" IssueInstant="2030-01-01T00:00:00Z">',
+    '  <saml2:Issuer>https://idp.example.com</saml2:Issuer>',
+    '  <!-- ds:Signature omitted -->',
+    '  <saml2:Subject>',
+    '    <saml2:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">alice@example.com</saml2:NameID>',
+    '    <saml2:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer">',
+    `      <saml2:SubjectConfirmationData${attribute('NotOnOrAfter', times.confirmationNotOnOrAfter)} Recipient="https://sap.example.com/sap/bc/sec/oauth2/token"/>`,
+    '    </saml2:SubjectConfirmation>',
+    '  </saml2:Subject>',
+    `  <saml2:Conditions${attribute('NotBefore', times.notBefore)}${attribute('NotOnOrAfter', times.notOnOrAfter)}>`,
+    '    <saml2:AudienceRestriction><saml2:Audience>SAML2_ABC_100</saml2:Audience></saml2:AudienceRestriction>',
+    '  </saml2:Conditions>',
+    '</saml2:Assertion>',
+  ].join('\n');
+}
+
+function encode(xml: string): string {
+  return Buffer.from(xml, 'utf8').toString('base64');
+}
+
+const ASSERTION = encode(assertionXml());
+const ISSUED_AT = Date.parse('2030-01-01T00:00:00Z') / 1000;
+const VALID_NOW = () => Date.parse('2030-01-01T00:01:00Z');
+
+const SAP_URL = 'https://sap.example.com';
+
+describe('decodeSamlAssertion', () => {
+  it('should decode assertion fields', () => {
+    const { assertion, error } = decodeSamlAssertion(ASSERTION);
+
+    expect(error).toBeUndefined();
+    expect(assertion?.xml).toBe(assertionXml());
+    expect(assertion?.summary).toEqual({
+      id: '_a1b2c3',
+      issuer: 'https://idp.example.com',
+      subject: 'alice@example.com',
+      audience: ['SAML2_ABC_100'],
+      issuedAt: ISSUED_AT,
+      notBefore: ISSUED_AT,
+      expiresAt: ISSUED_AT + 5 * 60,
+    });
+  });
+
+  it('should decode base64url and default namespace', () => {
+    const xml = '<Assertion xmlns="urn:oasis:names:tc:SAML:2.0:assertion" ID="_1" Version="2.0" IssueInstant="2030-01-01T00:00:00Z">'
+      + '<Subject><NameID>B&amp;O &#x263A;</NameID></Subject></Assertion>';
+    const base64url = encode(xml).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+    const { assertion } = decodeSamlAssertion(base64url);
+    expect(assertion?.summary.subject).toBe('B&O ☺');
+    expect(assertion?.summary.expiresAt).toBeUndefined();
+  });
+
+  it('should reject values that are not SAML 2.0 assertions', () => {
+    const wrap = (xml: string) => decodeSamlAssertion(encode(xml)).error;
+
+    expect(decodeSamlAssertion('<saml2:Assertion/>').error).toBe('not base64 encoded');
+    expect(decodeSamlAssertion(Buffer.from([0xff, 0xfe, 0x3c]).toString('base64')).error).toBe('not base64 encoded UTF-8');
+    expect(wrap('<saml2:Assertion xmlns:saml2="urn:oasis:names:tc:SAML:2.0:assertion">'))
+      .toBe('XML is not well-formed: element <saml2:Assertion> is not closed');
+    expect(wrap('<!DOCTYPE lol [<!ENTITY lol "lol">]><Assertion>&lol;</Assertion>')).toBe('XML is not well-formed: DOCTYPE is not allowed');
+    expect(wrap('<a><b></a></b>')).toBe('XML is not well-formed: unexpected end tag </a>');
+    expect(wrap('<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol"/>'))
+      .toBe('root element must be a SAML 2.0 Assertion, got <samlp:Response>');
+    expect(wrap('<Assertion xmlns="urn:oasis:names:tc:SAML:1.0:assertion"/>'))
+      .toBe('root element must be a SAML 2.0 Assertion, got <Assertion>');
+    expect(wrap(assertionXml().replace('Version="2.0"', 'Version="1.1"'))).toBe('Assertion Version must be "2.0"');
+    expect(wrap(assertionXml().replace(' ID="_a1b2c3"', ''))).toBe('Assertion has no ID');
+    expect(wrap(assertionXml().replace('IssueInstant="2030-01-01T00:00:00Z"', 'IssueInstant="today"')))
+      .toBe('Assertion IssueInstant is missing or not a valid dateTime');
+    expect(wrap(assertionXml({ notOnOrAfter: '2030-01-01' }))).toBe('NotBefore / NotOnOrAfter is not a valid dateTime');
+  });
+
+  it('should reject deeply nested XML', () => {
+    const xml = `<Assertion xmlns="urn:oasis:names:tc:SAML:2.0:assertion">${'<a>'.repeat(100)}${'</a>'.repeat(100)}</Assertion>`;
+    expect(decodeSamlAssertion(encode(xml)).error).toBe('XML is not well-formed: elements are nested deeper than 64 levels');
+  });
+});
+
+describe('validateSamlAssertion', () => {
+  const { assertion } = decodeSamlAssertion(ASSERTION);
+
+  it('should accept assertion within validity window', () => {
+    expect(validateSamlAssertion(assertion!, { now: VALID_NOW }).diagnostics).toEqual([]);
+  });
+
+  it('should report expired and not yet valid assertions', () => {
+    const expired = validateSamlAssertion(assertion!, { now: () => Date.parse('2030-01-01T00:06:00Z') });
+    expect(expired.diagnostics[0]).toEqual(expect.objectContaining({
+      code: DiagnosticCode.SAML_ASSERTION_EXPIRED,
+      message: 'assertion expired at 2030-01-01T00:05:00.000Z',
+    }));
+
+    const early = validateSamlAssertion(assertion!, { now: () => Date.parse('2029-12-31T23:58:00Z') });
+    expect(early.diagnostics[0].code).toBe(DiagnosticCode.SAML_ASSERTION_NOT_YET_VALID);
+    expect(validateSamlAssertion(assertion!, { now: () => Date.parse('2029-12-31T23:59:30Z') }).diagnostics).toEqual([]);
+  });
+
+  it('should warn about assertion without NotOnOrAfter', () => {
+    const { assertion: unbounded } = decodeSamlAssertion(encode(assertionXml({})));
+    const result = validateSamlAssertion(unbounded!, { now: VALID_NOW });
+
+    expect(result.errors).toEqual([]);
+    expect(result.diagnostics[0].code).toBe(DiagnosticCode.SAML_ASSERTION_NO_EXPIRY);
+  });
+});
+
+describe('validateAuthHeaders with SAML assertion', () => {
+  const saml = { now: VALID_NOW };
+
+  it('should accept assertion', () => {
+    const result = validateAuthHeaders({
+      [HEADER_SAP_URL]: SAP_URL,
+      [HEADER_SAP_AUTH_TYPE]: 'SAML',
+      [HEADER_SAP_SAML_ASSERTION]: ASSERTION,
+    }, { saml });
+
+    expect(result.isValid).toBe(true);
+    expect(result.config).toEqual(expect.objectContaining({
+      priority: AuthMethodPriority.DIRECT_JWT,
+      rank: EXTENDED_AUTH_METHOD_PRIORITY.SAML,
+      authType: 'saml',
+      authMethod: 'saml',
+      samlAssertion: ASSERTION,
+    }));
+    expect(describeAuthResult(result)).toBe('valid: saml (saml) https://sap.example.com, SAML subject alice@example.com');
+    expect(redactAuthConfig(result.config!).samlAssertion).toContain('[REDACTED');
+  });
+
+  it('should reject malformed and expired assertions', () => {
+    const malformed = validateAuthHeaders({
+      [HEADER_SAP_URL]: SAP_URL,
+      [HEADER_SAP_AUTH_TYPE]: 'saml',
+      [HEADER_SAP_SAML_ASSERTION]: encode('<Assertion/>'),
+    });
+    expect(malformed.isValid).toBe(false);
+    expect(malformed.diagnostics[0].code).toBe(DiagnosticCode.SAML_ASSERTION_MALFORMED);
+
+    const expired = validateAuthHeaders({
+      [HEADER_SAP_URL]: SAP_URL,
+      [HEADER_SAP_AUTH_TYPE]: 'saml',
+      [HEADER_SAP_SAML_ASSERTION]: ASSERTION,
+    }, { saml: { now: () => Date.parse('2030-01-02T00:00:00Z') } });
+    expect(expired.isValid).toBe(false);
+    expect(expired.errors[0]).toBe(`${HEADER_SAP_SAML_ASSERTION} is rejected: assertion expired at 2030-01-01T00:05:00.000Z`);
+  });
+
+  it('should report missing assertion', () => {
+    const result = validateAuthHeaders({ [HEADER_SAP_URL]: SAP_URL, [HEADER_SAP_AUTH_TYPE]: 'saml' });
+
+    expect(result.isValid).toBe(false);
+    expect(result.diagnostics[0]).toEqual(expect.objectContaining({
+      code: DiagnosticCode.SAML_ASSERTION_MISSING,
+      message: `SAML authentication requires ${HEADER_SAP_SAML_ASSERTION} header`,
+    }));
+  });
+
+  it('should warn about credentials ignored in favour of assertion', () => {
+    const result = validateAuthHeaders({
+      [HEADER_SAP_URL]: SAP_URL,
+      [HEADER_SAP_AUTH_TYPE]: 'saml',
+      [HEADER_SAP_SAML_ASSERTION]: ASSERTION,
+      [HEADER_SAP_JWT_TOKEN]: 'eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiJ1c2VyIn0.signature',
+    }, { saml });
+
+    expect(result.isValid).toBe(true);
+    expect(result.diagnostics).toContainEqual(expect.objectContaining({
+      code: DiagnosticCode.AUTH_METHOD_CONFLICT,
+      message: `${HEADER_SAP_JWT_TOKEN} is ignored when ${HEADER_SAP_AUTH_TYPE} is "saml" (SAML assertion is used)`,
+    }));
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for auth config serialization
+ */
+
+import {
+  HEADER_SAP_URL,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_CLIENT,
+  HEADER_SAP_DESTINATION_SERVICE,
+  HEADER_MCP_DESTINATION,
+} from '@mcp-abap-adt/interfaces';
+import { serializeAuthConfig } from '../serialization';
+import { createAuthMethodRegistry, EXTENDED_AUTH_METHOD_PRIORITY } from '../authMethods';
+import { X509_AUTH_METHOD } from '../x509';
+import { validateAuthHeaders } from '../headerValidator';
+import { AuthMethodPriority, type AuthConfigInput } from '../types';
+import { JWT, SAP_URL, JWT_HEADERS } from './helpers/fixtures';
+
+/**
+ * Validate serialized headers and compare config fields
+ */
+function expectRoundTrip(config: AuthConfigInput): void {
+  const result = validateAuthHeaders(serializeAuthConfig(config));
+
+  expect(result.errors).toEqual([]);
+  expect(result.warnings).toEqual([]);
+  expect(result.config).toEqual(expect.objectContaining(
+    Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined))
+  ));
+}
+
+describe('serializeAuthConfig', () => {
+  it('should serialize basic config', () => {
+    const config: AuthConfigInput = {
+      priority: AuthMethodPriority.BASIC,
+      authType: 'basic',
+      sapUrl: SAP_URL,
+      sapClient: '100',
+      username: 'DEVELOPER',
+      password: 'secret',
+    };
+
+    expect(serializeAuthConfig(config)).toEqual({
+      [HEADER_SAP_URL]: SAP_URL,
+      [HEADER_SAP_AUTH_TYPE]: 'basic',
+      [HEADER_SAP_CLIENT]: '100',
+      'x-sap-login': 'DEVELOPER',
+      'x-sap-password': 'secret',
+    });
+    expectRoundTrip(config);
+  });
+
+  it('should round trip direct JWT with refresh token and UAA config', () => {
+    expectRoundTrip({
+      priority: AuthMethodPriority.DIRECT_JWT,
+      authType: 'xsuaa',
+      sapUrl: SAP_URL,
+      jwtToken: JWT,
+      refreshToken: 'refresh-token',
+      uaaUrl: 'https://uaa.example.com',
+      uaaClientId: 'client',
+      uaaClientSecret: 'client-secret',
+    });
+  });
+
+  it('should round trip destinations without x-sap-url', () => {
+    const sapDestination: AuthConfigInput = {
+      priority: AuthMethodPriority.SAP_DESTINATION,
+      authType: 'jwt',
+      sapUrl: '',
+      destination: 'S4H_100',
+      sapClient: '100',
+    };
+    expect(serializeAuthConfig(sapDestination)).toEqual({ [HEADER_SAP_DESTINATION_SERVICE]: 'S4H_100', [HEADER_SAP_CLIENT]: '100' });
+    expectRoundTrip(sapDestination);
+
+    const mcpDestination: AuthConfigInput = {
+      priority: AuthMethodPriority.MCP_DESTINATION,
+      authType: 'jwt',
+      sapUrl: '',
+      destination: 'S4H_100',
+    };
+    expect(serializeAuthConfig(mcpDestination)).toEqual({ [HEADER_MCP_DESTINATION]: 'S4H_100' });
+    expectRoundTrip(mcpDestination);
+  });
+
+  it('should use authMethod of validated config', () => {
+    const validated = validateAuthHeaders(JWT_HEADERS);
+
+    expect(serializeAuthConfig(validated.config!)).toEqual(JWT_HEADERS);
+  });
+
+  it('should reject configs that cannot be expressed as headers', () => {
+    expect(() => serializeAuthConfig({
+      priority: AuthMethodPriority.DIRECT_JWT,
+      authType: 'jwt',
+      sapUrl: SAP_URL,
+      jwtToken: JWT,
+      uaaUrl: 'https://uaa.example.com',
+    })).toThrow('Direct JWT config has incomplete UAA fields');
+    expect(() => serializeAuthConfig({ priority: AuthMethodPriority.BASIC, authType: 'basic', sapUrl: SAP_URL, username: 'DEVELOPER' }))
+      .toThrow('Basic config has no password');
+    expect(() => serializeAuthConfig({ priority: AuthMethodPriority.BASIC, authType: 'jwt', sapUrl: SAP_URL, username: 'DEVELOPER', password: 'secret' }))
+      .toThrow('Basic config has auth type "jwt", expected "basic"');
+    expect(() => serializeAuthConfig({ priority: AuthMethodPriority.NONE, authType: 'jwt', sapUrl: '' }))
+      .toThrow('Authentication method "NONE" is not registered');
+    expect(() => serializeAuthConfig(
+      { priority: AuthMethodPriority.DIRECT_JWT, rank: EXTENDED_AUTH_METHOD_PRIORITY.X509, authType: 'x509', sapUrl: SAP_URL },
+      { authMethods: createAuthMethodRegistry().register(X509_AUTH_METHOD) }
+    )).toThrow('Authentication method "x509" cannot be serialized into headers');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for unknown header detection
+ */
+
+import {
+  HEADER_SAP_URL,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_PASSWORD,
+  HEADER_SAP_DESTINATION_SERVICE,
+  HEADER_SAP_CLIENT,
+} from '@mcp-abap-adt/interfaces';
+import { checkUnknownHeaders, suggestHeader } from '../unknownHeaders';
+import { validateAuthHeaders } from '../headerValidator';
+import { createAuthMethodRegistry, BUILTIN_AUTH_METHODS } from '../authMethods';
+import { DiagnosticCode } from '../diagnostics';
+import type { HeaderValidationOptions } from '../types';
+import { JWT, SAP_URL, JWT_HEADERS } from './helpers/fixtures';
+
+describe('suggestHeader', () => {
+  it('should suggest intended headers for common mistakes', () => {
+    expect(suggestHeader('x-sap-authtype')).toBe(HEADER_SAP_AUTH_TYPE);
+    expect(suggestHeader('x-sap-destinaton')).toBe(HEADER_SAP_DESTINATION_SERVICE);
+    expect(suggestHeader('x-sap-jwt')).toBe(HEADER_SAP_JWT_TOKEN);
+    expect(suggestHeader('x-sap-user')).toBe(HEADER_SAP_LOGIN);
+    expect(suggestHeader('x-sap-pasword')).toBe(HEADER_SAP_PASSWORD);
+    expect(suggestHeader('x-sap-cleint')).toBe(HEADER_SAP_CLIENT);
+  });
+
+  it('should not suggest unrelated headers', () => {
+    expect(suggestHeader('x-sap-request-id')).toBeUndefined();
+  });
+});
+
+describe('checkUnknownHeaders', () => {
+  it('should report unknown headers with checked prefixes only', () => {
+    expect(checkUnknownHeaders({
+      [HEADER_SAP_URL]: SAP_URL,
+      'x-sap-user': 'DEVELOPER',
+      'x-mcp-trace-id': 'abc',
+      'x-request-id': 'abc',
+      'content-type': 'application/json',
+    })).toEqual([
+      {
+        code: DiagnosticCode.HEADER_UNKNOWN,
+        severity: 'warning',
+        headers: ['x-sap-user', HEADER_SAP_LOGIN],
+        message: `x-sap-user is not a known header (did you mean ${HEADER_SAP_LOGIN}?)`,
+      },
+      expect.objectContaining({ headers: ['x-mcp-trace-id'], message: 'x-mcp-trace-id is not a known header' }),
+    ]);
+  });
+});
+
+describe('validateAuthHeaders', () => {
+  it('should explain missing x-sap-auth-type caused by misspelling', () => {
+    const result = validateAuthHeaders({ [HEADER_SAP_URL]: SAP_URL, 'x-sap-authtype': 'jwt', [HEADER_SAP_JWT_TOKEN]: JWT });
+
+    expect(result.isValid).toBe(false);
+    expect(result.warnings).toEqual([`x-sap-authtype is not a known header (did you mean ${HEADER_SAP_AUTH_TYPE}?)`]);
+  });
+
+  it('should keep valid requests valid and fail them in strict mode', () => {
+    const headers = { ...JWT_HEADERS, 'x-sap-jwt': JWT };
+
+    expect(validateAuthHeaders(headers).isValid).toBe(true);
+    expect(validateAuthHeaders(headers).diagnostics[0].code).toBe(DiagnosticCode.HEADER_UNKNOWN);
+    expect(validateAuthHeaders(headers, { strict: true }).isValid).toBe(false);
+  });
+
+  it('should know headers of registered methods and knownHeaders option', () => {
+    const authMethods = createAuthMethodRegistry([
+      ...BUILTIN_AUTH_METHODS,
+      {
+        id: 'sap-api-key',
+        name: 'SAP API key',
+        priority: 0.5,
+        triggerHeaders: ['x-sap-api-key'],
+        validate: () => null,
+      },
+    ]);
+    const headers = { [HEADER_SAP_URL]: SAP_URL, 'x-sap-api-key': 'key', 'x-sap-request-id': '42' };
+
+    const unknownHeaders = (options: HeaderValidationOptions): string[] => validateAuthHeaders(headers, { authMethods, ...options }).diagnostics
+      .filter(d => d.code === DiagnosticCode.HEADER_UNKNOWN)
+      .map(d => d.headers[0]);
+
+    expect(unknownHeaders({})).toEqual(['x-sap-request-id']);
+    expect(unknownHeaders({ knownHeaders: ['x-sap-request-id'] })).toEqual([]);
+  });
+
+  it('should trace unknown headers in explain mode', () => {
+    const result = validateAuthHeaders({ 'x-sap-destinaton': 'S4H_100' }, { explain: true });
+
+    expect(result.trace![0]).toEqual(expect.objectContaining({ kind: 'check', subject: 'unknown headers', headers: ['x-sap-destinaton'] }));
+  });
+});
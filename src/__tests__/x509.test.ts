@@ -0,0 +1,199 @@
+/**
+ * Unit tests for X.509 client certificate authentication
+ */
+
+import {
+  HEADER_SAP_URL,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_PASSWORD,
+} from '@mcp-abap-adt/interfaces';
+import {
+  decodeClientCertificate,
+  validateClientCertificate,
+  summarizeClientCertificate,
+  HEADER_SAP_CLIENT_CERTIFICATE,
+  X509_AUTH_METHOD,
+} from '../x509';
+import { createAuthMethodRegistry, EXTENDED_AUTH_METHOD_PRIORITY } from '../authMethods';
+import { validateAuthHeaders } from '../headerValidator';
+import { describeAuthResult } from '../redaction';
+import { AuthMethodPriority } from '../types';
+import { DiagnosticCode } from '../diagnostics';
+
+// Self-signed EC certificate: O=Example Corp, CN=alice, serial 1A2B3C
+// Valid from 2026-10-19T19:18:30Z to 2036-10-16T19:18:30Z
+const CERTIFICATE_PEM = [
+  '-----BEGIN CERTIFICATE-----',
+  'MIIBkjCCATigAwIBAgIDGis8MAoGCCqGSM49BAMCMCcxFTATBgNVBAoMDEV4YW1w',
+  'bGUgQ29ycDEOMAwGA1UEAwwFYWxpY2UwHhcNMjYxMDE5MTkxODMwWhcNMzYxMDE2',
+  'MTkxODMwWjAnMRUwEwYDVQQKDAxFeGFtcGxlIENvcnAxDjAMBgNVBAMMBWFsaWNl',
+  'MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAE8usnysszcAGZ6ykbAVMGO916lj9A',
+  'hsYjVZ/MJB+6K27lRpW6n5p1WilyqJeB40f4w3ZzWS0HVVzqoXselQVDIqNTMFEw',
+  'HQYDVR0OBBYEFHl32vNV4kV3ExRmjEQIi3OFiR7qMB8GA1UdIwQYMBaAFHl32vNV',
+  '4kV3ExRmjEQIi3OFiR7qMA8GA1UdEwEB/wQFMAMBAf8wCgYIKoZIzj0EAwIDSAAw',
+  'RQIhAKEPrTHPsvtxWynlfGeowrKH71mwPKpFOEfjPAdm3gV/AiAp9jGQfQSue4Ch',
+  'v0RlXO9GpyGK85BBO/TQuhEEVBhMtQ==',
+  '-----END CERTIFICATE-----',
+].join('\n');
+
+const CERTIFICATE_DER_BASE64 = CERTIFICATE_PEM.split('\n').slice(1, -1).join('');
+
+const VALID_NOW = () => Date.parse('2030-01-01T00:00:00Z');
+
+const SAP_URL = 'https://sap.example.com';
+
+function x509Headers(extra: Record<string, string> = {}): Record<string, string> {
+  return {
+    [HEADER_SAP_URL]: SAP_URL,
+    [HEADER_SAP_AUTH_TYPE]: 'x509',
+    [HEADER_SAP_CLIENT_CERTIFICATE]: encodeURIComponent(CERTIFICATE_PEM),
+    ...extra,
+  };
+}
+
+describe('decodeClientCertificate', () => {
+  it('should decode PEM, URL-encoded PEM and base64 DER', () => {
+    for (const value of [
+      CERTIFICATE_PEM,
+      encodeURIComponent(CERTIFICATE_PEM),
+      CERTIFICATE_PEM.replace(/\n/g, ' '),
+      CERTIFICATE_DER_BASE64,
+    ]) {
+      const result = decodeClientCertificate(value);
+      expect(result.error).toBeUndefined();
+      expect(result.certificate?.serialNumber).toBe('1A2B3C');
+    }
+  });
+
+  it('should reject values that are not certificates', () => {
+    expect(decodeClientCertificate('not a certificate!').error).toBe('not a PEM or base64 DER certificate');
+    expect(decodeClientCertificate('-----BEGIN CERTIFICATE-----\nMIIB').error).toBe('PEM block is incomplete or not a certificate');
+    expect(decodeClientCertificate('%E0%A4%A').error).toBe('URL encoding is invalid');
+    expect(decodeClientCertificate('QUJDRA==').error).toBe('cannot be parsed as X.509 certificate');
+  });
+});
+
+describe('validateClientCertificate', () => {
+  const certificate = decodeClientCertificate(CERTIFICATE_PEM).certificate!;
+
+  it('should accept certificate within validity dates', () => {
+    expect(validateClientCertificate(certificate, { now: VALID_NOW }).diagnostics).toEqual([]);
+  });
+
+  it('should reject expired and not yet valid certificates', () => {
+    const expired = validateClientCertificate(certificate, { now: () => Date.parse('2037-01-01T00:00:00Z') });
+    expect(expired.diagnostics[0].code).toBe(DiagnosticCode.X509_CERTIFICATE_EXPIRED);
+    expect(expired.errors[0]).toBe('certificate expired at 2036-10-16T19:18:30.000Z');
+
+    const early = validateClientCertificate(certificate, { now: () => Date.parse('2026-01-01T00:00:00Z') });
+    expect(early.diagnostics[0].code).toBe(DiagnosticCode.X509_CERTIFICATE_NOT_YET_VALID);
+  });
+
+  it('should check issuer and subject restrictions', () => {
+    expect(validateClientCertificate(certificate, {
+      now: VALID_NOW,
+      allowedIssuers: ['o=example corp, cn=alice'],
+      allowedSubjects: [/CN=alice$/],
+    }).diagnostics).toEqual([]);
+
+    const result = validateClientCertificate(certificate, {
+      now: VALID_NOW,
+      allowedIssuers: ['O=Other CA'],
+      allowedSubjects: [/CN=bob$/],
+    });
+    expect(result.diagnostics.map(d => d.code)).toEqual([
+      DiagnosticCode.X509_ISSUER_NOT_ALLOWED,
+      DiagnosticCode.X509_SUBJECT_NOT_ALLOWED,
+    ]);
+    expect(result.errors[0]).toBe('certificate issuer "O=Example Corp, CN=alice" is not allowed');
+  });
+});
+
+describe('summarizeClientCertificate', () => {
+  it('should extract subject, serial and fingerprint', () => {
+    const summary = summarizeClientCertificate(decodeClientCertificate(CERTIFICATE_PEM).certificate!);
+    expect(summary).toEqual({
+      subject: 'O=Example Corp, CN=alice',
+      issuer: 'O=Example Corp, CN=alice',
+      serialNumber: '1A2B3C',
+      fingerprint256: '7F:B4:44:9D:A3:E6:AC:52:B5:EF:56:17:50:A2:E6:43:04:FF:0C:C2:43:25:4D:99:20:AC:36:C1:85:FC:8D:45',
+      notBefore: Date.parse('2026-10-19T19:18:30Z') / 1000,
+      expiresAt: Date.parse('2036-10-16T19:18:30Z') / 1000,
+    });
+  });
+});
+
+describe('validateAuthHeaders with X.509 auth', () => {
+  const authMethods = createAuthMethodRegistry().register(X509_AUTH_METHOD);
+  const options = { authMethods, clientCertificate: { now: VALID_NOW } };
+
+  it('should not accept x509 unless the method is registered', () => {
+    const result = validateAuthHeaders(x509Headers());
+    expect(result.isValid).toBe(false);
+    expect(result.diagnostics[0].code).toBe(DiagnosticCode.AUTH_TYPE_INVALID);
+  });
+
+  it('should validate forwarded certificate', () => {
+    const result = validateAuthHeaders(x509Headers(), options);
+
+    expect(result.isValid).toBe(true);
+    expect(result.config?.authType).toBe('x509');
+    expect(result.config?.authMethod).toBe('x509');
+    expect(result.config?.priority).toBe(AuthMethodPriority.DIRECT_JWT);
+    expect(result.config?.rank).toBe(EXTENDED_AUTH_METHOD_PRIORITY.X509);
+    expect(result.config?.clientCertificate?.subject).toBe('O=Example Corp, CN=alice');
+    expect(describeAuthResult(result)).toBe(
+      `valid: x509 (x509) ${SAP_URL}, certificate O=Example Corp, CN=alice (serial 1A2B3C)`
+    );
+  });
+
+  it('should reject expired or malformed certificates', () => {
+    const expired = validateAuthHeaders(x509Headers(), {
+      authMethods,
+      clientCertificate: { now: () => Date.parse('2040-01-01T00:00:00Z') },
+    });
+    expect(expired.isValid).toBe(false);
+    expect(expired.errors[0]).toMatch(/^x-sap-client-cert is rejected: certificate expired at/);
+
+    const malformed = validateAuthHeaders(x509Headers({ [HEADER_SAP_CLIENT_CERTIFICATE]: 'garbage' }), options);
+    expect(malformed.diagnostics[0].code).toBe(DiagnosticCode.X509_CERTIFICATE_MALFORMED);
+  });
+
+  it('should require certificate header', () => {
+    const headers = x509Headers();
+    delete headers[HEADER_SAP_CLIENT_CERTIFICATE];
+    const result = validateAuthHeaders(headers, options);
+
+    expect(result.isValid).toBe(false);
+    expect(result.diagnostics[0].code).toBe(DiagnosticCode.X509_CERTIFICATE_MISSING);
+  });
+
+  it('should warn when certificate is combined with JWT or basic credentials', () => {
+    const withJwt = validateAuthHeaders(x509Headers({ [HEADER_SAP_JWT_TOKEN]: 'eyJhbGciOiJIUzI1NiJ9.e30.sig' }), options);
+    expect(withJwt.isValid).toBe(true);
+    expect(withJwt.diagnostics).toContainEqual(expect.objectContaining({
+      code: DiagnosticCode.AUTH_METHOD_CONFLICT,
+      message: `${HEADER_SAP_JWT_TOKEN} is ignored when ${HEADER_SAP_AUTH_TYPE} is "x509" (client certificate is used)`,
+    }));
+
+    const withBasic = validateAuthHeaders({
+      [HEADER_SAP_URL]: SAP_URL,
+      [HEADER_SAP_AUTH_TYPE]: 'basic',
+      [HEADER_SAP_LOGIN]: 'user',
+      [HEADER_SAP_PASSWORD]: 'secret',
+      [HEADER_SAP_CLIENT_CERTIFICATE]: CERTIFICATE_PEM,
+    }, options);
+    expect(withBasic.config?.authType).toBe('basic');
+    expect(withBasic.diagnostics).toContainEqual(expect.objectContaining({
+      code: DiagnosticCode.AUTH_METHOD_CONFLICT,
+      headers: [HEADER_SAP_CLIENT_CERTIFICATE, HEADER_SAP_AUTH_TYPE],
+    }));
+  });
+
+  it('should be disabled by method order', () => {
+    const result = validateAuthHeaders(x509Headers(), { ...options, methodOrder: [AuthMethodPriority.DIRECT_JWT] });
+    expect(result.diagnostics[0].code).toBe(DiagnosticCode.AUTH_METHOD_DISABLED);
+  });
+});
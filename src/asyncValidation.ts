@@ -0,0 +1,316 @@
+/**
+ * Async validation with pluggable resolvers
+ *
+ * validateAuthHeaders is synchronous and purely syntactic. validateAuthHeadersAsync
+ * runs the same rules and then calls async resolvers for deployment-specific checks
+ * (destination existence, token introspection, user/tenant allowlist, revocation list).
+ *
+ * - Resolvers run only when synchronous validation is valid, concurrently, with a
+ *   timeout each; their diagnostics are merged into errors/warnings in resolver order
+ * - Resolver timeouts and exceptions are RESOLVER_TIMEOUT / RESOLVER_FAILED errors
+ *   (fail closed), or warnings with `failureSeverity: 'warning'`
+ * - Aborting `signal` aborts running resolvers and rejects with the abort reason
+ */
+
+import {
+  HEADER_SAP_DESTINATION_SERVICE,
+  HEADER_MCP_DESTINATION,
+  HEADER_SAP_JWT_TOKEN,
+} from '@mcp-abap-adt/interfaces';
+import type { AuthTraceStep, HeaderValidationOptions, HeaderValidationResult, ValidatedAuthConfig } from './types';
+import { normalizeHeaders, type HeaderSource, type NormalizedHeaders } from './headerSource';
+import { validateAuthHeaders } from './headerValidator';
+import { sanitizeHeaderValue } from './redaction';
+import {
+  DiagnosticCode,
+  createError,
+  createWarning,
+  toDiagnosticSet,
+  type DiagnosticSeverity,
+  type ValidationDiagnostic,
+} from './diagnostics';
+
+/**
+ * Default timeout of each resolver
+ */
+export const DEFAULT_RESOLVER_TIMEOUT_MS = 5000;
+
+/**
+ * Input of resolver
+ */
+export interface AuthResolverContext {
+  /** Config selected by synchronous validation */
+  config: ValidatedAuthConfig;
+  /** Normalized request headers */
+  headers: NormalizedHeaders;
+  options: HeaderValidationOptions;
+  /** Aborted on timeout or when the caller aborts - pass to fetch and other async calls */
+  signal: AbortSignal;
+}
+
+/**
+ * Async check of validated config
+ */
+export interface AuthResolver {
+  /** Name used in diagnostics and trace */
+  name: string;
+  /** Method IDs the resolver applies to (default: all, see AuthMethodPlugin.id) */
+  methods?: readonly string[];
+  /** Timeout in milliseconds (default: AsyncHeaderValidationOptions.resolverTimeoutMs) */
+  timeoutMs?: number;
+  /** Severity of timeout and exceptions (default: 'error' - fail closed) */
+  failureSeverity?: DiagnosticSeverity;
+  /** Check config; returned diagnostics are merged into the result */
+  resolve(context: AuthResolverContext): Promise<ValidationDiagnostic[] | void>;
+}
+
+export interface AsyncHeaderValidationOptions extends HeaderValidationOptions {
+  /** Resolvers run after synchronous validation */
+  resolvers?: readonly AuthResolver[];
+  /** Default resolver timeout in milliseconds (default: DEFAULT_RESOLVER_TIMEOUT_MS) */
+  resolverTimeoutMs?: number;
+  /** Cancels validation; the returned promise rejects with the abort reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * User and tenant of validated config (for allowlist lookups)
+ */
+export interface AuthIdentity {
+  /** JWT user name or subject (verified signature only), basic auth login, or certificate subject */
+  user?: string;
+  /** JWT zone (tenant) ID (verified signature only) */
+  tenant?: string;
+  sapUrl: string;
+  sapClient?: string;
+}
+
+/**
+ * Run one resolver with timeout and cancellation
+ */
+async function runResolver(
+  resolver: AuthResolver,
+  context: Omit<AuthResolverContext, 'signal'>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<{ diagnostics: ValidationDiagnostic[]; failed: boolean }> {
+  const controller = new AbortController();
+  let rejectAborted: (reason: unknown) => void = () => undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    rejectAborted = reject;
+  });
+  aborted.catch(() => undefined);
+  const onAbort = () => {
+    controller.abort(signal?.reason);
+    rejectAborted(signal?.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<'timeout'>(resolve => {
+    timer = setTimeout(() => resolve('timeout'), timeoutMs);
+  });
+
+  const failure = (code: DiagnosticCode, message: string) => {
+    const create = resolver.failureSeverity === 'warning' ? createWarning : createError;
+    return { diagnostics: [create(code, message)], failed: true };
+  };
+
+  try {
+    const outcome = await Promise.race([
+      Promise.resolve().then(() => {
+        controller.signal.throwIfAborted();
+        return resolver.resolve({ ...context, signal: controller.signal });
+      }),
+      timeout,
+      aborted,
+    ]);
+    if (outcome === 'timeout') {
+      controller.abort(new Error(`${resolver.name} resolver timed out`));
+      return failure(DiagnosticCode.RESOLVER_TIMEOUT, `${resolver.name} resolver timed out after ${timeoutMs} ms`);
+    }
+    const diagnostics = outcome ?? [];
+    return { diagnostics, failed: diagnostics.some(d => d.severity === 'error') };
+  } catch (error) {
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return failure(DiagnosticCode.RESOLVER_FAILED, `${resolver.name} resolver failed: ${sanitizeHeaderValue(message)}`);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Validate authentication headers, then run async resolvers
+ *
+ * @example
+ * const result = await validateAuthHeadersAsync(req.headers, {
+ *   resolvers: [createTokenIntrospectionResolver(introspect)],
+ *   resolverTimeoutMs: 2000,
+ *   signal: AbortSignal.timeout(5000),
+ * });
+ *
+ * @param headers HTTP headers
+ * @param options Validation options, resolvers, timeout and abort signal
+ * @returns Validation result with resolver diagnostics merged
+ */
+export async function validateAuthHeadersAsync(
+  headers?: HeaderSource,
+  options: AsyncHeaderValidationOptions = {}
+): Promise<HeaderValidationResult> {
+  const { resolvers = [], resolverTimeoutMs = DEFAULT_RESOLVER_TIMEOUT_MS, signal, ...validationOptions } = options;
+  signal?.throwIfAborted();
+
+  const result = validateAuthHeaders(headers, validationOptions);
+  const config = result.config;
+  if (!result.isValid || !config) {
+    return result;
+  }
+
+  const applicable = resolvers.filter(resolver =>
+    !resolver.methods || (config.authMethod !== undefined && resolver.methods.includes(config.authMethod)));
+  if (applicable.length === 0) {
+    return result;
+  }
+
+  const context = { config, headers: headers ? normalizeHeaders(headers) : {}, options: validationOptions };
+  const outcomes = await Promise.all(applicable.map(resolver =>
+    runResolver(resolver, context, resolver.timeoutMs ?? resolverTimeoutMs, signal)));
+
+  let diagnostics = outcomes.flatMap(outcome => outcome.diagnostics);
+  if (validationOptions.strict) {
+    diagnostics = diagnostics.map(d => d.severity === 'warning' ? { ...d, severity: 'error' as const } : d);
+  }
+  const diagnosticSet = toDiagnosticSet([...result.diagnostics, ...diagnostics]);
+  const isValid = diagnosticSet.errors.length === 0;
+
+  let trace = result.trace;
+  if (trace) {
+    const steps: AuthTraceStep[] = applicable.map((resolver, index) => ({
+      kind: 'resolver',
+      subject: resolver.name,
+      headers: [],
+      outcome: outcomes[index].failed ? 'failed' : 'passed',
+      reason: outcomes[index].diagnostics.map(d => d.message).join('; ') || 'no findings',
+    }));
+    const count = diagnosticSet.errors.length;
+    const resultStep: AuthTraceStep = isValid
+      ? trace[trace.length - 1]
+      : { kind: 'result', subject: 'result', headers: [], outcome: 'invalid', reason: `${count} error${count === 1 ? '' : 's'}` };
+    trace = [...trace.slice(0, -1), ...steps, resultStep];
+  }
+
+  return {
+    ...result,
+    isValid,
+    ...diagnosticSet,
+    ...(trace && { trace }),
+  };
+}
+
+/**
+ * Destination existence check (SAP and MCP destinations)
+ *
+ * @param exists Whether destination exists, e.g. BTP Destination service lookup
+ * @returns Resolver reporting DESTINATION_NOT_FOUND
+ */
+export function createDestinationCheckResolver(
+  exists: (destination: string, context: AuthResolverContext) => Promise<boolean>
+): AuthResolver {
+  return {
+    name: 'destination check',
+    methods: ['sap-destination', 'mcp-destination'],
+    async resolve(context) {
+      const { config } = context;
+      if (!config.destination || await exists(config.destination, context)) {
+        return [];
+      }
+      const header = config.authMethod === 'sap-destination' ? HEADER_SAP_DESTINATION_SERVICE : HEADER_MCP_DESTINATION;
+      return [createError(
+        DiagnosticCode.DESTINATION_NOT_FOUND,
+        `${header} "${sanitizeHeaderValue(config.destination)}" does not exist`,
+        [header]
+      )];
+    },
+  };
+}
+
+/**
+ * Token introspection (RFC 7662 or equivalent) of x-sap-jwt-token
+ *
+ * @param introspect Introspect token; `active: false` rejects the request
+ * @returns Resolver reporting TOKEN_INACTIVE
+ */
+export function createTokenIntrospectionResolver(
+  introspect: (token: string, context: AuthResolverContext) => Promise<{ active: boolean }>
+): AuthResolver {
+  return {
+    name: 'token introspection',
+    async resolve(context) {
+      const token = context.config.jwtToken;
+      if (!token || (await introspect(token, context)).active) {
+        return [];
+      }
+      return [createError(DiagnosticCode.TOKEN_INACTIVE, `${HEADER_SAP_JWT_TOKEN} is not active`, [HEADER_SAP_JWT_TOKEN])];
+    },
+  };
+}
+
+/**
+ * Revocation list check of x-sap-jwt-token
+ *
+ * @param isRevoked Whether token is revoked (look up by token, jti or hash)
+ * @returns Resolver reporting TOKEN_REVOKED
+ */
+export function createRevocationResolver(
+  isRevoked: (token: string, context: AuthResolverContext) => Promise<boolean>
+): AuthResolver {
+  return {
+    name: 'revocation list',
+    async resolve(context) {
+      const token = context.config.jwtToken;
+      if (!token || !(await isRevoked(token, context))) {
+        return [];
+      }
+      return [createError(DiagnosticCode.TOKEN_REVOKED, `${HEADER_SAP_JWT_TOKEN} is revoked`, [HEADER_SAP_JWT_TOKEN])];
+    },
+  };
+}
+
+/**
+ * User and tenant of config
+ * JWT claims are used only when the signature was verified (options.jwt.keySet) -
+ * claims of an unverified token are chosen by the client and must not pass an allowlist
+ */
+export function getAuthIdentity(config: ValidatedAuthConfig): AuthIdentity {
+  const claims = config.jwtSignature?.verified === true ? config.jwtClaims : undefined;
+  return {
+    user: claims?.userName ?? claims?.subject ?? config.username ?? config.clientCertificate?.subject,
+    tenant: claims?.zoneId,
+    sapUrl: config.sapUrl,
+    sapClient: config.sapClient,
+  };
+}
+
+/**
+ * User/tenant allowlist lookup
+ *
+ * @param isAllowed Whether identity may use the server
+ * @returns Resolver reporting IDENTITY_NOT_ALLOWED
+ */
+export function createAllowlistResolver(
+  isAllowed: (identity: AuthIdentity, context: AuthResolverContext) => Promise<boolean>
+): AuthResolver {
+  return {
+    name: 'allowlist',
+    async resolve(context) {
+      if (await isAllowed(getAuthIdentity(context.config), context)) {
+        return [];
+      }
+      return [createError(DiagnosticCode.IDENTITY_NOT_ALLOWED, 'user or tenant is not allowed')];
+    },
+  };
+}
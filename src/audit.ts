@@ -0,0 +1,399 @@
+/**
+ * Batch audit of captured traffic
+ *
+ * Runs the validator over captured requests (HAR files, newline-delimited JSON
+ * gateway logs) and aggregates:
+ * - Request kinds (MCP / proxy / .env fallback) and auth methods per client
+ * - How often each diagnostic fires (code + involved headers)
+ * - Requests that are valid today but fail under stricter options
+ * - Clients that still send deprecated headers
+ *
+ * Reports contain diagnostic messages and header names only, never header values.
+ */
+
+import {
+  HEADER_SAP_UAA_URL,
+  HEADER_UAA_URL,
+  HEADER_SAP_UAA_CLIENT_ID,
+  HEADER_UAA_CLIENT_ID,
+  HEADER_SAP_UAA_CLIENT_SECRET,
+  HEADER_UAA_CLIENT_SECRET,
+} from '@mcp-abap-adt/interfaces';
+import type { HeaderValidationOptions } from './types';
+import type { RequestHeaderKind } from './middleware';
+import type { DiagnosticSeverity, ValidationDiagnostic } from './diagnostics';
+import { getHeaderValue, normalizeHeaders, type HeaderRecord, type HeaderSource } from './headerSource';
+import {
+  createHeaderValidator,
+  validateProxyHeaders,
+  isProxyRequest,
+  isMcpServerRequest,
+} from './headerValidator';
+import { sanitizeHeaderValue } from './redaction';
+
+/**
+ * Deprecated header names and their replacements
+ */
+export const DEPRECATED_HEADERS: Readonly<Record<string, string>> = {
+  [HEADER_UAA_URL]: HEADER_SAP_UAA_URL,
+  [HEADER_UAA_CLIENT_ID]: HEADER_SAP_UAA_CLIENT_ID,
+  [HEADER_UAA_CLIENT_SECRET]: HEADER_SAP_UAA_CLIENT_SECRET,
+};
+
+/**
+ * Default number of example requests kept per report list
+ */
+export const DEFAULT_AUDIT_MAX_EXAMPLES = 20;
+
+/**
+ * Captured request
+ */
+export interface AuditRecord {
+  /** Request identifier for examples (e.g. "POST /mcp" or gateway request ID) */
+  id?: string;
+  /** Client identifier (default: user-agent header) */
+  client?: string;
+  headers: HeaderSource;
+}
+
+/**
+ * Records read from capture file, with entries that could not be read
+ */
+export interface AuditInput {
+  records: AuditRecord[];
+  errors: string[];
+}
+
+export interface AuditOptions {
+  /** Options the requests are validated with today */
+  validation?: HeaderValidationOptions;
+  /** Stricter options to compare against (default: validation options with strict: true) */
+  strictValidation?: HeaderValidationOptions;
+  /** Deprecated header names and replacements (default: DEPRECATED_HEADERS) */
+  deprecatedHeaders?: Readonly<Record<string, string>>;
+  /** Client identifier of a record (default: record.client, user-agent header or "unknown") */
+  clientOf?: (record: AuditRecord) => string;
+  /** Example requests kept for strict failures (default: 20) */
+  maxExamples?: number;
+}
+
+/**
+ * How often a diagnostic fired
+ */
+export interface AuditDiagnosticStat {
+  code: ValidationDiagnostic['code'];
+  severity: DiagnosticSeverity;
+  headers: string[];
+  /** Message of first occurrence */
+  message: string;
+  count: number;
+  clients: string[];
+}
+
+/**
+ * Request that is valid under current options but not under strict options
+ */
+export interface AuditStrictFailure {
+  id?: string;
+  client: string;
+  errors: string[];
+}
+
+export interface AuditDeprecatedHeaderStat {
+  header: string;
+  replacement: string;
+  count: number;
+  clients: string[];
+}
+
+export interface AuditClientStat {
+  client: string;
+  requests: number;
+  invalid: number;
+  /** Request count by auth method ID */
+  authMethods: Record<string, number>;
+}
+
+export interface AuditReport {
+  total: number;
+  valid: number;
+  invalid: number;
+  kinds: Record<RequestHeaderKind, number>;
+  /** Request count by auth method ID */
+  authMethods: Record<string, number>;
+  /** Diagnostics by frequency, most frequent first */
+  diagnostics: AuditDiagnosticStat[];
+  /** Requests that would fail under strict options (total count) */
+  strictFailureCount: number;
+  /** Examples of strict failures (up to maxExamples) */
+  strictFailures: AuditStrictFailure[];
+  deprecatedHeaders: AuditDeprecatedHeaderStat[];
+  clients: AuditClientStat[];
+}
+
+/**
+ * Incremental audit for large captures
+ */
+export interface TrafficAudit {
+  add(record: AuditRecord): void;
+  report(): AuditReport;
+}
+
+interface RequestOutcome {
+  kind: RequestHeaderKind;
+  isValid: boolean;
+  authMethod?: string;
+  diagnostics: ValidationDiagnostic[];
+}
+
+function increment(counts: Record<string, number>, key: string): void {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+function addClient(clients: string[], client: string): void {
+  if (!clients.includes(client)) {
+    clients.push(client);
+  }
+}
+
+/**
+ * Create incremental traffic audit
+ *
+ * @example
+ * const audit = createTrafficAudit({ validation: { requireSapClient: true } });
+ * for await (const line of lines) {
+ *   audit.add(JSON.parse(line));
+ * }
+ * console.log(audit.report());
+ *
+ * @param options Audit options
+ * @returns Audit accumulating records
+ */
+export function createTrafficAudit(options: AuditOptions = {}): TrafficAudit {
+  const validator = createHeaderValidator(options.validation ?? {});
+  const strictValidator = createHeaderValidator(options.strictValidation ?? { ...options.validation, strict: true });
+  const deprecatedHeaders = options.deprecatedHeaders ?? DEPRECATED_HEADERS;
+  const maxExamples = options.maxExamples ?? DEFAULT_AUDIT_MAX_EXAMPLES;
+  const clientOf = options.clientOf
+    ?? ((record: AuditRecord) => record.client ?? getHeaderValue(normalizeHeaders(record.headers), 'user-agent') ?? 'unknown');
+
+  const report: AuditReport = {
+    total: 0,
+    valid: 0,
+    invalid: 0,
+    kinds: { mcp: 0, proxy: 0, env: 0 },
+    authMethods: {},
+    diagnostics: [],
+    strictFailureCount: 0,
+    strictFailures: [],
+    deprecatedHeaders: [],
+    clients: [],
+  };
+  const diagnosticStats = new Map<string, AuditDiagnosticStat>();
+  const deprecatedStats = new Map<string, AuditDeprecatedHeaderStat>();
+  const clientStats = new Map<string, AuditClientStat>();
+
+  const evaluate = (headers: HeaderSource, strict: boolean): RequestOutcome => {
+    const validation = strict ? strictValidator.options : validator.options;
+    // Same classification as the CLI: x-mcp-destination alone is an MCP server request
+    if (isProxyRequest(headers) && !isMcpServerRequest(headers)) {
+      const result = validateProxyHeaders(headers, { urlPolicy: validation.urlPolicy });
+      return { kind: 'proxy', isValid: result.isValid, diagnostics: result.diagnostics };
+    }
+    const result = (strict ? strictValidator : validator).validateAuthHeaders(headers);
+    return {
+      kind: result.config || result.diagnostics.length > 0 ? 'mcp' : 'env',
+      // No auth headers: server falls back to .env, not a failure
+      isValid: result.isValid || (!result.config && result.diagnostics.length === 0),
+      authMethod: result.config ? result.config.authMethod ?? String(result.config.priority) : undefined,
+      diagnostics: result.diagnostics,
+    };
+  };
+
+  const add = (record: AuditRecord): void => {
+    const client = clientOf(record);
+    const outcome = evaluate(record.headers, false);
+
+    report.total++;
+    report[outcome.isValid ? 'valid' : 'invalid']++;
+    report.kinds[outcome.kind]++;
+
+    let clientStat = clientStats.get(client);
+    if (!clientStat) {
+      clientStat = { client, requests: 0, invalid: 0, authMethods: {} };
+      clientStats.set(client, clientStat);
+    }
+    clientStat.requests++;
+    if (!outcome.isValid) {
+      clientStat.invalid++;
+    }
+    if (outcome.authMethod) {
+      increment(report.authMethods, outcome.authMethod);
+      increment(clientStat.authMethods, outcome.authMethod);
+    }
+
+    for (const diagnostic of outcome.diagnostics) {
+      const key = `${diagnostic.code}:${diagnostic.headers.join(',')}`;
+      let stat = diagnosticStats.get(key);
+      if (!stat) {
+        stat = { ...diagnostic, headers: [...diagnostic.headers], count: 0, clients: [] };
+        diagnosticStats.set(key, stat);
+      }
+      stat.count++;
+      addClient(stat.clients, client);
+    }
+
+    if (outcome.isValid) {
+      const strictOutcome = evaluate(record.headers, true);
+      if (!strictOutcome.isValid) {
+        report.strictFailureCount++;
+        if (report.strictFailures.length < maxExamples) {
+          report.strictFailures.push({
+            id: record.id,
+            client,
+            errors: strictOutcome.diagnostics.filter(d => d.severity === 'error').map(d => d.message),
+          });
+        }
+      }
+    }
+
+    const normalized = normalizeHeaders(record.headers);
+    for (const [header, replacement] of Object.entries(deprecatedHeaders)) {
+      if (normalized[header.toLowerCase()] === undefined) {
+        continue;
+      }
+      let stat = deprecatedStats.get(header);
+      if (!stat) {
+        stat = { header, replacement, count: 0, clients: [] };
+        deprecatedStats.set(header, stat);
+      }
+      stat.count++;
+      addClient(stat.clients, client);
+    }
+  };
+
+  return {
+    add,
+    report: () => ({
+      ...report,
+      kinds: { ...report.kinds },
+      authMethods: { ...report.authMethods },
+      diagnostics: [...diagnosticStats.values()].sort((a, b) => b.count - a.count),
+      strictFailures: [...report.strictFailures],
+      deprecatedHeaders: [...deprecatedStats.values()].sort((a, b) => b.count - a.count),
+      clients: [...clientStats.values()].sort((a, b) => b.requests - a.requests),
+    }),
+  };
+}
+
+/**
+ * Audit captured requests
+ *
+ * @example
+ * const { records } = readHarRequests(fs.readFileSync('gateway.har', 'utf8'));
+ * const report = auditTraffic(records);
+ * report.strictFailureCount; // requests that break with strict: true
+ *
+ * @param records Captured requests
+ * @param options Audit options
+ * @returns Aggregate report
+ */
+export function auditTraffic(records: Iterable<AuditRecord>, options: AuditOptions = {}): AuditReport {
+  const audit = createTrafficAudit(options);
+  for (const record of records) {
+    audit.add(record);
+  }
+  return audit.report();
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Read requests from HAR file (log.entries[].request)
+ * Requests are identified by method and URL (credentials and query values masked);
+ * the client is taken from user-agent.
+ *
+ * @param har HAR JSON text or parsed object
+ * @returns Records and entries that could not be read
+ */
+export function readHarRequests(har: string | unknown): AuditInput {
+  let parsed: unknown = har;
+  if (typeof har === 'string') {
+    try {
+      parsed = JSON.parse(har);
+    } catch {
+      // Parser message quotes the input (header values) - not included
+      return { records: [], errors: ['HAR is not valid JSON'] };
+    }
+  }
+  const entries = isObject(parsed) && isObject(parsed.log) ? parsed.log.entries : undefined;
+  if (!Array.isArray(entries)) {
+    return { records: [], errors: ['HAR has no log.entries array'] };
+  }
+
+  const input: AuditInput = { records: [], errors: [] };
+  entries.forEach((entry: unknown, index) => {
+    const request = isObject(entry) ? entry.request : undefined;
+    if (!isObject(request) || !Array.isArray(request.headers)) {
+      input.errors.push(`entry ${index}: request.headers is missing`);
+      return;
+    }
+    const headers: HeaderRecord = {};
+    for (const header of request.headers) {
+      if (!isObject(header) || typeof header.name !== 'string' || typeof header.value !== 'string') {
+        continue;
+      }
+      // HTTP/2 pseudo-headers (:authority, :path) are not request headers
+      if (header.name.startsWith(':')) {
+        continue;
+      }
+      const name = header.name.toLowerCase();
+      const existing = headers[name];
+      headers[name] = existing === undefined
+        ? header.value
+        : [...(Array.isArray(existing) ? existing : [existing]), header.value];
+    }
+    const id = typeof request.method === 'string' && typeof request.url === 'string'
+      ? `${request.method} ${sanitizeHeaderValue(request.url)}`
+      : `entry ${index}`;
+    input.records.push({ id, headers });
+  });
+  return input;
+}
+
+/**
+ * Read requests from newline-delimited JSON log
+ * Each line is an object with `headers` (header record) and optional `id` and `client`.
+ * Empty lines are skipped.
+ *
+ * @param ndjson Log text
+ * @returns Records and lines that could not be read
+ */
+export function readNdjsonRequests(ndjson: string): AuditInput {
+  const input: AuditInput = { records: [], errors: [] };
+  ndjson.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') {
+      return;
+    }
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      // Parser message quotes the line (header values) - not included
+      input.errors.push(`line ${index + 1}: not valid JSON`);
+      return;
+    }
+    if (!isObject(entry) || !isObject(entry.headers)) {
+      input.errors.push(`line ${index + 1}: headers object is missing`);
+      return;
+    }
+    input.records.push({
+      id: typeof entry.id === 'string' ? entry.id : `line ${index + 1}`,
+      client: typeof entry.client === 'string' ? entry.client : undefined,
+      headers: entry.headers as HeaderRecord,
+    });
+  });
+  return input;
+}
@@ -0,0 +1,1055 @@
+/**
+ * Authentication method plugins
+ *
+ * Every authentication method is a plugin that declares the headers it reads, its
+ * priority and a validate function. Built-in methods (SAP destination, MCP destination,
+ * direct JWT, basic) are plugins too, so company-specific schemes are added by
+ * registering another plugin instead of changing the validator.
+ *
+ * Two kinds of methods exist:
+ * - standalone methods (no `authTypes`): requesting the method is enough and x-sap-url
+ *   is not required, e.g. destinations
+ * - credential methods (`authTypes`): selected by x-sap-auth-type and validated against
+ *   x-sap-url, e.g. direct JWT and basic auth
+ */
+
+import type { AuthType } from '@mcp-abap-adt/interfaces';
+import {
+  AuthMethodPriority,
+  HEADER_SAP_DESTINATION_SERVICE,
+  HEADER_MCP_DESTINATION,
+  HEADER_SAP_CLIENT,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_PASSWORD,
+  HEADER_SAP_URL,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_REFRESH_TOKEN,
+  HEADER_SAP_UAA_URL,
+  HEADER_UAA_URL,
+  HEADER_SAP_UAA_CLIENT_ID,
+  HEADER_UAA_CLIENT_ID,
+  HEADER_SAP_UAA_CLIENT_SECRET,
+  HEADER_UAA_CLIENT_SECRET,
+  AUTH_TYPE_JWT,
+  AUTH_TYPE_BASIC,
+  AUTH_TYPE_XSUAA,
+} from '@mcp-abap-adt/interfaces';
+import type {
+  AuthConfigInput,
+  ValidatedAuthConfig,
+  HeaderValidationOptions,
+  JwtClaimsSummary,
+  JwtValidationOptions,
+  LogonTicketSummary,
+  LogonTicketValidationOptions,
+  SamlAssertionSummary,
+  SamlValidationOptions,
+} from './types';
+import { decodeJwt, validateJwtClaims, summarizeJwtClaims } from './jwt';
+import type { JwtSignatureVerificationResult, JwtSignatureFailureReason } from './jwks';
+import { getHeaderValue, type NormalizedHeaders } from './headerSource';
+import { sanitizeHeaderValue } from './redaction';
+import { validateDestinationName, type DestinationResolver, type DestinationResolutionFailureReason } from './destinations';
+import { isValidUrl } from './urlPolicy';
+import {
+  HEADER_SAP_LOGON_TICKET,
+  AUTH_TYPE_LOGON_TICKET,
+  LOGON_TICKET_COOKIE,
+  readLogonTicket,
+  decodeLogonTicket,
+  validateLogonTicket,
+} from './logonTicket';
+import {
+  HEADER_SAP_SAML_ASSERTION,
+  AUTH_TYPE_SAML,
+  decodeSamlAssertion,
+  validateSamlAssertion,
+} from './saml';
+import {
+  DiagnosticCode,
+  createError,
+  createWarning,
+  toDiagnosticSet,
+  type ValidationDiagnostic,
+} from './diagnostics';
+
+/**
+ * Input of authentication method plugin
+ */
+export interface AuthMethodContext {
+  headers: NormalizedHeaders;
+  /** x-sap-url (already checked against URL format and policy for credential methods) */
+  sapUrl?: string;
+  /** Lowercased x-sap-auth-type (credential methods only) */
+  authType?: string;
+  options: HeaderValidationOptions;
+}
+
+/**
+ * Authentication method plugin
+ */
+export interface AuthMethodPlugin {
+  /** Unique method ID, stored in config.authMethod */
+  id: string;
+  /** Name used in messages ("<name> authentication is disabled") */
+  name: string;
+  /**
+   * Unique priority, used in methodOrder and as config.rank
+   * Built-in methods use AuthMethodPriority values and EXTENDED_AUTH_METHOD_PRIORITY;
+   * config.priority is toAuthMethodPriority(priority). 0 (NONE) marks failed validation
+   */
+  priority: number;
+  /** Headers that request the method */
+  triggerHeaders: readonly string[];
+  /** Headers the method needs (reported when x-sap-auth-type selects the method but they are missing) */
+  requiredHeaders?: readonly string[];
+  /** Headers the method reads when present */
+  optionalHeaders?: readonly string[];
+  /** x-sap-auth-type values handled by the method; standalone methods have none */
+  authTypes?: readonly string[];
+  /** Whether headers request the method (default: any trigger header has a non-empty value) */
+  isRequested?(headers: NormalizedHeaders): boolean;
+  /** Header consistency checks of credential method, run whenever x-sap-url is valid */
+  checkHeaders?(context: AuthMethodContext): ValidationDiagnostic[];
+  /** Checks of credential method against accepted x-sap-auth-type */
+  checkAuthType?(context: AuthMethodContext): ValidationDiagnostic[];
+  /** Build config from headers; null if headers don't apply to the method */
+  validate(context: AuthMethodContext): ValidatedAuthConfig | null;
+  /** Errors when x-sap-auth-type selects the method but validate returned null */
+  missingCredentials?(context: AuthMethodContext): ValidationDiagnostic[];
+  /**
+   * Minimal headers that validate to config (inverse of validate, see serializeAuthConfig)
+   * @throws if config lacks fields the headers need
+   */
+  toHeaders?(config: AuthConfigInput): Record<string, string>;
+}
+
+/**
+ * Set of authentication methods used by the validator
+ */
+export interface AuthMethodRegistry {
+  /** Registered methods in registration order */
+  readonly methods: readonly AuthMethodPlugin[];
+  /**
+   * Register method
+   * @throws if a method with the same id or priority is registered, or priority is 0 (NONE)
+   */
+  register(method: AuthMethodPlugin): AuthMethodRegistry;
+  /** Method registered with priority */
+  get(priority: number): AuthMethodPlugin | undefined;
+}
+
+/**
+ * Priorities of methods that have no AuthMethodPriority value in @mcp-abap-adt/interfaces
+ * Values lie between built-in priorities, so destinations keep the highest priority
+ */
+export const EXTENDED_AUTH_METHOD_PRIORITY = {
+  /** X.509 client certificate - between MCP destination and direct JWT */
+  X509: 2.5,
+  /** SAML bearer assertion - between X.509 and direct JWT */
+  SAML: 2.25,
+  /** SAP logon ticket - between direct JWT and basic */
+  LOGON_TICKET: 1.5,
+} as const;
+
+const BUILTIN_PRIORITIES: readonly AuthMethodPriority[] = [
+  AuthMethodPriority.SAP_DESTINATION,
+  AuthMethodPriority.MCP_DESTINATION,
+  AuthMethodPriority.DIRECT_JWT,
+  AuthMethodPriority.BASIC,
+];
+
+/**
+ * AuthMethodPriority value for method priority (config.priority)
+ * Priorities between built-in values map to the next lower one (SAML 2.25 to DIRECT_JWT),
+ * priorities below BASIC to BASIC; config.rank keeps the exact priority
+ */
+export function toAuthMethodPriority(priority: number): AuthMethodPriority {
+  return BUILTIN_PRIORITIES.find(builtin => builtin <= priority) ?? AuthMethodPriority.BASIC;
+}
+
+/**
+ * Join header names for messages ("a", "a and b", "a, b and c")
+ */
+export function joinHeaders(headers: readonly string[]): string {
+  if (headers.length <= 1) {
+    return headers.join('');
+  }
+  return `${headers.slice(0, -1).join(', ')} and ${headers[headers.length - 1]}`;
+}
+
+/**
+ * Check whether headers request authentication method
+ */
+export function isAuthMethodRequested(method: AuthMethodPlugin, headers: NormalizedHeaders): boolean {
+  if (method.isRequested) {
+    return method.isRequested(headers);
+  }
+  return method.triggerHeaders.some(header => !!getHeaderValue(headers, header));
+}
+
+/**
+ * Errors reported when x-sap-auth-type selects method but its credentials are missing
+ */
+export function missingCredentialsErrors(method: AuthMethodPlugin, context: AuthMethodContext): ValidationDiagnostic[] {
+  if (method.missingCredentials) {
+    return method.missingCredentials(context);
+  }
+  const required = method.requiredHeaders ?? method.triggerHeaders;
+  const missing = required.filter(header => !getHeaderValue(context.headers, header));
+  const headers = missing.length > 0 ? missing : [...required];
+  return [createError(
+    DiagnosticCode.AUTH_CREDENTIALS_MISSING,
+    `${method.name} authentication requires ${joinHeaders(headers)} ${headers.length === 1 ? 'header' : 'headers'}`,
+    headers
+  )];
+}
+
+/**
+ * Diagnostic codes for JWT signature verification failures
+ */
+const SIGNATURE_FAILURE_CODES: Record<JwtSignatureFailureReason, DiagnosticCode> = {
+  alg_missing: DiagnosticCode.JWT_ALG_MISSING,
+  alg_none: DiagnosticCode.JWT_ALG_NONE,
+  unsupported_alg: DiagnosticCode.JWT_ALG_UNSUPPORTED,
+  unknown_kid: DiagnosticCode.JWT_KID_UNKNOWN,
+  bad_signature: DiagnosticCode.JWT_SIGNATURE_INVALID,
+};
+
+/**
+ * Diagnostic codes for destination resolution failures
+ */
+const DESTINATION_FAILURE_CODES: Record<DestinationResolutionFailureReason, DiagnosticCode> = {
+  not_found: DiagnosticCode.DESTINATION_NOT_FOUND,
+  malformed: DiagnosticCode.DESTINATION_INVALID,
+};
+/**
+ * Check destination name syntax (names are used to build file names)
+ */
+export function destinationNameError(header: string, destination: string): ValidationDiagnostic | undefined {
+  const error = validateDestinationName(destination);
+  if (!error) {
+    return undefined;
+  }
+  return createError(
+    DiagnosticCode.DESTINATION_NAME_INVALID,
+    `${header} "${sanitizeHeaderValue(destination)}" is not a valid destination name: ${error}`,
+    [header]
+  );
+}
+/**
+ * Resolve destination against local files (only when resolver is configured)
+ * Returns connection fields for config; resolution failures are added to diagnostics
+ */
+function resolveDestinationFields(
+  header: string,
+  destination: string,
+  resolver: DestinationResolver | undefined,
+  diagnostics: ValidationDiagnostic[]
+): Partial<ValidatedAuthConfig> {
+  if (!resolver) {
+    return {};
+  }
+
+  const resolution = resolver.resolve(destination);
+  if (!resolution.destination) {
+    diagnostics.push(createError(
+      DESTINATION_FAILURE_CODES[resolution.reason ?? 'not_found'],
+      `${header} "${sanitizeHeaderValue(destination)}" cannot be resolved: ${resolution.error}`,
+      [header]
+    ));
+    return {};
+  }
+
+  const resolved = resolution.destination;
+  if (!isValidUrl(resolved.sapUrl)) {
+    diagnostics.push(createError(
+      DiagnosticCode.DESTINATION_INVALID,
+      `${header} "${sanitizeHeaderValue(destination)}" cannot be resolved: destination URL is not a valid URL`,
+      [header]
+    ));
+    return {};
+  }
+
+  return {
+    sapUrl: resolved.sapUrl,
+    sapClient: resolved.sapClient,
+    uaaUrl: resolved.uaaUrl,
+    uaaClientId: resolved.uaaClientId,
+    uaaClientSecret: resolved.uaaClientSecret,
+    destinationFile: resolved.filePath,
+    destinationSource: resolved.source,
+  };
+}
+
+/**
+ * Validate SAP destination-based authentication (highest priority)
+ * x-sap-destination - uses AuthBroker, JWT only, no auth-type needed
+ * URL is taken from destination (service key or .env), not from x-sap-url header
+ */
+function validateSapDestinationAuth(
+  headers: NormalizedHeaders,
+  destinationResolver?: DestinationResolver
+): ValidatedAuthConfig | null {
+  const destinationRaw = headers[HEADER_SAP_DESTINATION_SERVICE.toLowerCase()];
+  if (!destinationRaw) {
+    return null;
+  }
+  
+  const destination = getHeaderValue(headers, HEADER_SAP_DESTINATION_SERVICE);
+  
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  // Validate destination name (check if empty after trim)
+  if (!destination || destination.length === 0) {
+    diagnostics.push(createError(DiagnosticCode.HEADER_EMPTY, `${HEADER_SAP_DESTINATION_SERVICE} header is empty`, [HEADER_SAP_DESTINATION_SERVICE]));
+    return {
+      priority: AuthMethodPriority.NONE,
+      authType: AUTH_TYPE_JWT, // SAP destination always uses JWT
+      sapUrl: '', // URL will be loaded from destination
+      ...toDiagnosticSet(diagnostics),
+    };
+  }
+
+  // Destination name is used to build file names - reject unsafe names
+  const nameError = destinationNameError(HEADER_SAP_DESTINATION_SERVICE, destination);
+  if (nameError) {
+    return {
+      priority: AuthMethodPriority.NONE,
+      authType: AUTH_TYPE_JWT,
+      sapUrl: '',
+      ...toDiagnosticSet([nameError]),
+    };
+  }
+
+  // Connection data from destination file (if resolver is configured)
+  const resolved = resolveDestinationFields(HEADER_SAP_DESTINATION_SERVICE, destination, destinationResolver, diagnostics);
+
+  // Extract optional SAP client (header overrides destination)
+  const sapClient = getHeaderValue(headers, HEADER_SAP_CLIENT) ?? resolved.sapClient;
+
+  // Optional: x-sap-login and x-sap-password (for cloud systems)
+  const username = getHeaderValue(headers, HEADER_SAP_LOGIN);
+  const password = getHeaderValue(headers, HEADER_SAP_PASSWORD);
+
+  // Warning if x-sap-url is provided (URL comes from destination, not header)
+  const sapUrl = getHeaderValue(headers, HEADER_SAP_URL);
+  if (sapUrl) {
+    diagnostics.push(createWarning(
+      DiagnosticCode.HEADER_IGNORED,
+      `${HEADER_SAP_URL} is ignored when ${HEADER_SAP_DESTINATION_SERVICE} is present (URL is loaded from destination service key or .env file)`,
+      [HEADER_SAP_URL, HEADER_SAP_DESTINATION_SERVICE]
+    ));
+  }
+
+  // Warning if direct JWT token is also provided (destination takes priority)
+  const jwtToken = getHeaderValue(headers, HEADER_SAP_JWT_TOKEN);
+  if (jwtToken) {
+    diagnostics.push(createWarning(
+      DiagnosticCode.HEADER_IGNORED,
+      `${HEADER_SAP_JWT_TOKEN} is ignored when ${HEADER_SAP_DESTINATION_SERVICE} is present (destination-based auth takes priority)`,
+      [HEADER_SAP_JWT_TOKEN, HEADER_SAP_DESTINATION_SERVICE]
+    ));
+  }
+
+  // Warning if auth-type is provided (not needed for x-sap-destination)
+  const authType = getHeaderValue(headers, HEADER_SAP_AUTH_TYPE);
+  if (authType) {
+    diagnostics.push(createWarning(
+      DiagnosticCode.HEADER_IGNORED,
+      `${HEADER_SAP_AUTH_TYPE} is ignored when ${HEADER_SAP_DESTINATION_SERVICE} is present (always uses JWT)`,
+      [HEADER_SAP_AUTH_TYPE, HEADER_SAP_DESTINATION_SERVICE]
+    ));
+  }
+
+  return {
+    ...resolved,
+    priority: AuthMethodPriority.SAP_DESTINATION,
+    authType: AUTH_TYPE_JWT, // Always JWT for x-sap-destination
+    sapUrl: resolved.sapUrl ?? '', // URL will be loaded from destination (service key or .env)
+    sapClient,
+    destination,
+    username,
+    password,
+    ...toDiagnosticSet(diagnostics),
+  };
+}
+
+/**
+ * Validate MCP destination-based authentication (medium-high priority)
+ * x-mcp-destination - uses AuthBroker, always JWT (no x-sap-auth-type needed)
+ * URL is taken from destination (service key or .env), not from x-sap-url header
+ * x-sap-url is optional - if provided, it will be ignored (warning issued)
+ */
+function validateMcpDestinationAuth(
+  headers: NormalizedHeaders,
+  sapUrl?: string,
+  destinationResolver?: DestinationResolver
+): ValidatedAuthConfig | null {
+  const destinationRaw = headers[HEADER_MCP_DESTINATION.toLowerCase()];
+  if (!destinationRaw) {
+    return null;
+  }
+  
+  const destination = getHeaderValue(headers, HEADER_MCP_DESTINATION);
+
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  // Validate destination name (check if empty after trim)
+  if (!destination || destination.length === 0) {
+    diagnostics.push(createError(DiagnosticCode.HEADER_EMPTY, `${HEADER_MCP_DESTINATION} header is empty`, [HEADER_MCP_DESTINATION]));
+    return {
+      priority: AuthMethodPriority.NONE,
+      authType: AUTH_TYPE_JWT, // MCP destination always uses JWT
+      sapUrl: '', // URL will be loaded from destination
+      ...toDiagnosticSet(diagnostics),
+    };
+  }
+
+  // Destination name is used to build file names - reject unsafe names
+  const nameError = destinationNameError(HEADER_MCP_DESTINATION, destination);
+  if (nameError) {
+    return {
+      priority: AuthMethodPriority.NONE,
+      authType: AUTH_TYPE_JWT,
+      sapUrl: '',
+      ...toDiagnosticSet([nameError]),
+    };
+  }
+
+  // Warning if x-sap-url is provided (URL comes from destination, not header)
+  if (sapUrl) {
+    diagnostics.push(createWarning(
+      DiagnosticCode.HEADER_IGNORED,
+      `${HEADER_SAP_URL} is ignored when ${HEADER_MCP_DESTINATION} is present (URL is loaded from destination service key or .env file)`,
+      [HEADER_SAP_URL, HEADER_MCP_DESTINATION]
+    ));
+  }
+
+  // Warning if x-sap-auth-type is provided (not needed for x-mcp-destination)
+  const authType = getHeaderValue(headers, HEADER_SAP_AUTH_TYPE);
+  if (authType) {
+    diagnostics.push(createWarning(
+      DiagnosticCode.HEADER_IGNORED,
+      `${HEADER_SAP_AUTH_TYPE} is ignored when ${HEADER_MCP_DESTINATION} is present (always uses JWT)`,
+      [HEADER_SAP_AUTH_TYPE, HEADER_MCP_DESTINATION]
+    ));
+  }
+
+  // Connection data from destination file (if resolver is configured)
+  const resolved = resolveDestinationFields(HEADER_MCP_DESTINATION, destination, destinationResolver, diagnostics);
+
+  // Extract optional SAP client (header overrides destination)
+  const sapClient = getHeaderValue(headers, HEADER_SAP_CLIENT) ?? resolved.sapClient;
+
+  // Warning if direct JWT token is also provided (destination takes priority)
+  const jwtToken = getHeaderValue(headers, HEADER_SAP_JWT_TOKEN);
+  if (jwtToken) {
+    diagnostics.push(createWarning(
+      DiagnosticCode.HEADER_IGNORED,
+      `${HEADER_SAP_JWT_TOKEN} is ignored when ${HEADER_MCP_DESTINATION} is present (destination-based auth takes priority)`,
+      [HEADER_SAP_JWT_TOKEN, HEADER_MCP_DESTINATION]
+    ));
+  }
+
+  return {
+    ...resolved,
+    priority: AuthMethodPriority.MCP_DESTINATION,
+    authType: AUTH_TYPE_JWT, // Always JWT for x-mcp-destination
+    sapUrl: resolved.sapUrl ?? '', // URL will be loaded from destination (service key or .env)
+    sapClient,
+    destination,
+    ...toDiagnosticSet(diagnostics),
+  };
+}
+
+/**
+ * Validate direct JWT authentication (medium priority)
+ * 
+ * For authorization, only x-sap-jwt-token is required.
+ * UAA headers (x-sap-uaa-url, x-sap-uaa-client-id, x-sap-uaa-client-secret) are optional
+ * and only used for token refresh - they are a separate set of headers.
+ * 
+ * Token is decoded and exp/nbf/iat are checked with clock skew, so expired or
+ * malformed tokens are rejected before reaching the ABAP backend.
+ * Signature is verified only when a local key set is configured.
+ */
+function validateDirectJwtAuth(
+  headers: NormalizedHeaders,
+  sapUrl: string,
+  authType: AuthType,
+  jwtOptions?: JwtValidationOptions
+): ValidatedAuthConfig | null {
+  if (authType !== AUTH_TYPE_JWT && authType !== AUTH_TYPE_XSUAA) {
+    return null;
+  }
+
+  const jwtToken = getHeaderValue(headers, HEADER_SAP_JWT_TOKEN);
+  
+  if (!jwtToken) {
+    return null;
+  }
+
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  // Validate JWT token format and time-based claims
+  let jwtClaims: JwtClaimsSummary | undefined;
+  let jwtSignature: JwtSignatureVerificationResult | undefined;
+  if (jwtToken.length < 10) {
+    diagnostics.push(createError(DiagnosticCode.JWT_MALFORMED, `${HEADER_SAP_JWT_TOKEN} appears to be invalid (too short)`, [HEADER_SAP_JWT_TOKEN]));
+  } else {
+    const decoded = decodeJwt(jwtToken);
+    if (decoded.error) {
+      diagnostics.push(createError(DiagnosticCode.JWT_MALFORMED, `${HEADER_SAP_JWT_TOKEN} appears to be invalid (${decoded.error})`, [HEADER_SAP_JWT_TOKEN]));
+    } else {
+      const claimsResult = validateJwtClaims(decoded.jwt!.payload, jwtOptions);
+      diagnostics.push(...claimsResult.diagnostics.map(d => ({
+        ...d,
+        headers: [HEADER_SAP_JWT_TOKEN],
+        message: d.severity === 'error'
+          ? `${HEADER_SAP_JWT_TOKEN} is rejected: ${d.message}`
+          : `${HEADER_SAP_JWT_TOKEN}: ${d.message}`,
+      })));
+      jwtClaims = summarizeJwtClaims(decoded.jwt!.payload);
+
+      // Optional offline signature verification
+      if (jwtOptions?.keySet) {
+        jwtSignature = jwtOptions.keySet.verify(decoded.jwt!);
+        if (!jwtSignature.verified) {
+          diagnostics.push(createError(
+            SIGNATURE_FAILURE_CODES[jwtSignature.reason!],
+            `${HEADER_SAP_JWT_TOKEN} signature verification failed (${jwtSignature.reason}): ${jwtSignature.error}`,
+            [HEADER_SAP_JWT_TOKEN]
+          ));
+        }
+      }
+    }
+  }
+
+  // Extract optional refresh token
+  const refreshToken = getHeaderValue(headers, HEADER_SAP_REFRESH_TOKEN);
+  
+  // Extract optional UAA config (for token refresh only - separate set of headers)
+  // These are optional and don't affect authorization validation
+  const uaaUrl = getHeaderValue(headers, HEADER_SAP_UAA_URL) || getHeaderValue(headers, HEADER_UAA_URL);
+  const uaaClientId = getHeaderValue(headers, HEADER_SAP_UAA_CLIENT_ID) || getHeaderValue(headers, HEADER_UAA_CLIENT_ID);
+  const uaaClientSecret = getHeaderValue(headers, HEADER_SAP_UAA_CLIENT_SECRET) || getHeaderValue(headers, HEADER_UAA_CLIENT_SECRET);
+  
+  // Validate UAA config completeness if any UAA header is present
+  if (uaaUrl || uaaClientId || uaaClientSecret) {
+    if (!uaaUrl || !uaaClientId || !uaaClientSecret) {
+      diagnostics.push(createWarning(
+        DiagnosticCode.UAA_CONFIG_INCOMPLETE,
+        `UAA headers (${HEADER_SAP_UAA_URL}, ${HEADER_SAP_UAA_CLIENT_ID}, ${HEADER_SAP_UAA_CLIENT_SECRET}) should be provided together for token refresh`,
+        [HEADER_SAP_UAA_URL, HEADER_SAP_UAA_CLIENT_ID, HEADER_SAP_UAA_CLIENT_SECRET]
+      ));
+    }
+  }
+  
+  // Extract optional SAP client
+  const sapClient = getHeaderValue(headers, HEADER_SAP_CLIENT);
+  
+  return {
+    priority: AuthMethodPriority.DIRECT_JWT,
+    authType,
+    sapUrl,
+    sapClient,
+    jwtToken,
+    jwtClaims,
+    jwtSignature,
+    refreshToken,
+    uaaUrl,
+    uaaClientId,
+    uaaClientSecret,
+    ...toDiagnosticSet(diagnostics),
+  };
+}
+
+/**
+ * Validate basic authentication (lowest priority)
+ */
+function validateBasicAuth(
+  headers: NormalizedHeaders,
+  sapUrl: string,
+  authType: AuthType
+): ValidatedAuthConfig | null {
+  if (authType !== AUTH_TYPE_BASIC) {
+    return null;
+  }
+
+  const usernameRaw = headers[HEADER_SAP_LOGIN.toLowerCase()];
+  const passwordRaw = headers[HEADER_SAP_PASSWORD.toLowerCase()];
+  
+  if (!usernameRaw || !passwordRaw) {
+    return null;
+  }
+
+  const username = getHeaderValue(headers, HEADER_SAP_LOGIN);
+  const password = getHeaderValue(headers, HEADER_SAP_PASSWORD);
+
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  // Validate username and password (check if empty after trim)
+  if (!username || username.length === 0) {
+    diagnostics.push(createError(DiagnosticCode.HEADER_EMPTY, `${HEADER_SAP_LOGIN} header is empty`, [HEADER_SAP_LOGIN]));
+  }
+
+  if (!password || password.length === 0) {
+    diagnostics.push(createError(DiagnosticCode.HEADER_EMPTY, `${HEADER_SAP_PASSWORD} header is empty`, [HEADER_SAP_PASSWORD]));
+  }
+  
+  // Return config with errors if validation failed
+  if (diagnostics.some(d => d.severity === 'error')) {
+    return {
+      priority: AuthMethodPriority.NONE,
+      authType,
+      sapUrl,
+      ...toDiagnosticSet(diagnostics),
+    };
+  }
+
+  return {
+    priority: AuthMethodPriority.BASIC,
+    authType,
+    sapUrl,
+    sapClient: getHeaderValue(headers, HEADER_SAP_CLIENT),
+    username,
+    password,
+    ...toDiagnosticSet(diagnostics),
+  };
+}
+
+
+/**
+ * Validate SAP logon ticket authentication
+ *
+ * Ticket is read from x-sap-logon-ticket or the MYSAPSSO2 cookie. Structure and
+ * expiry are checked here, the signature is verified by the SAP system.
+ */
+function validateLogonTicketAuth(
+  headers: NormalizedHeaders,
+  sapUrl: string,
+  ticketOptions?: LogonTicketValidationOptions
+): ValidatedAuthConfig | null {
+  const logonTicket = readLogonTicket(headers);
+  if (!logonTicket) {
+    return null;
+  }
+
+  const diagnostics: ValidationDiagnostic[] = [];
+  const fromHeader = !!getHeaderValue(headers, HEADER_SAP_LOGON_TICKET);
+  const source = fromHeader ? HEADER_SAP_LOGON_TICKET : `${LOGON_TICKET_COOKIE} cookie`;
+  const sourceHeader = fromHeader ? HEADER_SAP_LOGON_TICKET : 'cookie';
+
+  let logonTicketSummary: LogonTicketSummary | undefined;
+  const decoded = decodeLogonTicket(logonTicket);
+  if (decoded.error) {
+    diagnostics.push(createError(
+      DiagnosticCode.LOGON_TICKET_MALFORMED,
+      `${source} is not a valid logon ticket (${decoded.error})`,
+      [sourceHeader]
+    ));
+  } else {
+    const checks = validateLogonTicket(decoded.ticket!, ticketOptions);
+    diagnostics.push(...checks.diagnostics.map(d => ({
+      ...d,
+      headers: [sourceHeader],
+      message: `${source} is rejected: ${d.message}`,
+    })));
+    logonTicketSummary = decoded.ticket!.summary;
+  }
+
+  return {
+    priority: toAuthMethodPriority(EXTENDED_AUTH_METHOD_PRIORITY.LOGON_TICKET),
+    rank: EXTENDED_AUTH_METHOD_PRIORITY.LOGON_TICKET,
+    authType: AUTH_TYPE_LOGON_TICKET,
+    sapUrl,
+    sapClient: getHeaderValue(headers, HEADER_SAP_CLIENT),
+    logonTicket,
+    logonTicketSummary,
+    ...toDiagnosticSet(diagnostics),
+  };
+}
+
+/**
+ * Validate SAML bearer assertion authentication
+ *
+ * Assertion structure and validity window are checked here, the XML signature
+ * is verified by the SAP system.
+ */
+function validateSamlAuth(
+  headers: NormalizedHeaders,
+  sapUrl: string,
+  samlOptions?: SamlValidationOptions
+): ValidatedAuthConfig | null {
+  const samlAssertion = getHeaderValue(headers, HEADER_SAP_SAML_ASSERTION);
+  if (!samlAssertion) {
+    return null;
+  }
+
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  let samlAssertionSummary: SamlAssertionSummary | undefined;
+  const decoded = decodeSamlAssertion(samlAssertion);
+  if (decoded.error) {
+    diagnostics.push(createError(
+      DiagnosticCode.SAML_ASSERTION_MALFORMED,
+      `${HEADER_SAP_SAML_ASSERTION} is not a valid SAML assertion (${decoded.error})`,
+      [HEADER_SAP_SAML_ASSERTION]
+    ));
+  } else {
+    const checks = validateSamlAssertion(decoded.assertion!, samlOptions);
+    diagnostics.push(...checks.diagnostics.map(d => ({
+      ...d,
+      headers: [HEADER_SAP_SAML_ASSERTION],
+      message: d.severity === 'error'
+        ? `${HEADER_SAP_SAML_ASSERTION} is rejected: ${d.message}`
+        : `${HEADER_SAP_SAML_ASSERTION}: ${d.message}`,
+    })));
+    samlAssertionSummary = decoded.assertion!.summary;
+  }
+
+  return {
+    priority: toAuthMethodPriority(EXTENDED_AUTH_METHOD_PRIORITY.SAML),
+    rank: EXTENDED_AUTH_METHOD_PRIORITY.SAML,
+    authType: AUTH_TYPE_SAML,
+    sapUrl,
+    sapClient: getHeaderValue(headers, HEADER_SAP_CLIENT),
+    samlAssertion,
+    samlAssertionSummary,
+    ...toDiagnosticSet(diagnostics),
+  };
+}
+
+/**
+ * Warnings when credential header of one method meets x-sap-auth-type of another
+ *
+ * When authType selects the method, direct JWT and basic credentials are reported
+ * (other methods report their own header). Otherwise the method's header is reported.
+ */
+export function credentialHeaderConflicts(
+  headers: NormalizedHeaders,
+  authType: string | undefined,
+  method: { authType: string; header: string; credential: string }
+): ValidationDiagnostic[] {
+  if (authType === method.authType) {
+    const conflicting = [HEADER_SAP_JWT_TOKEN, HEADER_SAP_LOGIN, HEADER_SAP_PASSWORD]
+      .filter(header => getHeaderValue(headers, header));
+    if (conflicting.length === 0) {
+      return [];
+    }
+    return [createWarning(
+      DiagnosticCode.AUTH_METHOD_CONFLICT,
+      `${joinHeaders(conflicting)} ${conflicting.length === 1 ? 'is' : 'are'} ignored when ${HEADER_SAP_AUTH_TYPE} is "${method.authType}" (${method.credential} is used)`,
+      [...conflicting, HEADER_SAP_AUTH_TYPE]
+    )];
+  }
+  if (getHeaderValue(headers, method.header)) {
+    return [createWarning(
+      DiagnosticCode.AUTH_METHOD_CONFLICT,
+      `${method.header} is ignored when ${HEADER_SAP_AUTH_TYPE} is "${authType}"`,
+      [method.header, HEADER_SAP_AUTH_TYPE]
+    )];
+  }
+  return [];
+}
+
+/**
+ * Drop headers without value
+ */
+function definedHeaders(headers: Record<string, string | undefined>): Record<string, string> {
+  const defined: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value) {
+      defined[name] = value;
+    }
+  }
+  return defined;
+}
+
+function requiredField(methodName: string, field: string, value: string | undefined): string {
+  if (!value) {
+    throw new Error(`${methodName} config has no ${field}`);
+  }
+  return value;
+}
+
+/**
+ * x-sap-url, x-sap-auth-type and x-sap-client of credential method config
+ * Auth type of another method is rejected - the headers would select that method instead
+ */
+function credentialMethodHeaders(
+  methodName: string,
+  authTypes: readonly string[],
+  config: AuthConfigInput
+): Record<string, string | undefined> {
+  const authType = config.authType ?? authTypes[0];
+  if (!authTypes.includes(authType)) {
+    throw new Error(`${methodName} config has auth type "${authType}", expected ${authTypes.map(type => `"${type}"`).join(' or ')}`);
+  }
+  return {
+    [HEADER_SAP_URL]: requiredField(methodName, 'sapUrl', config.sapUrl),
+    [HEADER_SAP_AUTH_TYPE]: authType,
+    [HEADER_SAP_CLIENT]: config.sapClient,
+  };
+}
+
+function hasBasicCredentials(headers: NormalizedHeaders): boolean {
+  return !!getHeaderValue(headers, HEADER_SAP_LOGIN) || !!getHeaderValue(headers, HEADER_SAP_PASSWORD);
+}
+
+/**
+ * x-sap-destination - destination resolved by AuthBroker, always JWT
+ */
+const SAP_DESTINATION_METHOD: AuthMethodPlugin = {
+  id: 'sap-destination',
+  name: 'SAP destination',
+  priority: AuthMethodPriority.SAP_DESTINATION,
+  triggerHeaders: [HEADER_SAP_DESTINATION_SERVICE],
+  requiredHeaders: [HEADER_SAP_DESTINATION_SERVICE],
+  optionalHeaders: [HEADER_SAP_CLIENT, HEADER_SAP_LOGIN, HEADER_SAP_PASSWORD],
+  // Empty header is requested too, so it is reported instead of ignored
+  isRequested: headers => !!headers[HEADER_SAP_DESTINATION_SERVICE.toLowerCase()],
+  validate: ({ headers, options }) => validateSapDestinationAuth(headers, options.destinationResolver),
+  toHeaders: config => definedHeaders({
+    [HEADER_SAP_DESTINATION_SERVICE]: requiredField('SAP destination', 'destination', config.destination),
+    [HEADER_SAP_CLIENT]: config.sapClient,
+    [HEADER_SAP_LOGIN]: config.username,
+    [HEADER_SAP_PASSWORD]: config.password,
+  }),
+};
+
+/**
+ * x-mcp-destination - destination resolved by AuthBroker, always JWT
+ */
+const MCP_DESTINATION_METHOD: AuthMethodPlugin = {
+  id: 'mcp-destination',
+  name: 'MCP destination',
+  priority: AuthMethodPriority.MCP_DESTINATION,
+  triggerHeaders: [HEADER_MCP_DESTINATION],
+  requiredHeaders: [HEADER_MCP_DESTINATION],
+  optionalHeaders: [HEADER_SAP_CLIENT],
+  isRequested: headers => !!headers[HEADER_MCP_DESTINATION.toLowerCase()],
+  validate: ({ headers, sapUrl, options }) => validateMcpDestinationAuth(headers, sapUrl, options.destinationResolver),
+  toHeaders: config => definedHeaders({
+    [HEADER_MCP_DESTINATION]: requiredField('MCP destination', 'destination', config.destination),
+    [HEADER_SAP_CLIENT]: config.sapClient,
+  }),
+};
+
+/**
+ * x-sap-jwt-token with x-sap-auth-type jwt or xsuaa
+ */
+const DIRECT_JWT_METHOD: AuthMethodPlugin = {
+  id: 'direct-jwt',
+  name: 'Direct JWT',
+  priority: AuthMethodPriority.DIRECT_JWT,
+  triggerHeaders: [HEADER_SAP_JWT_TOKEN],
+  requiredHeaders: [HEADER_SAP_URL, HEADER_SAP_AUTH_TYPE, HEADER_SAP_JWT_TOKEN],
+  optionalHeaders: [
+    HEADER_SAP_CLIENT,
+    HEADER_SAP_REFRESH_TOKEN,
+    HEADER_SAP_UAA_URL,
+    HEADER_SAP_UAA_CLIENT_ID,
+    HEADER_SAP_UAA_CLIENT_SECRET,
+    HEADER_UAA_URL,
+    HEADER_UAA_CLIENT_ID,
+    HEADER_UAA_CLIENT_SECRET,
+  ],
+  authTypes: [AUTH_TYPE_JWT, AUTH_TYPE_XSUAA],
+  validate: ({ headers, sapUrl, authType, options }) =>
+    validateDirectJwtAuth(headers, sapUrl!, authType as AuthType, options.jwt),
+  missingCredentials: () => [createError(
+    DiagnosticCode.JWT_CREDENTIALS_MISSING,
+    `JWT authentication requires either ${HEADER_SAP_DESTINATION_SERVICE}, ${HEADER_MCP_DESTINATION}, or ${HEADER_SAP_JWT_TOKEN} header`,
+    [HEADER_SAP_DESTINATION_SERVICE, HEADER_MCP_DESTINATION, HEADER_SAP_JWT_TOKEN]
+  )],
+  toHeaders: config => {
+    // UAA headers go together, a partial set validates with UAA_CONFIG_INCOMPLETE
+    const uaa = [config.uaaUrl, config.uaaClientId, config.uaaClientSecret];
+    if (uaa.some(Boolean) && !uaa.every(Boolean)) {
+      throw new Error('Direct JWT config has incomplete UAA fields (uaaUrl, uaaClientId and uaaClientSecret go together)');
+    }
+    return definedHeaders({
+      ...credentialMethodHeaders('Direct JWT', [AUTH_TYPE_JWT, AUTH_TYPE_XSUAA], config),
+      [HEADER_SAP_JWT_TOKEN]: requiredField('Direct JWT', 'jwtToken', config.jwtToken),
+      [HEADER_SAP_REFRESH_TOKEN]: config.refreshToken,
+      [HEADER_SAP_UAA_URL]: config.uaaUrl,
+      [HEADER_SAP_UAA_CLIENT_ID]: config.uaaClientId,
+      [HEADER_SAP_UAA_CLIENT_SECRET]: config.uaaClientSecret,
+    });
+  },
+};
+
+/**
+ * x-sap-login + x-sap-password with x-sap-auth-type basic
+ */
+const BASIC_METHOD: AuthMethodPlugin = {
+  id: 'basic',
+  name: 'Basic',
+  priority: AuthMethodPriority.BASIC,
+  triggerHeaders: [HEADER_SAP_LOGIN, HEADER_SAP_PASSWORD],
+  requiredHeaders: [HEADER_SAP_URL, HEADER_SAP_AUTH_TYPE, HEADER_SAP_LOGIN, HEADER_SAP_PASSWORD],
+  optionalHeaders: [HEADER_SAP_CLIENT],
+  authTypes: [AUTH_TYPE_BASIC],
+  checkHeaders: ({ headers }) => {
+    // x-sap-login and x-sap-password come together (with x-sap-auth-type: basic)
+    const hasSapLogin = !!getHeaderValue(headers, HEADER_SAP_LOGIN);
+    const hasSapPassword = !!getHeaderValue(headers, HEADER_SAP_PASSWORD);
+    if (hasSapLogin === hasSapPassword) {
+      return [];
+    }
+    return [createError(
+      DiagnosticCode.BASIC_CREDENTIALS_INCOMPLETE,
+      `${HEADER_SAP_LOGIN} and ${HEADER_SAP_PASSWORD} must be provided together`,
+      [HEADER_SAP_LOGIN, HEADER_SAP_PASSWORD]
+    )];
+  },
+  checkAuthType: ({ headers, authType }) => {
+    const hasCredentials = hasBasicCredentials(headers);
+    // Basic auth headers are present but auth-type is not basic
+    if (hasCredentials && authType !== AUTH_TYPE_BASIC) {
+      return [createWarning(
+        DiagnosticCode.HEADER_IGNORED,
+        `${HEADER_SAP_LOGIN} and ${HEADER_SAP_PASSWORD} are present but ${HEADER_SAP_AUTH_TYPE} is not "${AUTH_TYPE_BASIC}"`,
+        [HEADER_SAP_LOGIN, HEADER_SAP_PASSWORD, HEADER_SAP_AUTH_TYPE]
+      )];
+    }
+    // Auth-type is basic but headers are missing
+    if (!hasCredentials && authType === AUTH_TYPE_BASIC) {
+      return [createError(
+        DiagnosticCode.BASIC_CREDENTIALS_INCOMPLETE,
+        `${HEADER_SAP_AUTH_TYPE} is "${AUTH_TYPE_BASIC}" but ${HEADER_SAP_LOGIN} and ${HEADER_SAP_PASSWORD} are missing`,
+        [HEADER_SAP_AUTH_TYPE, HEADER_SAP_LOGIN, HEADER_SAP_PASSWORD]
+      )];
+    }
+    return [];
+  },
+  validate: ({ headers, sapUrl, authType }) => validateBasicAuth(headers, sapUrl!, authType as AuthType),
+  missingCredentials: () => [createError(
+    DiagnosticCode.BASIC_CREDENTIALS_INCOMPLETE,
+    `Basic authentication requires ${HEADER_SAP_LOGIN} and ${HEADER_SAP_PASSWORD} headers`,
+    [HEADER_SAP_LOGIN, HEADER_SAP_PASSWORD]
+  )],
+  toHeaders: config => definedHeaders({
+    ...credentialMethodHeaders('Basic', [AUTH_TYPE_BASIC], config),
+    [HEADER_SAP_LOGIN]: requiredField('Basic', 'username', config.username),
+    [HEADER_SAP_PASSWORD]: requiredField('Basic', 'password', config.password),
+  }),
+};
+
+/**
+ * x-sap-logon-ticket (or MYSAPSSO2 cookie) with x-sap-auth-type logon-ticket
+ */
+const LOGON_TICKET_METHOD: AuthMethodPlugin = {
+  id: 'logon-ticket',
+  name: 'SAP logon ticket',
+  priority: EXTENDED_AUTH_METHOD_PRIORITY.LOGON_TICKET,
+  triggerHeaders: [HEADER_SAP_LOGON_TICKET],
+  requiredHeaders: [HEADER_SAP_URL, HEADER_SAP_AUTH_TYPE, HEADER_SAP_LOGON_TICKET],
+  optionalHeaders: [HEADER_SAP_CLIENT, 'cookie'],
+  authTypes: [AUTH_TYPE_LOGON_TICKET],
+  checkAuthType: ({ headers, authType }) => credentialHeaderConflicts(headers, authType, {
+    authType: AUTH_TYPE_LOGON_TICKET,
+    header: HEADER_SAP_LOGON_TICKET,
+    credential: 'logon ticket',
+  }),
+  validate: ({ headers, sapUrl, options }) => validateLogonTicketAuth(headers, sapUrl!, options.logonTicket),
+  missingCredentials: () => [createError(
+    DiagnosticCode.LOGON_TICKET_MISSING,
+    `Logon ticket authentication requires ${HEADER_SAP_LOGON_TICKET} header or ${LOGON_TICKET_COOKIE} cookie`,
+    [HEADER_SAP_LOGON_TICKET]
+  )],
+  toHeaders: config => definedHeaders({
+    ...credentialMethodHeaders('SAP logon ticket', [AUTH_TYPE_LOGON_TICKET], config),
+    [HEADER_SAP_LOGON_TICKET]: requiredField('SAP logon ticket', 'logonTicket', config.logonTicket),
+  }),
+};
+
+/**
+ * x-sap-saml-assertion with x-sap-auth-type saml
+ */
+const SAML_METHOD: AuthMethodPlugin = {
+  id: 'saml',
+  name: 'SAML bearer assertion',
+  priority: EXTENDED_AUTH_METHOD_PRIORITY.SAML,
+  triggerHeaders: [HEADER_SAP_SAML_ASSERTION],
+  requiredHeaders: [HEADER_SAP_URL, HEADER_SAP_AUTH_TYPE, HEADER_SAP_SAML_ASSERTION],
+  optionalHeaders: [HEADER_SAP_CLIENT],
+  authTypes: [AUTH_TYPE_SAML],
+  checkAuthType: ({ headers, authType }) => credentialHeaderConflicts(headers, authType, {
+    authType: AUTH_TYPE_SAML,
+    header: HEADER_SAP_SAML_ASSERTION,
+    credential: 'SAML assertion',
+  }),
+  validate: ({ headers, sapUrl, options }) => validateSamlAuth(headers, sapUrl!, options.saml),
+  missingCredentials: () => [createError(
+    DiagnosticCode.SAML_ASSERTION_MISSING,
+    `SAML authentication requires ${HEADER_SAP_SAML_ASSERTION} header`,
+    [HEADER_SAP_SAML_ASSERTION]
+  )],
+  toHeaders: config => definedHeaders({
+    ...credentialMethodHeaders('SAML bearer assertion', [AUTH_TYPE_SAML], config),
+    [HEADER_SAP_SAML_ASSERTION]: requiredField('SAML bearer assertion', 'samlAssertion', config.samlAssertion),
+  }),
+};
+
+/**
+ * Built-in authentication methods
+ * Methods from @mcp-abap-adt/interfaces first (highest priority first), then logon ticket and SAML
+ * X.509 is opt-in: register X509_AUTH_METHOD from the ./node entry
+ */
+export const BUILTIN_AUTH_METHODS: readonly AuthMethodPlugin[] = [
+  SAP_DESTINATION_METHOD,
+  MCP_DESTINATION_METHOD,
+  DIRECT_JWT_METHOD,
+  BASIC_METHOD,
+  LOGON_TICKET_METHOD,
+  SAML_METHOD,
+];
+
+/**
+ * Create registry of authentication methods
+ *
+ * @example
+ * const authMethods = createAuthMethodRegistry().register({
+ *   id: 'company-sso',
+ *   name: 'Company SSO',
+ *   priority: 10,
+ *   triggerHeaders: ['x-company-sso-ticket'],
+ *   validate: ({ headers }) => ...,
+ * });
+ * validateAuthHeaders(req.headers, { authMethods });
+ *
+ * @param methods Initial methods (default: BUILTIN_AUTH_METHODS)
+ * @returns Registry for HeaderValidationOptions.authMethods
+ */
+export function createAuthMethodRegistry(methods: readonly AuthMethodPlugin[] = BUILTIN_AUTH_METHODS): AuthMethodRegistry {
+  const registered: AuthMethodPlugin[] = [];
+
+  const registry: AuthMethodRegistry = {
+    methods: registered,
+    register(method: AuthMethodPlugin): AuthMethodRegistry {
+      if (method.priority === AuthMethodPriority.NONE) {
+        throw new Error(`Authentication method "${method.id}" must not use priority ${AuthMethodPriority.NONE} (NONE)`);
+      }
+      const duplicate = registered.find(existing => existing.id === method.id || existing.priority === method.priority);
+      if (duplicate) {
+        throw new Error(duplicate.id === method.id
+          ? `Authentication method "${method.id}" is already registered`
+          : `Authentication method "${method.id}" has the same priority (${method.priority}) as "${duplicate.id}"`);
+      }
+      registered.push(method);
+      return registry;
+    },
+    get(priority: number): AuthMethodPlugin | undefined {
+      return registered.find(method => method.priority === priority);
+    },
+  };
+
+  for (const method of methods) {
+    registry.register(method);
+  }
+  return registry;
+}
@@ -0,0 +1,223 @@
+/**
+ * Standard Authorization header support
+ *
+ * Clients built to the MCP authorization spec and generic HTTP tools send
+ * `Authorization: Bearer …` or `Authorization: Basic …` instead of x-sap-* headers.
+ * With `authorization.mode: 'map'` the header is mapped onto SAP auth methods:
+ * - Bearer token -> direct JWT (x-sap-jwt-token, x-sap-auth-type: jwt)
+ * - Basic credentials -> basic auth (x-sap-login, x-sap-password, x-sap-auth-type: basic)
+ *
+ * With `authorization.mode: 'server'` the header protects the MCP server itself and is
+ * never used as (or forwarded as) SAP credentials.
+ */
+
+import {
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_PASSWORD,
+  HEADER_SAP_DESTINATION_SERVICE,
+  HEADER_MCP_DESTINATION,
+  AUTH_TYPE_JWT,
+  AUTH_TYPE_BASIC,
+} from '@mcp-abap-adt/interfaces';
+import { getHeaderValue, type NormalizedHeaders } from './headerSource';
+import { sanitizeHeaderValue } from './redaction';
+import type { AuthorizationHeaderOptions, AuthorizationHeaderUsage } from './types';
+import {
+  DiagnosticCode,
+  createError,
+  createWarning,
+  type ValidationDiagnostic,
+} from './diagnostics';
+
+export const HEADER_AUTHORIZATION = 'authorization';
+
+/**
+ * Parsed Authorization header
+ */
+export type ParsedAuthorization =
+  | { scheme: 'bearer'; token: string }
+  | { scheme: 'basic'; username: string; password: string };
+
+export interface AuthorizationParseResult {
+  authorization?: ParsedAuthorization;
+  /** Scheme name if header uses a scheme other than Bearer/Basic */
+  unsupportedScheme?: string;
+  error?: string;
+}
+
+/**
+ * Result of mapping Authorization header onto x-sap-* headers
+ */
+export interface AuthorizationMappingResult {
+  /** Headers with mapped x-sap-* values */
+  headers: NormalizedHeaders;
+  diagnostics: ValidationDiagnostic[];
+  /** How Authorization header was used (undefined if header is absent or option not set) */
+  usage?: AuthorizationHeaderUsage;
+}
+
+/**
+ * x-sap-* headers that carry direct credentials (conflict with Authorization)
+ */
+const SAP_CREDENTIAL_HEADERS = [HEADER_SAP_AUTH_TYPE, HEADER_SAP_JWT_TOKEN, HEADER_SAP_LOGIN, HEADER_SAP_PASSWORD];
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+function decodeBasicCredentials(encoded: string): { username: string; password: string } | { error: string } {
+  if (!BASE64_PATTERN.test(encoded)) {
+    return { error: 'Basic credentials are not base64 encoded' };
+  }
+
+  let decoded: string;
+  try {
+    const binary = atob(encoded);
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    decoded = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return { error: 'Basic credentials are not base64 encoded' };
+  }
+
+  const separator = decoded.indexOf(':');
+  if (separator === -1) {
+    return { error: 'Basic credentials must have the form "username:password"' };
+  }
+
+  const username = decoded.slice(0, separator);
+  const password = decoded.slice(separator + 1);
+  if (!username || !password) {
+    return { error: 'Basic credentials must contain username and password' };
+  }
+  return { username, password };
+}
+
+/**
+ * Parse Authorization header value
+ *
+ * @param value Header value (`Bearer <token>` or `Basic <base64(username:password)>`)
+ * @returns Parsed credentials, unsupported scheme or error
+ */
+export function parseAuthorizationHeader(value: string): AuthorizationParseResult {
+  const match = /^(\S+)(?:\s+(.*))?$/.exec(value.trim());
+  if (!match) {
+    return { error: 'header is empty' };
+  }
+
+  const scheme = match[1].toLowerCase();
+  const credentials = (match[2] ?? '').trim();
+
+  if (scheme === 'bearer') {
+    if (!credentials) {
+      return { error: 'Bearer token is missing' };
+    }
+    return { authorization: { scheme: 'bearer', token: credentials } };
+  }
+
+  if (scheme === 'basic') {
+    if (!credentials) {
+      return { error: 'Basic credentials are missing' };
+    }
+    const decoded = decodeBasicCredentials(credentials);
+    if ('error' in decoded) {
+      return { error: decoded.error };
+    }
+    return { authorization: { scheme: 'basic', ...decoded } };
+  }
+
+  return { unsupportedScheme: match[1] };
+}
+
+/**
+ * Map Authorization header onto x-sap-* headers according to options
+ *
+ * - Destination headers present: Authorization is not mapped (destination auth takes priority)
+ * - No x-sap-* credential headers: Authorization is mapped
+ * - x-sap-* credential headers present: `precedence` decides, conflict is reported as warning
+ *
+ * @param headers Normalized headers
+ * @param options Authorization header options (mapping is skipped if not set)
+ * @returns Headers to validate, diagnostics and how Authorization was used
+ */
+export function mapAuthorizationHeader(
+  headers: NormalizedHeaders,
+  options?: AuthorizationHeaderOptions
+): AuthorizationMappingResult {
+  const value = getHeaderValue(headers, HEADER_AUTHORIZATION);
+  if (!options || !value) {
+    return { headers, diagnostics: [] };
+  }
+
+  if (options.mode === 'server') {
+    // Authorization protects the MCP server - never used as SAP credentials
+    return { headers, diagnostics: [], usage: 'server' };
+  }
+
+  const diagnostics: ValidationDiagnostic[] = [];
+  const parsed = parseAuthorizationHeader(value);
+
+  if (parsed.error) {
+    diagnostics.push(createError(
+      DiagnosticCode.AUTHORIZATION_INVALID,
+      `Authorization header is invalid: ${parsed.error}`,
+      [HEADER_AUTHORIZATION]
+    ));
+    return { headers, diagnostics, usage: 'ignored' };
+  }
+
+  if (parsed.unsupportedScheme) {
+    diagnostics.push(createWarning(
+      DiagnosticCode.AUTHORIZATION_UNSUPPORTED,
+      `Authorization scheme "${sanitizeHeaderValue(parsed.unsupportedScheme)}" is not supported (only Bearer and Basic) and is ignored`,
+      [HEADER_AUTHORIZATION]
+    ));
+    return { headers, diagnostics, usage: 'ignored' };
+  }
+
+  const destinationHeader = [HEADER_SAP_DESTINATION_SERVICE, HEADER_MCP_DESTINATION].find(name => getHeaderValue(headers, name));
+  if (destinationHeader) {
+    diagnostics.push(createWarning(
+      DiagnosticCode.HEADER_IGNORED,
+      `Authorization is ignored when ${destinationHeader} is present (destination-based auth takes priority)`,
+      [HEADER_AUTHORIZATION, destinationHeader]
+    ));
+    return { headers, diagnostics, usage: 'ignored' };
+  }
+
+  const conflicting = SAP_CREDENTIAL_HEADERS.filter(name => getHeaderValue(headers, name));
+  const precedence = options.precedence ?? 'sap-headers';
+
+  if (conflicting.length > 0 && precedence === 'sap-headers') {
+    diagnostics.push(createWarning(
+      DiagnosticCode.AUTHORIZATION_CONFLICT,
+      `Authorization is ignored because ${conflicting.join(', ')} ${conflicting.length === 1 ? 'is' : 'are'} present (x-sap-* headers take precedence)`,
+      [HEADER_AUTHORIZATION, ...conflicting]
+    ));
+    return { headers, diagnostics, usage: 'ignored' };
+  }
+
+  if (conflicting.length > 0) {
+    diagnostics.push(createWarning(
+      DiagnosticCode.AUTHORIZATION_CONFLICT,
+      `${conflicting.join(', ')} ${conflicting.length === 1 ? 'is' : 'are'} ignored because Authorization is present (Authorization takes precedence)`,
+      [HEADER_AUTHORIZATION, ...conflicting]
+    ));
+  }
+
+  const mapped: NormalizedHeaders = { ...headers };
+  for (const name of SAP_CREDENTIAL_HEADERS) {
+    delete mapped[name];
+  }
+
+  const authorization = parsed.authorization!;
+  if (authorization.scheme === 'bearer') {
+    mapped[HEADER_SAP_AUTH_TYPE] = AUTH_TYPE_JWT;
+    mapped[HEADER_SAP_JWT_TOKEN] = authorization.token;
+  } else {
+    mapped[HEADER_SAP_AUTH_TYPE] = AUTH_TYPE_BASIC;
+    mapped[HEADER_SAP_LOGIN] = authorization.username;
+    mapped[HEADER_SAP_PASSWORD] = authorization.password;
+  }
+
+  return { headers: mapped, diagnostics, usage: 'mapped' };
+}
@@ -0,0 +1,317 @@
+#!/usr/bin/env node
+/**
+ * Command-line header diagnosis
+ *
+ * Reads headers from arguments, a curl command line, a raw HTTP request or stdin
+ * (JSON object, curl command line or raw HTTP request), classifies the request with
+ * isProxyRequest / isMcpServerRequest and prints the selected auth method, errors
+ * and warnings with secrets redacted.
+ *
+ * Exit code: 0 valid, 1 invalid, 2 usage or input error
+ *
+ * @example
+ * mcp-abap-adt-headers 'x-sap-url: https://sap.example.com' 'x-sap-auth-type: basic' 'x-sap-login: DEVELOPER' 'x-sap-password: secret'
+ * mcp-abap-adt-headers --json --curl "$(cat request.sh)"
+ * pbpaste | mcp-abap-adt-headers
+ */
+
+import { readFileSync } from 'fs';
+import type { AuthTraceStep, HeaderValidationOptions, HeaderValidationResult } from './types';
+import type { HeaderRecord } from './headerSource';
+import type { RequestHeaderKind } from './middleware';
+import type { ValidationDiagnostic } from './diagnostics';
+import { validateAuthHeaders, isProxyRequest, isMcpServerRequest } from './headerValidator';
+import { resolveProxyRoute, type ProxyRoute } from './proxyRoute';
+import { buildUpstreamHeaders } from './forwarding';
+import { formatAuthTrace } from './decisionTrace';
+import { describeAuthConfig, redactAuthConfig, type RedactedAuthConfig } from './redaction';
+import {
+  parseHeaderLines,
+  parseCurlCommand,
+  parseHttpRequest,
+  parseHeaderInput,
+  type HeaderInputResult,
+} from './headerInput';
+
+export const CLI_EXIT_VALID = 0;
+export const CLI_EXIT_INVALID = 1;
+export const CLI_EXIT_USAGE = 2;
+
+const USAGE = `Usage: mcp-abap-adt-headers [options] ['Name: value' ...]
+
+Diagnose MCP ABAP ADT request headers. Without header arguments, --curl or --http,
+headers are read from stdin (JSON object, curl command line or raw HTTP request).
+
+Options:
+  --curl <command>            Read headers from curl command line
+  --http <file>               Read headers from raw HTTP request file (- for stdin)
+  --authorization <mode>      Authorization header handling: map or server (default: not inspected)
+  --strict                    Report warnings as errors
+  --explain                   Print decision trace of auth method selection
+  --json                      Print JSON report
+  -h, --help                  Show this help
+
+Exit code: 0 valid, 1 invalid, 2 usage or input error`;
+
+/**
+ * Console and stdin access (injectable for tests and embedding)
+ */
+export interface CliIo {
+  stdout(text: string): void;
+  stderr(text: string): void;
+  /** Read all of stdin; undefined when stdin is a terminal */
+  readStdin(): Promise<string | undefined>;
+}
+
+/**
+ * JSON report (--json)
+ */
+export interface CliReport {
+  kind: RequestHeaderKind;
+  proxyRequest: boolean;
+  mcpServerRequest: boolean;
+  isValid: boolean;
+  /** Proxy route (proxy requests) */
+  route?: ProxyRoute;
+  /** Selected auth method; for proxy requests, auth the MCP server sees after forwarding */
+  auth?: {
+    method: string;
+    description: string;
+    config: RedactedAuthConfig;
+  };
+  /** Decision trace of auth method selection (--explain) */
+  trace?: AuthTraceStep[];
+  errors: string[];
+  warnings: string[];
+  diagnostics: ValidationDiagnostic[];
+}
+
+interface CliArguments {
+  headerArgs: string[];
+  curl?: string;
+  http?: string;
+  json: boolean;
+  help: boolean;
+  options: HeaderValidationOptions;
+}
+
+/**
+ * Parse command-line arguments
+ */
+function parseArguments(argv: readonly string[]): CliArguments | string {
+  const args: CliArguments = { headerArgs: [], json: false, help: false, options: {} };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const takeValue = (): string | undefined => argv[++i];
+    switch (arg) {
+      case '--json':
+        args.json = true;
+        break;
+      case '-h':
+      case '--help':
+        args.help = true;
+        break;
+      case '--strict':
+        args.options.strict = true;
+        break;
+      case '--explain':
+        args.options.explain = true;
+        break;
+      case '--curl':
+      case '--http': {
+        const value = takeValue();
+        if (value === undefined) {
+          return `${arg} requires a value`;
+        }
+        args[arg === '--curl' ? 'curl' : 'http'] = value;
+        break;
+      }
+      case '--authorization': {
+        const mode = takeValue();
+        if (mode !== 'map' && mode !== 'server') {
+          return `--authorization must be map or server, got: ${mode ?? '(none)'}`;
+        }
+        args.options.authorization = { mode };
+        break;
+      }
+      default:
+        if (arg.startsWith('-') && arg !== '-') {
+          return `unknown option: ${arg}`;
+        }
+        args.headerArgs.push(arg);
+    }
+  }
+  return args;
+}
+
+/**
+ * Read headers from the selected input
+ */
+async function readHeaders(args: CliArguments, io: CliIo): Promise<HeaderInputResult> {
+  const sources = [args.headerArgs.length > 0, args.curl !== undefined, args.http !== undefined].filter(Boolean).length;
+  if (sources > 1) {
+    return { error: 'use only one of header arguments, --curl and --http' };
+  }
+
+  if (args.headerArgs.length > 0) {
+    return parseHeaderLines(args.headerArgs);
+  }
+  if (args.curl !== undefined) {
+    return parseCurlCommand(args.curl);
+  }
+  if (args.http !== undefined && args.http !== '-') {
+    try {
+      return parseHttpRequest(readFileSync(args.http, 'utf8'));
+    } catch (error) {
+      return { error: `cannot read ${args.http}: ${(error as Error).message}` };
+    }
+  }
+
+  const input = await io.readStdin();
+  if (input === undefined || input.trim() === '') {
+    return { error: 'no headers given' };
+  }
+  return args.http === '-' ? parseHttpRequest(input) : parseHeaderInput(input);
+}
+
+/**
+ * Classify and validate headers
+ */
+export function diagnoseHeaders(headers: HeaderRecord, options: HeaderValidationOptions = {}): CliReport {
+  const proxyRequest = isProxyRequest(headers);
+  const mcpServerRequest = isMcpServerRequest(headers);
+
+  let auth: HeaderValidationResult;
+  let report: Pick<CliReport, 'kind' | 'route'>;
+  const diagnostics: ValidationDiagnostic[] = [];
+  if (proxyRequest && !mcpServerRequest) {
+    const routeResult = resolveProxyRoute(headers, options);
+    diagnostics.push(...routeResult.diagnostics);
+    // Auth headers are forwarded - validate what the MCP server receives
+    auth = validateAuthHeaders(buildUpstreamHeaders(headers).headers, options);
+    report = { kind: 'proxy', route: routeResult.route };
+  } else {
+    auth = validateAuthHeaders(headers, options);
+    const hasAuth = auth.config !== undefined || auth.diagnostics.length > 0;
+    report = { kind: hasAuth ? 'mcp' : 'env' };
+  }
+  diagnostics.push(...auth.diagnostics);
+
+  const errors = diagnostics.filter(d => d.severity === 'error').map(d => d.message);
+  const isValid = report.kind === 'proxy'
+    ? report.route !== undefined && errors.length === 0
+    : auth.isValid;
+
+  return {
+    ...report,
+    proxyRequest,
+    mcpServerRequest,
+    isValid,
+    ...(auth.config && {
+      auth: {
+        method: auth.config.authMethod ?? String(auth.config.priority),
+        description: describeAuthConfig(auth.config),
+        config: redactAuthConfig(auth.config),
+      },
+    }),
+    ...(auth.trace && { trace: auth.trace }),
+    errors,
+    warnings: diagnostics.filter(d => d.severity === 'warning').map(d => d.message),
+    diagnostics,
+  };
+}
+
+/**
+ * Format report for terminal output
+ */
+function formatReport(report: CliReport): string {
+  const kinds: Record<RequestHeaderKind, string> = {
+    mcp: 'MCP server request',
+    proxy: 'proxy request',
+    env: 'no auth headers (server falls back to .env)',
+  };
+  const lines = [
+    `Request: ${kinds[report.kind]} (isProxyRequest: ${report.proxyRequest}, isMcpServerRequest: ${report.mcpServerRequest})`,
+  ];
+  if (report.route) {
+    const { upstream, mcpUrl, btpDestination, sapDestination } = report.route;
+    const target = upstream === 'url' ? `url ${mcpUrl}` : `BTP destination ${btpDestination}`;
+    const details = [
+      upstream === 'url' && btpDestination ? `BTP destination ${btpDestination}` : undefined,
+      sapDestination ? `SAP destination ${sapDestination}` : undefined,
+    ].filter(Boolean);
+    lines.push(`Route: ${target}${details.length > 0 ? ` (${details.join(', ')})` : ''}`);
+  }
+  const authLabel = report.kind === 'proxy' ? 'Auth at MCP server' : 'Auth';
+  lines.push(`${authLabel}: ${report.auth?.description ?? 'none'}`);
+
+  for (const [title, severity] of [['Errors', 'error'], ['Warnings', 'warning']] as const) {
+    const diagnostics = report.diagnostics.filter(d => d.severity === severity);
+    if (diagnostics.length > 0) {
+      lines.push(`${title}:`, ...diagnostics.map(d => `  [${d.code}] ${d.message}`));
+    }
+  }
+  if (report.trace) {
+    lines.push('Trace:', ...formatAuthTrace(report.trace).split('\n').map(line => `  ${line}`));
+  }
+  lines.push(`Result: ${report.isValid ? 'valid' : 'invalid'}`);
+  return lines.join('\n');
+}
+
+/**
+ * Run header diagnosis
+ *
+ * @param argv Arguments without node and script path
+ * @param io Console and stdin access
+ * @returns Exit code
+ */
+export async function runCli(argv: readonly string[], io: CliIo): Promise<number> {
+  const args = parseArguments(argv);
+  if (typeof args === 'string') {
+    io.stderr(`${args}\n\n${USAGE}`);
+    return CLI_EXIT_USAGE;
+  }
+  if (args.help) {
+    io.stdout(USAGE);
+    return CLI_EXIT_VALID;
+  }
+
+  const input = await readHeaders(args, io);
+  if (!input.headers) {
+    io.stderr(`${input.error}\n\n${USAGE}`);
+    return CLI_EXIT_USAGE;
+  }
+
+  const report = diagnoseHeaders(input.headers, args.options);
+  io.stdout(args.json ? JSON.stringify(report, null, 2) : formatReport(report));
+  return report.isValid ? CLI_EXIT_VALID : CLI_EXIT_INVALID;
+}
+
+/**
+ * Read all of process stdin
+ */
+function readProcessStdin(): Promise<string | undefined> {
+  if (process.stdin.isTTY) {
+    return Promise.resolve(undefined);
+  }
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    process.stdin.on('data', chunk => chunks.push(Buffer.from(chunk)));
+    process.stdin.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    process.stdin.on('error', reject);
+  });
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2), {
+    stdout: text => process.stdout.write(`${text}\n`),
+    stderr: text => process.stderr.write(`${text}\n`),
+    readStdin: readProcessStdin,
+  }).then(
+    code => { process.exitCode = code; },
+    error => {
+      process.stderr.write(`${(error as Error).message}\n`);
+      process.exitCode = CLI_EXIT_USAGE;
+    }
+  );
+}
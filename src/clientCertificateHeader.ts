@@ -0,0 +1,15 @@
+/**
+ * Header, auth type and defaults of X.509 client certificate authentication
+ *
+ * Certificate parsing (x509.ts) needs node:crypto; these constants are used by
+ * header checks and forwarding, which also run outside of Node.js.
+ */
+
+export const HEADER_SAP_CLIENT_CERTIFICATE = 'x-sap-client-cert';
+
+export const AUTH_TYPE_X509 = 'x509';
+
+/**
+ * Default clock skew (seconds) tolerated when checking certificate validity dates
+ */
+export const DEFAULT_CERTIFICATE_CLOCK_SKEW_SECONDS = 60;
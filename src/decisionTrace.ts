@@ -0,0 +1,125 @@
+/**
+ * Decision trace for explain mode
+ *
+ * validateAuthHeaders records the path it takes through method selection
+ * (see docs/architecture/PRIORITY_DIAGRAM.md) when `explain: true` is set.
+ * Every registered method gets exactly one method step, so the trace also tells
+ * why a method was never considered.
+ */
+
+import type { AuthTraceOutcome, AuthTraceStep, AuthTraceStepKind, HeaderValidationResult } from './types';
+import { getHeaderValue, type NormalizedHeaders } from './headerSource';
+import { isAuthMethodRequested, type AuthMethodPlugin } from './authMethods';
+
+/**
+ * Collects trace steps during validation
+ */
+export interface AuthTraceBuilder {
+  readonly steps: AuthTraceStep[];
+  /** Record check, policy or authorization step */
+  step(kind: Exclude<AuthTraceStepKind, 'method'>, subject: string, headers: string[], outcome: AuthTraceOutcome, reason: string): void;
+  /** Record method step (first record per method wins) */
+  method(method: AuthMethodPlugin, outcome: AuthTraceOutcome, reason: string): void;
+  /** Reason recorded for detected methods that were not evaluated */
+  stop(reason: string): void;
+  /** Record remaining methods and final outcome */
+  finish(result: HeaderValidationResult): AuthTraceStep[];
+}
+
+/**
+ * Create trace builder for one validation
+ *
+ * @param methods Registered methods
+ * @param methodOrder Enabled methods by priority
+ * @param headers Headers being validated (after Authorization mapping)
+ */
+export function createAuthTraceBuilder(
+  methods: readonly AuthMethodPlugin[],
+  methodOrder: readonly number[],
+  headers: NormalizedHeaders
+): AuthTraceBuilder {
+  const steps: AuthTraceStep[] = [];
+  const recorded = new Set<string>();
+  let stopReason: string | undefined;
+
+  const method = (plugin: AuthMethodPlugin, outcome: AuthTraceOutcome, reason: string): void => {
+    if (recorded.has(plugin.id)) {
+      return;
+    }
+    recorded.add(plugin.id);
+    steps.push({
+      kind: 'method',
+      subject: plugin.name,
+      method: plugin.id,
+      detected: isAuthMethodRequested(plugin, headers),
+      headers: plugin.triggerHeaders.filter(header => !!getHeaderValue(headers, header)),
+      outcome,
+      reason,
+    });
+  };
+
+  return {
+    steps,
+    step: (kind, subject, stepHeaders, outcome, reason) => {
+      steps.push({ kind, subject, headers: stepHeaders, outcome, reason });
+    },
+    method,
+    stop: reason => {
+      stopReason = stopReason ?? reason;
+    },
+    finish: result => {
+      const ordered = [...methods].sort((a, b) => {
+        const rank = (plugin: AuthMethodPlugin) => {
+          const index = methodOrder.indexOf(plugin.priority);
+          return index === -1 ? methodOrder.length : index;
+        };
+        return rank(a) - rank(b);
+      });
+      for (const plugin of ordered) {
+        if (!methodOrder.includes(plugin.priority)) {
+          method(plugin, 'disabled', 'not in methodOrder');
+        } else if (!isAuthMethodRequested(plugin, headers)) {
+          method(plugin, 'not-detected', `none of ${plugin.triggerHeaders.join(', ')} present`);
+        } else {
+          method(plugin, 'skipped', stopReason ?? 'not evaluated');
+        }
+      }
+
+      if (result.isValid) {
+        steps.push({ kind: 'result', subject: 'result', headers: [], outcome: 'valid', reason: `${result.config?.authMethod} selected` });
+      } else if (result.errors.length === 0) {
+        steps.push({
+          kind: 'result',
+          subject: 'result',
+          headers: [],
+          outcome: 'env-fallback',
+          reason: 'no method was selected and no errors were reported; the server falls back to .env configuration',
+        });
+      } else {
+        const count = result.errors.length;
+        steps.push({ kind: 'result', subject: 'result', headers: [], outcome: 'invalid', reason: `${count} error${count === 1 ? '' : 's'}` });
+      }
+      return steps;
+    },
+  };
+}
+
+/**
+ * Format decision trace as text, one step per line
+ *
+ * @example
+ * formatAuthTrace(result.trace!)
+ * // 1. method SAP destination: not-detected - none of x-sap-destination present
+ * // 2. method MCP destination: chosen [x-mcp-destination] - highest-priority method present
+ * // ...
+ * // 7. result: valid - mcp-destination selected
+ */
+export function formatAuthTrace(trace: readonly AuthTraceStep[]): string {
+  return trace
+    .map((step, index) => {
+      const headers = step.headers.length > 0 ? ` [${step.headers.join(', ')}]` : '';
+      const subject = step.kind === 'result' ? step.kind : `${step.kind} ${step.subject}`;
+      return `${index + 1}. ${subject}: ${step.outcome}${headers} - ${step.reason}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,139 @@
+/**
+ * Local destination resolution (Node.js only - reads files)
+ *
+ * Destinations (x-sap-destination, x-mcp-destination) are resolved against local
+ * directories, the same way AuthBroker loads them:
+ * - `{destination}.json` - BTP service key (url, abap.sapClient, uaa.url/clientid/clientsecret)
+ * - `{destination}.env` - SAP_URL, SAP_CLIENT, SAP_UAA_URL, SAP_UAA_CLIENT_ID, SAP_UAA_CLIENT_SECRET
+ *
+ * Directories are searched in order; in each directory the service key is checked
+ * before the .env file. Files are read on every resolution, so refreshed files are
+ * picked up without restart.
+ *
+ * Errors name the file but not the directory, so server paths are not exposed
+ * in validation errors returned to clients.
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join, basename } from 'path';
+import { parseEnvFile, type DestinationResolution, type DestinationResolver } from './destinations';
+
+export interface DestinationResolverOptions {
+  /** Directories with `{destination}.json` service keys and/or `{destination}.env` files */
+  directories: string | string[];
+}
+
+/**
+ * Destination names are file names - anything that could leave the directory is never looked up
+ */
+function isSafeFileName(name: string): boolean {
+  return name.length > 0 && !/[/\\\0]/.test(name) && name !== '.' && name !== '..';
+}
+
+function readString(source: unknown, key: string): string | undefined {
+  if (!source || typeof source !== 'object') {
+    return undefined;
+  }
+  const value = (source as Record<string, unknown>)[key];
+  if (typeof value === 'string' && value.trim().length > 0) {
+    return value.trim();
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return undefined;
+}
+
+function loadServiceKey(name: string, filePath: string): DestinationResolution {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch {
+    // Parser message may quote file content (secrets) - not included
+    return { reason: 'malformed', error: `service key ${basename(filePath)} is not valid JSON` };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { reason: 'malformed', error: `service key ${basename(filePath)} is not a JSON object` };
+  }
+
+  const key = parsed as Record<string, unknown>;
+  const sapUrl = readString(key, 'url') ?? readString(key.abap, 'url');
+  if (!sapUrl) {
+    return { reason: 'malformed', error: `service key ${basename(filePath)} does not define "url"` };
+  }
+
+  return {
+    destination: {
+      name,
+      source: 'service-key',
+      filePath,
+      sapUrl,
+      sapClient: readString(key.abap, 'sapClient') ?? readString(key, 'sapClient') ?? readString(key, 'client'),
+      uaaUrl: readString(key.uaa, 'url'),
+      uaaClientId: readString(key.uaa, 'clientid'),
+      uaaClientSecret: readString(key.uaa, 'clientsecret'),
+    },
+  };
+}
+
+function loadEnvFile(name: string, filePath: string): DestinationResolution {
+  let values: Record<string, string>;
+  try {
+    values = parseEnvFile(readFileSync(filePath, 'utf-8'));
+  } catch {
+    return { reason: 'malformed', error: `${basename(filePath)} cannot be read` };
+  }
+
+  const sapUrl = values.SAP_URL;
+  if (!sapUrl) {
+    return { reason: 'malformed', error: `${basename(filePath)} does not define SAP_URL` };
+  }
+
+  return {
+    destination: {
+      name,
+      source: 'env',
+      filePath,
+      sapUrl,
+      sapClient: values.SAP_CLIENT || undefined,
+      uaaUrl: values.SAP_UAA_URL || undefined,
+      uaaClientId: values.SAP_UAA_CLIENT_ID || undefined,
+      uaaClientSecret: values.SAP_UAA_CLIENT_SECRET || undefined,
+    },
+  };
+}
+
+/**
+ * Create resolver for destinations stored in local directories
+ *
+ * @example
+ * const destinationResolver = createDestinationResolver({ directories: ['/etc/mcp-abap-adt/service-keys'] });
+ * validateAuthHeaders(req.headers, { destinationResolver });
+ *
+ * @param options Directories to search
+ * @returns Resolver for HeaderValidationOptions.destinationResolver
+ */
+export function createDestinationResolver(options: DestinationResolverOptions): DestinationResolver {
+  const directories = Array.isArray(options.directories) ? [...options.directories] : [options.directories];
+
+  return {
+    resolve(name: string): DestinationResolution {
+      if (isSafeFileName(name)) {
+        for (const directory of directories) {
+          const serviceKeyPath = join(directory, `${name}.json`);
+          if (existsSync(serviceKeyPath)) {
+            return loadServiceKey(name, serviceKeyPath);
+          }
+          const envPath = join(directory, `${name}.env`);
+          if (existsSync(envPath)) {
+            return loadEnvFile(name, envPath);
+          }
+        }
+      }
+      return {
+        reason: 'not_found',
+        error: 'no service key (.json) or .env file found in destination directories',
+      };
+    },
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Destination names, resolution types and .env parsing
+ *
+ * Destinations (x-sap-destination, x-mcp-destination) are resolved by a
+ * DestinationResolver; createDestinationResolver (destinationResolver.ts, Node.js
+ * only) loads them from local directories. Names are checked here without file access.
+ */
+
+export type DestinationSourceType = 'service-key' | 'env';
+
+/**
+ * Reason of destination resolution failure
+ * - not_found: no `{destination}.json` / `{destination}.env` in configured directories
+ * - malformed: file cannot be parsed or does not define the system URL
+ */
+export type DestinationResolutionFailureReason = 'not_found' | 'malformed';
+
+/**
+ * Connection data loaded from destination file
+ */
+export interface ResolvedDestination {
+  name: string;
+  source: DestinationSourceType;
+  /** Path of file the destination was loaded from */
+  filePath: string;
+  sapUrl: string;
+  sapClient?: string;
+  uaaUrl?: string;
+  uaaClientId?: string;
+  uaaClientSecret?: string;
+}
+
+export interface DestinationResolution {
+  destination?: ResolvedDestination;
+  reason?: DestinationResolutionFailureReason;
+  error?: string;
+}
+
+/**
+ * Resolves destination names to connection data
+ */
+export interface DestinationResolver {
+  resolve(name: string): DestinationResolution;
+}
+
+/**
+ * Maximum length of destination name
+ */
+export const MAX_DESTINATION_NAME_LENGTH = 200;
+
+const DESTINATION_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+
+/**
+ * Check destination name syntax
+ *
+ * Names are used to build file names (`{destination}.env`), so only letters, digits,
+ * `_`, `-` and `.` are allowed; names must start with a letter or digit and must not contain `..`.
+ *
+ * @param name Destination name (trimmed)
+ * @returns Error description, or undefined if name is valid
+ */
+export function validateDestinationName(name: string): string | undefined {
+  if (name.length > MAX_DESTINATION_NAME_LENGTH) {
+    return `must not be longer than ${MAX_DESTINATION_NAME_LENGTH} characters`;
+  }
+  if (!DESTINATION_NAME_PATTERN.test(name) || name.includes('..')) {
+    return 'must start with a letter or digit and contain only letters, digits, "_", "-" and "." (no "..")';
+  }
+  return undefined;
+}
+
+/**
+ * Parse .env file content (KEY=VALUE lines, # comments, optional quotes and `export`)
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+    const match = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=\s*(.*)$/.exec(line);
+    if (!match) {
+      continue;
+    }
+    let value = match[2].trim();
+    const quote = value[0];
+    if ((quote === '"' || quote === "'") && value.length >= 2 && value.endsWith(quote)) {
+      value = value.slice(1, -1);
+    } else {
+      value = value.replace(/\s+#.*$/, '');
+    }
+    values[match[1]] = value;
+  }
+  return values;
+}
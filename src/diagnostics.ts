@@ -0,0 +1,139 @@
+/**
+ * Structured validation diagnostics
+ *
+ * Every error and warning produced by the validator is a diagnostic with a stable
+ * code, so callers can switch on codes instead of matching message text.
+ * Plain `errors` / `warnings` string arrays are derived from diagnostics for
+ * backward compatibility.
+ */
+
+/**
+ * Stable diagnostic codes
+ */
+export enum DiagnosticCode {
+  // Generic header issues
+  HEADER_EMPTY = 'HEADER_EMPTY',
+  HEADER_IGNORED = 'HEADER_IGNORED',
+  HEADER_DUPLICATE = 'HEADER_DUPLICATE',
+  HEADER_CONFLICT = 'HEADER_CONFLICT',
+  HEADER_UNKNOWN = 'HEADER_UNKNOWN',
+
+  // x-sap-url / x-mcp-url
+  SAP_URL_INVALID = 'SAP_URL_INVALID',
+  MCP_URL_INVALID = 'MCP_URL_INVALID',
+  SAP_URL_NOT_ALLOWED = 'SAP_URL_NOT_ALLOWED',
+  MCP_URL_NOT_ALLOWED = 'MCP_URL_NOT_ALLOWED',
+
+  // x-sap-destination / x-mcp-destination
+  DESTINATION_NAME_INVALID = 'DESTINATION_NAME_INVALID',
+  DESTINATION_NOT_FOUND = 'DESTINATION_NOT_FOUND',
+  DESTINATION_INVALID = 'DESTINATION_INVALID',
+
+  // x-sap-auth-type
+  AUTH_TYPE_REQUIRED = 'AUTH_TYPE_REQUIRED',
+  AUTH_TYPE_INVALID = 'AUTH_TYPE_INVALID',
+  AUTH_METHOD_CONFLICT = 'AUTH_METHOD_CONFLICT',
+  AUTH_METHOD_DISABLED = 'AUTH_METHOD_DISABLED',
+  AUTH_CREDENTIALS_MISSING = 'AUTH_CREDENTIALS_MISSING',
+
+  // x-sap-client
+  SAP_CLIENT_REQUIRED = 'SAP_CLIENT_REQUIRED',
+  SAP_CLIENT_INVALID = 'SAP_CLIENT_INVALID',
+
+  // Authorization header
+  AUTHORIZATION_INVALID = 'AUTHORIZATION_INVALID',
+  AUTHORIZATION_UNSUPPORTED = 'AUTHORIZATION_UNSUPPORTED',
+  AUTHORIZATION_CONFLICT = 'AUTHORIZATION_CONFLICT',
+
+  // Basic auth
+  BASIC_CREDENTIALS_INCOMPLETE = 'BASIC_CREDENTIALS_INCOMPLETE',
+
+  // Direct JWT
+  JWT_CREDENTIALS_MISSING = 'JWT_CREDENTIALS_MISSING',
+  JWT_MALFORMED = 'JWT_MALFORMED',
+  JWT_CLAIM_INVALID = 'JWT_CLAIM_INVALID',
+  JWT_EXPIRED = 'JWT_EXPIRED',
+  JWT_NOT_YET_VALID = 'JWT_NOT_YET_VALID',
+  JWT_ISSUED_IN_FUTURE = 'JWT_ISSUED_IN_FUTURE',
+  JWT_NO_EXPIRY = 'JWT_NO_EXPIRY',
+  JWT_ALG_MISSING = 'JWT_ALG_MISSING',
+  JWT_ALG_NONE = 'JWT_ALG_NONE',
+  JWT_ALG_UNSUPPORTED = 'JWT_ALG_UNSUPPORTED',
+  JWT_KID_UNKNOWN = 'JWT_KID_UNKNOWN',
+  JWT_SIGNATURE_INVALID = 'JWT_SIGNATURE_INVALID',
+  UAA_CONFIG_INCOMPLETE = 'UAA_CONFIG_INCOMPLETE',
+
+  // X.509 client certificate
+  X509_CERTIFICATE_MISSING = 'X509_CERTIFICATE_MISSING',
+  X509_CERTIFICATE_MALFORMED = 'X509_CERTIFICATE_MALFORMED',
+  X509_CERTIFICATE_EXPIRED = 'X509_CERTIFICATE_EXPIRED',
+  X509_CERTIFICATE_NOT_YET_VALID = 'X509_CERTIFICATE_NOT_YET_VALID',
+  X509_ISSUER_NOT_ALLOWED = 'X509_ISSUER_NOT_ALLOWED',
+  X509_SUBJECT_NOT_ALLOWED = 'X509_SUBJECT_NOT_ALLOWED',
+
+  // SAP logon ticket
+  LOGON_TICKET_MISSING = 'LOGON_TICKET_MISSING',
+  LOGON_TICKET_MALFORMED = 'LOGON_TICKET_MALFORMED',
+  LOGON_TICKET_EXPIRED = 'LOGON_TICKET_EXPIRED',
+
+  // SAML bearer assertion
+  SAML_ASSERTION_MISSING = 'SAML_ASSERTION_MISSING',
+  SAML_ASSERTION_MALFORMED = 'SAML_ASSERTION_MALFORMED',
+  SAML_ASSERTION_EXPIRED = 'SAML_ASSERTION_EXPIRED',
+  SAML_ASSERTION_NOT_YET_VALID = 'SAML_ASSERTION_NOT_YET_VALID',
+  SAML_ASSERTION_NO_EXPIRY = 'SAML_ASSERTION_NO_EXPIRY',
+
+  // Proxy headers
+  PROXY_HEADERS_MISSING = 'PROXY_HEADERS_MISSING',
+  PROXY_ROUTE_CONFLICT = 'PROXY_ROUTE_CONFLICT',
+  PROXY_ROUTE_INCOMPLETE = 'PROXY_ROUTE_INCOMPLETE',
+
+  // Environment defaults
+  ENV_OVERRIDDEN = 'ENV_OVERRIDDEN',
+
+  // Async resolvers (validateAuthHeadersAsync)
+  RESOLVER_FAILED = 'RESOLVER_FAILED',
+  RESOLVER_TIMEOUT = 'RESOLVER_TIMEOUT',
+  TOKEN_INACTIVE = 'TOKEN_INACTIVE',
+  TOKEN_REVOKED = 'TOKEN_REVOKED',
+  IDENTITY_NOT_ALLOWED = 'IDENTITY_NOT_ALLOWED',
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface ValidationDiagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  /** Header(s) the diagnostic refers to */
+  headers: string[];
+  /** Human-readable message (same text as in errors/warnings) */
+  message: string;
+}
+
+/**
+ * Diagnostics together with derived string arrays
+ */
+export interface DiagnosticSet {
+  errors: string[];
+  warnings: string[];
+  diagnostics: ValidationDiagnostic[];
+}
+
+export function createError(code: DiagnosticCode, message: string, headers: string[] = []): ValidationDiagnostic {
+  return { code, severity: 'error', headers, message };
+}
+
+export function createWarning(code: DiagnosticCode, message: string, headers: string[] = []): ValidationDiagnostic {
+  return { code, severity: 'warning', headers, message };
+}
+
+/**
+ * Derive errors/warnings string arrays from diagnostics
+ */
+export function toDiagnosticSet(diagnostics: ValidationDiagnostic[]): DiagnosticSet {
+  return {
+    errors: diagnostics.filter(d => d.severity === 'error').map(d => d.message),
+    warnings: diagnostics.filter(d => d.severity === 'warning').map(d => d.message),
+    diagnostics,
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Duplicate and conflicting header detection
+ *
+ * getHeaderValue takes the first value of a repeated header, and alias pairs
+ * (x-sap-uaa-url / x-uaa-url) are resolved by preference. Two different values
+ * of the same header - from a misbehaving client or header smuggling through a
+ * proxy - would be resolved arbitrarily, so they are reported:
+ * - Repeated header (array value, names differing only in case), or comma-joined
+ *   duplicates (Node.js and Fetch API join repeated headers with ", ") of headers
+ *   whose values never contain a comma; x-sap-url and secrets are not split
+ * - Same logical header sent under two aliases
+ *
+ * Different values are errors (HEADER_CONFLICT), identical repeats are warnings
+ * (HEADER_DUPLICATE). Messages never contain header values.
+ */
+
+import {
+  HEADER_SAP_DESTINATION_SERVICE,
+  HEADER_MCP_DESTINATION,
+  HEADER_BTP_DESTINATION,
+  HEADER_MCP_URL,
+  HEADER_SAP_URL,
+  HEADER_SAP_CLIENT,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_SAP_REFRESH_TOKEN,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_PASSWORD,
+  HEADER_SAP_UAA_URL,
+  HEADER_UAA_URL,
+  HEADER_SAP_UAA_CLIENT_ID,
+  HEADER_UAA_CLIENT_ID,
+  HEADER_SAP_UAA_CLIENT_SECRET,
+  HEADER_UAA_CLIENT_SECRET,
+} from '@mcp-abap-adt/interfaces';
+import { collectHeaderValues, type HeaderSource } from './headerSource';
+import { HEADER_AUTHORIZATION } from './authorization';
+import { HEADER_SAP_CLIENT_CERTIFICATE } from './clientCertificateHeader';
+import { HEADER_SAP_LOGON_TICKET } from './logonTicket';
+import { HEADER_SAP_SAML_ASSERTION } from './saml';
+import { DiagnosticCode, createError, createWarning, type ValidationDiagnostic } from './diagnostics';
+
+/**
+ * Proxy routing headers that must be sent once
+ */
+export const SINGLE_VALUE_PROXY_HEADERS: readonly string[] = [
+  HEADER_BTP_DESTINATION,
+  HEADER_MCP_DESTINATION,
+  HEADER_MCP_URL,
+];
+
+/**
+ * Authentication headers that must be sent once
+ */
+export const SINGLE_VALUE_HEADERS: readonly string[] = [
+  HEADER_SAP_DESTINATION_SERVICE,
+  HEADER_MCP_DESTINATION,
+  HEADER_SAP_URL,
+  HEADER_SAP_CLIENT,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_SAP_REFRESH_TOKEN,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_PASSWORD,
+  HEADER_SAP_UAA_URL,
+  HEADER_SAP_UAA_CLIENT_ID,
+  HEADER_SAP_UAA_CLIENT_SECRET,
+  HEADER_UAA_URL,
+  HEADER_UAA_CLIENT_ID,
+  HEADER_UAA_CLIENT_SECRET,
+  HEADER_SAP_CLIENT_CERTIFICATE,
+  HEADER_SAP_LOGON_TICKET,
+  HEADER_SAP_SAML_ASSERTION,
+  HEADER_AUTHORIZATION,
+];
+
+/**
+ * Headers whose values never contain a comma (comma-joined values are split as repeats)
+ * Destination names, client numbers, auth types, tokens and the MCP server URL
+ * have no commas; x-sap-url, passwords, certificates and Authorization may have them
+ */
+export const COMMA_JOINED_HEADERS: readonly string[] = [
+  HEADER_SAP_DESTINATION_SERVICE,
+  HEADER_MCP_DESTINATION,
+  HEADER_BTP_DESTINATION,
+  HEADER_SAP_CLIENT,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_SAP_REFRESH_TOKEN,
+  HEADER_MCP_URL,
+];
+
+/**
+ * Header pairs carrying the same value (preferred name first)
+ */
+export const HEADER_ALIASES: readonly (readonly [string, string])[] = [
+  [HEADER_SAP_UAA_URL, HEADER_UAA_URL],
+  [HEADER_SAP_UAA_CLIENT_ID, HEADER_UAA_CLIENT_ID],
+  [HEADER_SAP_UAA_CLIENT_SECRET, HEADER_UAA_CLIENT_SECRET],
+];
+
+/**
+ * Values a header was sent with (repeats, case variants and comma-joined values)
+ */
+function sentValues(collected: Record<string, string[]>, header: string): string[] {
+  const values = collected[header] ?? [];
+  const split = COMMA_JOINED_HEADERS.includes(header)
+    ? values.flatMap(value => value.split(','))
+    : values;
+  return split.map(value => value.trim()).filter(value => value.length > 0);
+}
+
+/**
+ * Report repeated headers and aliases with different values
+ *
+ * @param headers Headers from any supported source (not normalized, so case variants are seen)
+ * @param names Headers that must be sent once (default: SINGLE_VALUE_HEADERS)
+ * @returns HEADER_CONFLICT errors and HEADER_DUPLICATE warnings
+ */
+export function checkDuplicateHeaders(
+  headers: HeaderSource,
+  names: readonly string[] = SINGLE_VALUE_HEADERS
+): ValidationDiagnostic[] {
+  const collected = collectHeaderValues(headers);
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  for (const header of names) {
+    const values = sentValues(collected, header);
+    if (values.length < 2) {
+      continue;
+    }
+    if (new Set(values).size > 1) {
+      diagnostics.push(createError(
+        DiagnosticCode.HEADER_CONFLICT,
+        `${header} is sent ${values.length} times with different values`,
+        [header]
+      ));
+    } else {
+      diagnostics.push(createWarning(
+        DiagnosticCode.HEADER_DUPLICATE,
+        `${header} is sent ${values.length} times with the same value`,
+        [header]
+      ));
+    }
+  }
+
+  for (const [preferred, alias] of HEADER_ALIASES) {
+    if (!names.includes(preferred) || !names.includes(alias)) {
+      continue;
+    }
+    const preferredValue = sentValues(collected, preferred)[0];
+    const aliasValue = sentValues(collected, alias)[0];
+    if (preferredValue === undefined || aliasValue === undefined) {
+      continue;
+    }
+    if (preferredValue !== aliasValue) {
+      diagnostics.push(createError(
+        DiagnosticCode.HEADER_CONFLICT,
+        `${preferred} and ${alias} have different values`,
+        [preferred, alias]
+      ));
+    } else {
+      diagnostics.push(createWarning(
+        DiagnosticCode.HEADER_DUPLICATE,
+        `${alias} duplicates ${preferred}`,
+        [preferred, alias]
+      ));
+    }
+  }
+
+  return diagnostics;
+}
@@ -0,0 +1,308 @@
+/**
+ * Effective auth config from headers and environment defaults
+ *
+ * Servers fall back to environment variables (process.env or a parsed .env file)
+ * for anything the request doesn't send. Environment variables are mapped to the
+ * headers they stand for and merged with request headers; the merged headers are
+ * validated with validateAuthHeaders.
+ *
+ * Precedence:
+ * 1. Request headers always win over environment values
+ * 2. Headers requesting a standalone method (destination, client certificate)
+ *    define the connection on their own - environment values are not used
+ * 3. SAP_URL and SAP_CLIENT fill missing x-sap-url / x-sap-client one by one
+ * 4. UAA settings and user credentials are used as a group, and only when the
+ *    request sends none of the group and targets the environment system
+ *    (environment credentials are never sent to a system chosen by the request)
+ *
+ * Every environment value a header replaces is reported as ENV_OVERRIDDEN warning.
+ * Messages name headers and variables, never values.
+ */
+
+import {
+  HEADER_SAP_URL,
+  HEADER_SAP_CLIENT,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_SAP_REFRESH_TOKEN,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_PASSWORD,
+  HEADER_SAP_UAA_URL,
+  HEADER_UAA_URL,
+  HEADER_SAP_UAA_CLIENT_ID,
+  HEADER_UAA_CLIENT_ID,
+  HEADER_SAP_UAA_CLIENT_SECRET,
+  HEADER_UAA_CLIENT_SECRET,
+  HEADER_SAP_DESTINATION_SERVICE,
+  HEADER_MCP_DESTINATION,
+} from '@mcp-abap-adt/interfaces';
+import type { HeaderValidationOptions, HeaderValidationResult, ValidatedAuthConfig } from './types';
+import { collectHeaderValues, getHeaderValue, type HeaderSource, type NormalizedHeaders } from './headerSource';
+import { validateAuthHeaders } from './headerValidator';
+import { createAuthMethodRegistry, isAuthMethodRequested } from './authMethods';
+import { HEADER_AUTHORIZATION } from './authorization';
+import { DiagnosticCode, createWarning, toDiagnosticSet, type ValidationDiagnostic } from './diagnostics';
+
+const DEFAULT_AUTH_METHODS = createAuthMethodRegistry();
+
+/**
+ * Environment variables - process.env or parseEnvFile output
+ */
+export type EnvSource = Readonly<Record<string, string | undefined>>;
+
+/**
+ * Where a config field came from
+ * - header: request header (including a mapped Authorization header)
+ * - env: environment variable
+ * - destination: destination file (only when destinationResolver is set)
+ */
+export type ConfigFieldSource = 'header' | 'env' | 'destination';
+
+/**
+ * Config fields with provenance
+ */
+export type ProvenanceField =
+  | 'sapUrl'
+  | 'sapClient'
+  | 'destination'
+  | 'authType'
+  | 'username'
+  | 'password'
+  | 'jwtToken'
+  | 'refreshToken'
+  | 'uaaUrl'
+  | 'uaaClientId'
+  | 'uaaClientSecret';
+
+export interface EffectiveAuthConfigResult extends HeaderValidationResult {
+  /** Source of every set config field */
+  provenance: Partial<Record<ProvenanceField, ConfigFieldSource>>;
+}
+
+/**
+ * Connection variables, merged one by one
+ */
+export const ENV_CONNECTION_VARIABLES: Readonly<Record<string, string>> = {
+  SAP_URL: HEADER_SAP_URL,
+  SAP_CLIENT: HEADER_SAP_CLIENT,
+};
+
+/**
+ * UAA variables (token refresh), merged as a group
+ */
+export const ENV_UAA_VARIABLES: Readonly<Record<string, string>> = {
+  SAP_UAA_URL: HEADER_SAP_UAA_URL,
+  SAP_UAA_CLIENT_ID: HEADER_SAP_UAA_CLIENT_ID,
+  SAP_UAA_CLIENT_SECRET: HEADER_SAP_UAA_CLIENT_SECRET,
+};
+
+/**
+ * Credential variables, merged as a group
+ */
+export const ENV_CREDENTIAL_VARIABLES: Readonly<Record<string, string>> = {
+  SAP_AUTH_TYPE: HEADER_SAP_AUTH_TYPE,
+  SAP_JWT_TOKEN: HEADER_SAP_JWT_TOKEN,
+  SAP_REFRESH_TOKEN: HEADER_SAP_REFRESH_TOKEN,
+  SAP_USERNAME: HEADER_SAP_LOGIN,
+  SAP_PASSWORD: HEADER_SAP_PASSWORD,
+};
+
+/**
+ * Headers a request may send instead of the group headers (x-uaa-* aliases)
+ */
+const GROUP_ALIAS_HEADERS: readonly string[] = [HEADER_UAA_URL, HEADER_UAA_CLIENT_ID, HEADER_UAA_CLIENT_SECRET];
+
+const FIELD_HEADERS: Readonly<Record<ProvenanceField, readonly string[]>> = {
+  sapUrl: [HEADER_SAP_URL],
+  sapClient: [HEADER_SAP_CLIENT],
+  destination: [HEADER_SAP_DESTINATION_SERVICE, HEADER_MCP_DESTINATION],
+  authType: [HEADER_SAP_AUTH_TYPE],
+  username: [HEADER_SAP_LOGIN],
+  password: [HEADER_SAP_PASSWORD],
+  jwtToken: [HEADER_SAP_JWT_TOKEN],
+  refreshToken: [HEADER_SAP_REFRESH_TOKEN],
+  uaaUrl: [HEADER_SAP_UAA_URL, HEADER_UAA_URL],
+  uaaClientId: [HEADER_SAP_UAA_CLIENT_ID, HEADER_UAA_CLIENT_ID],
+  uaaClientSecret: [HEADER_SAP_UAA_CLIENT_SECRET, HEADER_UAA_CLIENT_SECRET],
+};
+
+/**
+ * Fields loaded from destination files (see ResolvedDestination)
+ */
+const DESTINATION_FIELDS: readonly ProvenanceField[] = ['sapUrl', 'sapClient', 'uaaUrl', 'uaaClientId', 'uaaClientSecret'];
+
+function readEnvValue(env: EnvSource, variable: string): string | undefined {
+  const value = env[variable]?.trim();
+  return value ? value : undefined;
+}
+
+function joinNames(names: readonly string[]): string {
+  return names.join(', ');
+}
+
+/**
+ * Merge environment group (UAA settings or credentials) into headers
+ */
+function mergeEnvGroup(
+  variables: Readonly<Record<string, string>>,
+  env: EnvSource,
+  requestHeaders: NormalizedHeaders,
+  requestGroupHeaders: readonly string[],
+  merged: Record<string, string[]>,
+  fromEnv: string[],
+  diagnostics: ValidationDiagnostic[],
+  otherSystem: boolean
+): void {
+  const envVariables = Object.keys(variables).filter(variable => readEnvValue(env, variable) !== undefined);
+  if (envVariables.length === 0) {
+    return;
+  }
+
+  // Same values as the environment don't override it
+  const overriding = requestGroupHeaders.filter(header => {
+    const variable = Object.keys(variables).find(name => variables[name] === header);
+    return getHeaderValue(requestHeaders, header) !== undefined
+      && (variable === undefined || getHeaderValue(requestHeaders, header) !== readEnvValue(env, variable));
+  });
+
+  if (otherSystem) {
+    diagnostics.push(createWarning(
+      DiagnosticCode.ENV_OVERRIDDEN,
+      `${joinNames(envVariables)} from environment not used (${HEADER_SAP_URL} overrides SAP_URL)`,
+      [HEADER_SAP_URL]
+    ));
+    return;
+  }
+  if (overriding.length > 0) {
+    diagnostics.push(createWarning(
+      DiagnosticCode.ENV_OVERRIDDEN,
+      `${joinNames(overriding)} override${overriding.length === 1 ? 's' : ''} ${joinNames(envVariables)} from environment`,
+      overriding
+    ));
+    return;
+  }
+
+  for (const variable of envVariables) {
+    const header = variables[variable];
+    if (getHeaderValue(requestHeaders, header) === undefined) {
+      merged[header] = [readEnvValue(env, variable)!];
+      fromEnv.push(header);
+    }
+  }
+}
+
+/**
+ * Source of each set config field
+ */
+function configProvenance(
+  config: ValidatedAuthConfig,
+  requestHeaders: NormalizedHeaders,
+  fromEnv: readonly string[]
+): Partial<Record<ProvenanceField, ConfigFieldSource>> {
+  const provenance: Partial<Record<ProvenanceField, ConfigFieldSource>> = {};
+  for (const field of Object.keys(FIELD_HEADERS) as ProvenanceField[]) {
+    if (!config[field]) {
+      continue;
+    }
+    const headers = FIELD_HEADERS[field];
+    const sentInRequest = headers.some(header => getHeaderValue(requestHeaders, header) !== undefined);
+    if (config.destinationFile && DESTINATION_FIELDS.includes(field) && (field === 'sapUrl' || !sentInRequest)) {
+      // x-sap-url is ignored with destinations, x-sap-client overrides the destination file
+      provenance[field] = 'destination';
+    } else if (!sentInRequest && headers.some(header => fromEnv.includes(header))) {
+      provenance[field] = 'env';
+    } else {
+      provenance[field] = 'header';
+    }
+  }
+  return provenance;
+}
+
+/**
+ * Validate request headers merged with environment defaults
+ *
+ * @example
+ * const result = resolveEffectiveAuthConfig(req.headers, process.env);
+ * // result.provenance: { sapUrl: 'env', authType: 'header', jwtToken: 'header' }
+ *
+ * @param headers Request headers (undefined: environment only)
+ * @param env Environment variables (process.env or parseEnvFile output)
+ * @param options Validation options
+ * @returns Validation result of merged headers with per-field provenance
+ */
+export function resolveEffectiveAuthConfig(
+  headers: HeaderSource | undefined,
+  env: EnvSource,
+  options: HeaderValidationOptions = {}
+): EffectiveAuthConfigResult {
+  // Collected values keep repeated headers for duplicate detection
+  const merged = headers ? collectHeaderValues(headers) : {};
+  const requestHeaders: NormalizedHeaders = { ...merged };
+  const fromEnv: string[] = [];
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  const registry = options.authMethods ?? DEFAULT_AUTH_METHODS;
+  const standalone = registry.methods.find(method => !method.authTypes && isAuthMethodRequested(method, requestHeaders));
+  if (standalone) {
+    const envVariables = Object.keys({ ...ENV_CONNECTION_VARIABLES, ...ENV_UAA_VARIABLES, ...ENV_CREDENTIAL_VARIABLES })
+      .filter(variable => readEnvValue(env, variable) !== undefined);
+    if (envVariables.length > 0) {
+      const triggers = standalone.triggerHeaders.filter(header => getHeaderValue(requestHeaders, header) !== undefined);
+      diagnostics.push(createWarning(
+        DiagnosticCode.ENV_OVERRIDDEN,
+        `${joinNames(envVariables)} from environment not used (${joinNames(triggers)} selects ${standalone.name})`,
+        triggers
+      ));
+    }
+  } else {
+    for (const [variable, header] of Object.entries(ENV_CONNECTION_VARIABLES)) {
+      const envValue = readEnvValue(env, variable);
+      const requestValue = getHeaderValue(requestHeaders, header);
+      if (envValue === undefined) {
+        continue;
+      }
+      if (requestValue === undefined) {
+        merged[header] = [envValue];
+        fromEnv.push(header);
+      } else if (requestValue !== envValue) {
+        diagnostics.push(createWarning(DiagnosticCode.ENV_OVERRIDDEN, `${header} overrides ${variable} from environment`, [header]));
+      }
+    }
+
+    const requestSapUrl = getHeaderValue(requestHeaders, HEADER_SAP_URL);
+    const otherSystem = requestSapUrl !== undefined && requestSapUrl !== readEnvValue(env, 'SAP_URL');
+    mergeEnvGroup(
+      ENV_UAA_VARIABLES, env, requestHeaders,
+      [...Object.values(ENV_UAA_VARIABLES), ...GROUP_ALIAS_HEADERS],
+      merged, fromEnv, diagnostics, otherSystem
+    );
+    mergeEnvGroup(
+      ENV_CREDENTIAL_VARIABLES, env, requestHeaders,
+      [...Object.values(ENV_CREDENTIAL_VARIABLES), ...(options.authorization ? [HEADER_AUTHORIZATION] : [])],
+      merged, fromEnv, diagnostics, otherSystem
+    );
+  }
+
+  const result = validateAuthHeaders(merged, options);
+
+  if (result.trace && fromEnv.length > 0) {
+    result.trace.unshift({
+      kind: 'check',
+      subject: 'environment',
+      headers: fromEnv,
+      outcome: 'passed',
+      reason: 'missing headers taken from environment',
+    });
+  }
+
+  const envDiagnostics = options.strict
+    ? diagnostics.map(d => ({ ...d, severity: 'error' as const }))
+    : diagnostics;
+  const diagnosticSet = toDiagnosticSet([...envDiagnostics, ...result.diagnostics]);
+  return {
+    ...result,
+    isValid: result.isValid && diagnosticSet.errors.length === 0,
+    ...diagnosticSet,
+    provenance: result.config ? configProvenance(result.config, requestHeaders, fromEnv) : {},
+  };
+}
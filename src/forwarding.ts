@@ -0,0 +1,188 @@
+/**
+ * Upstream headers for proxy forwarding
+ *
+ * Computes the header set a proxy sends to the MCP server:
+ * - Proxy-only headers (x-btp-destination, x-mcp-url) are removed - the same headers
+ *   isMcpServerRequest treats as proxy-specific
+ * - Hop-by-hop headers (RFC 9110 section 7.6.1) and headers listed in Connection are removed
+ * - Credential headers are removed when the policy asks for it
+ * - Headers for the next hop are injected, replacing incoming headers of the same name
+ *
+ * x-mcp-destination is kept: it is the SAP destination passed through to the MCP server.
+ */
+
+import {
+  HEADER_BTP_DESTINATION,
+  HEADER_MCP_URL,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_SAP_REFRESH_TOKEN,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_PASSWORD,
+  HEADER_SAP_UAA_URL,
+  HEADER_UAA_URL,
+  HEADER_SAP_UAA_CLIENT_ID,
+  HEADER_UAA_CLIENT_ID,
+  HEADER_SAP_UAA_CLIENT_SECRET,
+  HEADER_UAA_CLIENT_SECRET,
+} from '@mcp-abap-adt/interfaces';
+import { normalizeHeaders, type HeaderSource, type NormalizedHeaders } from './headerSource';
+import { HEADER_AUTHORIZATION } from './authorization';
+import { HEADER_SAP_CLIENT_CERTIFICATE } from './clientCertificateHeader';
+import { HEADER_SAP_LOGON_TICKET } from './logonTicket';
+import { HEADER_SAP_SAML_ASSERTION } from './saml';
+
+/**
+ * Headers only the proxy reads
+ */
+export const PROXY_ONLY_HEADERS: readonly string[] = [HEADER_BTP_DESTINATION, HEADER_MCP_URL];
+
+/**
+ * Connection-specific headers that must not be forwarded
+ * host is included: the upstream connection sets its own
+ */
+export const HOP_BY_HOP_HEADERS: readonly string[] = [
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'proxy-connection',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+  'host',
+];
+
+/**
+ * Headers that carry or complete credentials (removed with stripCredentials)
+ * x-sap-auth-type is included, so a stripped request does not select a method without credentials
+ */
+export const CREDENTIAL_HEADERS: readonly string[] = [
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_SAP_REFRESH_TOKEN,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_PASSWORD,
+  HEADER_SAP_UAA_URL,
+  HEADER_SAP_UAA_CLIENT_ID,
+  HEADER_SAP_UAA_CLIENT_SECRET,
+  HEADER_UAA_URL,
+  HEADER_UAA_CLIENT_ID,
+  HEADER_UAA_CLIENT_SECRET,
+  HEADER_SAP_CLIENT_CERTIFICATE,
+  HEADER_SAP_LOGON_TICKET,
+  HEADER_SAP_SAML_ASSERTION,
+  HEADER_AUTHORIZATION,
+  'cookie',
+];
+
+/**
+ * Why a header was not forwarded
+ * - proxy: proxy-only header
+ * - hop-by-hop: connection-specific header
+ * - credential: credential header (stripCredentials)
+ * - policy: listed in removeHeaders
+ * - replaced: replaced by injected header
+ */
+export type HeaderRemovalReason = 'proxy' | 'hop-by-hop' | 'credential' | 'policy' | 'replaced';
+
+export interface HeaderRemoval {
+  header: string;
+  reason: HeaderRemovalReason;
+}
+
+/**
+ * Forwarding policy
+ */
+export interface ForwardingPolicy {
+  /** Remove credential headers, e.g. when the proxy injects its own (default: false) */
+  stripCredentials?: boolean;
+  /** Additional headers to remove */
+  removeHeaders?: readonly string[];
+  /** Headers for the next hop; they replace incoming headers of the same name */
+  injectHeaders?: HeaderSource;
+}
+
+/**
+ * Outgoing headers with report of what was removed, kept and added
+ */
+export interface UpstreamHeaders {
+  /** Outgoing headers (lowercase names) */
+  headers: NormalizedHeaders;
+  removed: HeaderRemoval[];
+  /** Incoming headers forwarded unchanged */
+  kept: string[];
+  /** Injected headers */
+  added: string[];
+}
+
+/**
+ * Header names listed in Connection header
+ */
+function connectionHeaders(headers: NormalizedHeaders): string[] {
+  const connection = headers.connection;
+  return (Array.isArray(connection) ? connection : connection ? [connection] : [])
+    .flatMap(value => value.split(','))
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name.length > 0);
+}
+
+/**
+ * Compute headers a proxy sends to the MCP server
+ *
+ * @example
+ * const upstream = buildUpstreamHeaders(req.headers, {
+ *   stripCredentials: true,
+ *   injectHeaders: { 'x-sap-destination': route.sapDestination },
+ * });
+ * fetch(route.mcpUrl, { headers: upstream.headers });
+ *
+ * @param headers Incoming headers
+ * @param policy Forwarding policy
+ * @returns Outgoing headers and report
+ */
+export function buildUpstreamHeaders(headers?: HeaderSource, policy: ForwardingPolicy = {}): UpstreamHeaders {
+  const incoming = normalizeHeaders(headers ?? {});
+  const injected = normalizeHeaders(policy.injectHeaders ?? {});
+
+  const hopByHop = new Set([...HOP_BY_HOP_HEADERS, ...connectionHeaders(incoming)]);
+  const credentials = new Set(policy.stripCredentials ? CREDENTIAL_HEADERS : []);
+  const removeHeaders = new Set((policy.removeHeaders ?? []).map(name => name.toLowerCase()));
+
+  const removalReason = (name: string): HeaderRemovalReason | undefined => {
+    if (PROXY_ONLY_HEADERS.includes(name)) {
+      return 'proxy';
+    }
+    if (hopByHop.has(name)) {
+      return 'hop-by-hop';
+    }
+    if (credentials.has(name)) {
+      return 'credential';
+    }
+    if (removeHeaders.has(name)) {
+      return 'policy';
+    }
+    if (Object.prototype.hasOwnProperty.call(injected, name)) {
+      return 'replaced';
+    }
+    return undefined;
+  };
+
+  const result: UpstreamHeaders = { headers: {}, removed: [], kept: [], added: [] };
+  for (const [name, value] of Object.entries(incoming)) {
+    const reason = removalReason(name);
+    if (reason) {
+      result.removed.push({ header: name, reason });
+    } else {
+      result.headers[name] = value;
+      result.kept.push(name);
+    }
+  }
+  for (const [name, value] of Object.entries(injected)) {
+    result.headers[name] = value;
+    result.added.push(name);
+  }
+
+  return result;
+}
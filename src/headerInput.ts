@@ -0,0 +1,237 @@
+/**
+ * Header input parsing for diagnosis tools
+ *
+ * Reads headers from the forms users paste when reporting problems:
+ * - "Name: value" lines (command-line arguments)
+ * - curl command line (-H/--header, -u/--user, -b/--cookie, --oauth2-bearer)
+ * - Raw HTTP request (optional request line, header lines up to the first empty line)
+ * - JSON object ({"x-sap-url": "...", "accept": ["a", "b"]})
+ *
+ * Repeated headers are kept as arrays, so duplicates remain visible to validation.
+ */
+
+import type { HeaderRecord } from './headerSource';
+
+export type HeaderInputFormat = 'lines' | 'curl' | 'http' | 'json';
+
+export interface HeaderInputResult {
+  headers?: HeaderRecord;
+  /** Detected or requested format */
+  format?: HeaderInputFormat;
+  error?: string;
+}
+
+const HEADER_LINE_PATTERN = /^([!#$%&'*+.^_`|~0-9A-Za-z-]+):[ \t]*(.*?)[ \t]*$/;
+const REQUEST_LINE_PATTERN = /^[A-Z]+ \S+ HTTP\/\d(?:\.\d)?$/;
+
+function addHeader(headers: HeaderRecord, name: string, value: string): void {
+  const existing = headers[name];
+  if (existing === undefined) {
+    headers[name] = value;
+  } else {
+    headers[name] = [...(Array.isArray(existing) ? existing : [existing]), value];
+  }
+}
+
+/**
+ * Parse "Name: value" lines
+ *
+ * @param lines Header lines
+ * @returns Headers or error for the first line that is not a header
+ */
+export function parseHeaderLines(lines: readonly string[]): HeaderInputResult {
+  const headers: HeaderRecord = {};
+  for (const line of lines) {
+    const match = HEADER_LINE_PATTERN.exec(line);
+    if (!match) {
+      return { error: `not a "Name: value" header: ${line}` };
+    }
+    addHeader(headers, match[1], match[2]);
+  }
+  return { headers, format: 'lines' };
+}
+
+/**
+ * Split shell command line into words (single/double quotes, backslash escapes and continuations)
+ */
+function splitShellWords(command: string): string[] | undefined {
+  const words: string[] = [];
+  let word: string | undefined;
+  let quote: '"' | "'" | undefined;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote === "'") {
+      if (char === "'") {
+        quote = undefined;
+      } else {
+        word += char;
+      }
+    } else if (char === '\\') {
+      const next = command[++i];
+      if (next === '\n' || next === '\r') {
+        // Line continuation (also \r\n)
+        if (next === '\r' && command[i + 1] === '\n') {
+          i++;
+        }
+        continue;
+      }
+      if (next === undefined) {
+        return undefined;
+      }
+      word = (word ?? '') + (quote === '"' && !'"\\$`'.includes(next) ? `\\${next}` : next);
+    } else if (quote === '"') {
+      if (char === '"') {
+        quote = undefined;
+      } else {
+        word += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      word = word ?? '';
+    } else if (/\s/.test(char)) {
+      if (word !== undefined) {
+        words.push(word);
+        word = undefined;
+      }
+    } else {
+      word = (word ?? '') + char;
+    }
+  }
+
+  if (quote) {
+    return undefined;
+  }
+  if (word !== undefined) {
+    words.push(word);
+  }
+  return words;
+}
+
+/**
+ * Parse headers from curl command line
+ * -u/--user becomes Authorization: Basic, --oauth2-bearer becomes Authorization: Bearer,
+ * -b/--cookie with name=value pairs becomes Cookie. The URL and other options are ignored.
+ *
+ * @param command curl command line
+ * @returns Headers or error
+ */
+export function parseCurlCommand(command: string): HeaderInputResult {
+  const words = splitShellWords(command.trim());
+  if (!words) {
+    return { error: 'curl command has an unterminated quote or escape' };
+  }
+  if (words[0] !== 'curl') {
+    return { error: 'curl command must start with "curl"' };
+  }
+
+  const headers: HeaderRecord = {};
+  for (let i = 1; i < words.length; i++) {
+    const word = words[i];
+    const [option, inlineValue] = word.startsWith('--') && word.includes('=')
+      ? [word.slice(0, word.indexOf('=')), word.slice(word.indexOf('=') + 1)]
+      : /^-[Hub]./.test(word) ? [word.slice(0, 2), word.slice(2)] : [word, undefined];
+    if (!['-H', '--header', '-u', '--user', '-b', '--cookie', '--oauth2-bearer'].includes(option)) {
+      continue;
+    }
+
+    const value = inlineValue ?? words[++i];
+    if (value === undefined) {
+      return { error: `curl option ${option} has no value` };
+    }
+    if (option === '-H' || option === '--header') {
+      const match = HEADER_LINE_PATTERN.exec(value);
+      if (!match) {
+        return { error: `curl ${option} value is not a "Name: value" header: ${value}` };
+      }
+      addHeader(headers, match[1], match[2]);
+    } else if (option === '-u' || option === '--user') {
+      const bytes = new TextEncoder().encode(value);
+      addHeader(headers, 'Authorization', `Basic ${btoa(String.fromCharCode(...bytes))}`);
+    } else if (option === '--oauth2-bearer') {
+      addHeader(headers, 'Authorization', `Bearer ${value}`);
+    } else if (value.includes('=')) {
+      // -b without "=" names a cookie file
+      addHeader(headers, 'Cookie', value);
+    }
+  }
+  return { headers, format: 'curl' };
+}
+
+/**
+ * Parse headers from raw HTTP request
+ * Request line is optional; parsing stops at the first empty line (body is ignored).
+ * Obsolete line folding (continuation lines starting with whitespace) is unfolded.
+ *
+ * @param request Raw HTTP request
+ * @returns Headers or error
+ */
+export function parseHttpRequest(request: string): HeaderInputResult {
+  const lines = request.replace(/^\s*\n/, '').split(/\r?\n/);
+  if (REQUEST_LINE_PATTERN.test(lines[0] ?? '')) {
+    lines.shift();
+  }
+
+  const headerLines: string[] = [];
+  for (const line of lines) {
+    if (line.trim() === '') {
+      break;
+    }
+    if (/^[ \t]/.test(line) && headerLines.length > 0) {
+      headerLines[headerLines.length - 1] += ` ${line.trim()}`;
+    } else {
+      headerLines.push(line);
+    }
+  }
+
+  const result = parseHeaderLines(headerLines);
+  return result.error ? result : { headers: result.headers, format: 'http' };
+}
+
+/**
+ * Parse headers from JSON object (string or string array values)
+ *
+ * @param json JSON text
+ * @returns Headers or error
+ */
+export function parseHeaderJson(json: string): HeaderInputResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return { error: `JSON is invalid: ${(error as Error).message}` };
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'JSON must be an object of header names and values' };
+  }
+
+  const headers: HeaderRecord = {};
+  for (const [name, headerValue] of Object.entries(value)) {
+    if (typeof headerValue === 'string') {
+      headers[name] = headerValue;
+    } else if (Array.isArray(headerValue) && headerValue.every(item => typeof item === 'string')) {
+      headers[name] = headerValue;
+    } else {
+      return { error: `JSON value of header ${name} must be a string or an array of strings` };
+    }
+  }
+  return { headers, format: 'json' };
+}
+
+/**
+ * Parse pasted input, detecting its format
+ * JSON object, curl command line, or raw HTTP request / header lines
+ *
+ * @param input Pasted text
+ * @returns Headers or error
+ */
+export function parseHeaderInput(input: string): HeaderInputResult {
+  const text = input.trim();
+  if (text.startsWith('{')) {
+    return parseHeaderJson(text);
+  }
+  if (/^curl\s/.test(text)) {
+    return parseCurlCommand(text);
+  }
+  return parseHttpRequest(text);
+}
@@ -0,0 +1,121 @@
+/**
+ * Header source abstraction
+ *
+ * Validators accept headers from different runtimes:
+ * - Node.js IncomingHttpHeaders (req.headers)
+ * - Plain records: Record<string, string | string[]>
+ * - WHATWG Fetch API Headers (Streamable HTTP transport, edge runtimes)
+ * - Map<string, string | string[]>
+ *
+ * All sources are normalized to a plain record with lowercase names, so
+ * validation results are identical regardless of the source.
+ * No node:http types are needed at runtime.
+ */
+
+/**
+ * Plain header record (IncomingHttpHeaders is assignable to it)
+ */
+export type HeaderRecord = Record<string, string | string[] | undefined>;
+
+/**
+ * Iterable header collection - WHATWG Headers or Map
+ */
+export interface IterableHeaders {
+  forEach(callback: (value: string | string[], name: string) => void): void;
+}
+
+/**
+ * Any supported header source
+ */
+export type HeaderSource = HeaderRecord | IterableHeaders;
+
+/**
+ * Normalized headers: lowercase names, undefined values removed
+ */
+export type NormalizedHeaders = Record<string, string | string[]>;
+
+function isIterableHeaders(source: HeaderSource): source is IterableHeaders {
+  return typeof (source as IterableHeaders).forEach === 'function';
+}
+
+/**
+ * Normalize header source to plain record with lowercase names
+ *
+ * If the same header is present in different cases, the lowercase name wins
+ * (Node.js normalizes to lowercase).
+ *
+ * @param source Headers from any supported source
+ * @returns Plain record with lowercase header names
+ */
+export function normalizeHeaders(source: HeaderSource): NormalizedHeaders {
+  const normalized: NormalizedHeaders = {};
+
+  const add = (name: string, value: string | string[] | undefined) => {
+    if (value === undefined || value === null) {
+      return;
+    }
+    const key = name.toLowerCase();
+    if (key in normalized && key !== name) {
+      return;
+    }
+    normalized[key] = Array.isArray(value) ? value.map(String) : String(value);
+  };
+
+  if (isIterableHeaders(source)) {
+    source.forEach((value, name) => add(name, value));
+  } else {
+    for (const name of Object.keys(source)) {
+      add(name, source[name]);
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Extract header value (first value of arrays, trimmed)
+ * Header names are normalized to lowercase by normalizeHeaders
+ *
+ * @param headers Normalized headers
+ * @param name Header name (any case)
+ * @returns Trimmed value, or undefined if header is absent
+ */
+export function getHeaderValue(headers: NormalizedHeaders, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  if (!value) {
+    return undefined;
+  }
+  if (Array.isArray(value)) {
+    return value[0]?.trim();
+  }
+  return String(value).trim();
+}
+
+/**
+ * Collect every value of every header, including arrays and names that differ only in case
+ * normalizeHeaders keeps one variant; this shows what was actually sent (duplicate detection).
+ *
+ * @param source Headers from any supported source
+ * @returns All values by lowercase header name
+ */
+export function collectHeaderValues(source: HeaderSource): Record<string, string[]> {
+  const collected: Record<string, string[]> = {};
+
+  const add = (name: string, value: string | string[] | undefined) => {
+    if (value === undefined || value === null) {
+      return;
+    }
+    const key = name.toLowerCase();
+    (collected[key] ??= []).push(...(Array.isArray(value) ? value.map(String) : [String(value)]));
+  };
+
+  if (isIterableHeaders(source)) {
+    source.forEach((value, name) => add(name, value));
+  } else {
+    for (const name of Object.keys(source)) {
+      add(name, source[name]);
+    }
+  }
+
+  return collected;
+}
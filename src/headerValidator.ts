@@ -7,512 +7,585 @@
  * 
  * MCP authentication headers are validated and prioritized according to:
  * 1. Destination-based auth (x-sap-destination, x-mcp-destination) - highest priority
- * 2. Direct JWT token (x-sap-jwt-token) - medium priority
- * 3. Basic auth (x-sap-login + x-sap-password) - lowest priority
+ * 2. X.509 client certificate (x-sap-client-cert) - opt-in, not registered by default
+ * 3. SAML bearer assertion (x-sap-saml-assertion)
+ * 4. Direct JWT token (x-sap-jwt-token) - medium priority
+ * 5. SAP logon ticket (x-sap-logon-ticket or MYSAPSSO2 cookie)
+ * 6. Basic auth (x-sap-login + x-sap-password) - lowest priority
+ *
+ * Methods are plugins (see authMethods.ts); custom methods and X.509 (X509_AUTH_METHOD
+ * from the ./node entry) are added with createAuthMethodRegistry.
  */
 
-import { IncomingHttpHeaders } from 'http';
-import type { AuthType } from '@mcp-abap-adt/interfaces';
 import {
   AuthMethodPriority,
-  type IValidatedAuthConfig,
-  type IHeaderValidationResult,
   HEADER_SAP_DESTINATION_SERVICE,
   HEADER_MCP_DESTINATION,
   HEADER_BTP_DESTINATION,
   HEADER_MCP_URL,
   HEADER_SAP_CLIENT,
-  HEADER_SAP_LOGIN,
-  HEADER_SAP_PASSWORD,
   HEADER_SAP_URL,
   HEADER_SAP_JWT_TOKEN,
   HEADER_SAP_AUTH_TYPE,
-  HEADER_SAP_REFRESH_TOKEN,
-  HEADER_SAP_UAA_URL,
-  HEADER_UAA_URL,
-  HEADER_SAP_UAA_CLIENT_ID,
-  HEADER_UAA_CLIENT_ID,
-  HEADER_SAP_UAA_CLIENT_SECRET,
-  HEADER_UAA_CLIENT_SECRET,
   AUTH_TYPE_JWT,
   AUTH_TYPE_BASIC,
   AUTH_TYPE_XSUAA,
 } from '@mcp-abap-adt/interfaces';
 
 // Re-export for backward compatibility
-import type { ValidatedAuthConfig, HeaderValidationResult } from './types';
+import type {
+  ValidatedAuthConfig,
+  ValidatedAuthType,
+  HeaderValidationResult,
+  HeaderValidationOptions,
+  ProxyHeaderValidationOptions,
+} from './types';
+import { normalizeHeaders, getHeaderValue, type HeaderSource, type NormalizedHeaders } from './headerSource';
+import { sanitizeHeaderValue, makeConfigRedacting } from './redaction';
+import { checkUrlPolicy, isValidUrl } from './urlPolicy';
+import { mapAuthorizationHeader, HEADER_AUTHORIZATION } from './authorization';
+import { createAuthTraceBuilder, type AuthTraceBuilder } from './decisionTrace';
+import { checkDuplicateHeaders, SINGLE_VALUE_PROXY_HEADERS } from './duplicateHeaders';
+import { checkUnknownHeaders, KNOWN_HEADERS } from './unknownHeaders';
+import { AUTH_TYPE_LOGON_TICKET } from './logonTicket';
+import { AUTH_TYPE_SAML } from './saml';
+import {
+  EXTENDED_AUTH_METHOD_PRIORITY,
+  createAuthMethodRegistry,
+  toAuthMethodPriority,
+  destinationNameError,
+  isAuthMethodRequested,
+  joinHeaders,
+  missingCredentialsErrors,
+  type AuthMethodContext,
+  type AuthMethodPlugin,
+} from './authMethods';
+import {
+  DiagnosticCode,
+  createError,
+  createWarning,
+  toDiagnosticSet,
+  type ValidationDiagnostic,
+} from './diagnostics';
 
 /**
- * Extract header value (handles array values)
- * Node.js normalizes headers to lowercase, but check both cases for safety
+ * SAP client number: three digits (000-999)
  */
-function getHeaderValue(headers: IncomingHttpHeaders, name: string): string | undefined {
-  // Try lowercase first (Node.js normalizes to lowercase)
-  let value = headers[name.toLowerCase()];
-  // If not found, try original case (for compatibility)
-  if (!value) {
-    value = headers[name];
-  }
-  if (!value) {
-    return undefined;
-  }
-  if (Array.isArray(value)) {
-    return value[0]?.trim();
-  }
-  return String(value).trim();
-}
+const SAP_CLIENT_PATTERN = /^\d{3}$/;
 
 /**
- * Validate URL format
+ * Default order in which authentication methods are selected (highest priority first)
+ * X.509 is not listed; without options.methodOrder every registered method, X509_AUTH_METHOD included, is enabled
  */
-function isValidUrl(url: string): boolean {
-  try {
-    const parsed = new URL(url);
-    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
-  } catch {
-    return false;
-  }
-}
+export const DEFAULT_AUTH_METHOD_ORDER: readonly number[] = [
+  AuthMethodPriority.SAP_DESTINATION,
+  AuthMethodPriority.MCP_DESTINATION,
+  EXTENDED_AUTH_METHOD_PRIORITY.SAML,
+  AuthMethodPriority.DIRECT_JWT,
+  EXTENDED_AUTH_METHOD_PRIORITY.LOGON_TICKET,
+  AuthMethodPriority.BASIC,
+];
 
 /**
- * Validate SAP destination-based authentication (highest priority)
- * x-sap-destination - uses AuthBroker, JWT only, no auth-type needed
- * URL is taken from destination (service key or .env), not from x-sap-url header
+ * Default accepted x-sap-auth-type values
+ * x509 is accepted once X509_AUTH_METHOD (./node entry) is registered
  */
-function validateSapDestinationAuth(
-  headers: IncomingHttpHeaders
-): ValidatedAuthConfig | null {
-  // Check both lowercase and original case (Node.js normalizes to lowercase, but check both for safety)
-  const destinationRaw = headers[HEADER_SAP_DESTINATION_SERVICE.toLowerCase()] || headers[HEADER_SAP_DESTINATION_SERVICE];
-  if (!destinationRaw) {
-    return null;
-  }
-  
-  const destination = getHeaderValue(headers, HEADER_SAP_DESTINATION_SERVICE);
-  
-  const errors: string[] = [];
-  const warnings: string[] = [];
-
-  // Validate destination name (check if empty after trim)
-  if (!destination || destination.length === 0) {
-    errors.push(`${HEADER_SAP_DESTINATION_SERVICE} header is empty`);
-    return {
-      priority: AuthMethodPriority.NONE,
-      authType: AUTH_TYPE_JWT, // SAP destination always uses JWT
-      sapUrl: '', // URL will be loaded from destination
-      errors,
-      warnings,
-    };
-  }
-
-  // Extract optional SAP client
-  const sapClient = getHeaderValue(headers, HEADER_SAP_CLIENT);
-
-  // Optional: x-sap-login and x-sap-password (for cloud systems)
-  const username = getHeaderValue(headers, HEADER_SAP_LOGIN);
-  const password = getHeaderValue(headers, HEADER_SAP_PASSWORD);
-
-  // Warning if x-sap-url is provided (URL comes from destination, not header)
-  const sapUrl = getHeaderValue(headers, HEADER_SAP_URL);
-  if (sapUrl) {
-    warnings.push(`${HEADER_SAP_URL} is ignored when ${HEADER_SAP_DESTINATION_SERVICE} is present (URL is loaded from destination service key or .env file)`);
-  }
-
-  // Warning if direct JWT token is also provided (destination takes priority)
-  const jwtToken = getHeaderValue(headers, HEADER_SAP_JWT_TOKEN);
-  if (jwtToken) {
-    warnings.push(`${HEADER_SAP_JWT_TOKEN} is ignored when ${HEADER_SAP_DESTINATION_SERVICE} is present (destination-based auth takes priority)`);
-  }
-
-  // Warning if auth-type is provided (not needed for x-sap-destination)
-  const authType = getHeaderValue(headers, HEADER_SAP_AUTH_TYPE);
-  if (authType) {
-    warnings.push(`${HEADER_SAP_AUTH_TYPE} is ignored when ${HEADER_SAP_DESTINATION_SERVICE} is present (always uses JWT)`);
-  }
+export const DEFAULT_AUTH_TYPES: readonly ValidatedAuthType[] = [
+  AUTH_TYPE_JWT,
+  AUTH_TYPE_XSUAA,
+  AUTH_TYPE_BASIC,
+  AUTH_TYPE_LOGON_TICKET,
+  AUTH_TYPE_SAML,
+];
 
-  return {
-    priority: AuthMethodPriority.SAP_DESTINATION,
-    authType: AUTH_TYPE_JWT, // Always JWT for x-sap-destination
-    sapUrl: '', // URL will be loaded from destination (service key or .env)
-    sapClient,
-    destination,
-    username,
-    password,
-    errors,
-    warnings,
-  };
-}
+const DEFAULT_AUTH_METHODS = createAuthMethodRegistry();
 
 /**
- * Validate MCP destination-based authentication (medium-high priority)
- * x-mcp-destination - uses AuthBroker, always JWT (no x-sap-auth-type needed)
- * URL is taken from destination (service key or .env), not from x-sap-url header
- * x-sap-url is optional - if provided, it will be ignored (warning issued)
+ * Registered methods and enabled method order for options
  */
-function validateMcpDestinationAuth(
-  headers: IncomingHttpHeaders,
-  sapUrl?: string
-): ValidatedAuthConfig | null {
-  // Check both lowercase and original case (Node.js normalizes to lowercase, but check both for safety)
-  const destinationRaw = headers[HEADER_MCP_DESTINATION.toLowerCase()] || headers[HEADER_MCP_DESTINATION];
-  if (!destinationRaw) {
-    return null;
-  }
-  
-  const destination = getHeaderValue(headers, HEADER_MCP_DESTINATION);
-
-  const errors: string[] = [];
-  const warnings: string[] = [];
-
-  // Validate destination name (check if empty after trim)
-  if (!destination || destination.length === 0) {
-    errors.push(`${HEADER_MCP_DESTINATION} header is empty`);
-    return {
-      priority: AuthMethodPriority.NONE,
-      authType: AUTH_TYPE_JWT, // MCP destination always uses JWT
-      sapUrl: '', // URL will be loaded from destination
-      errors,
-      warnings,
-    };
-  }
-
-  // Warning if x-sap-url is provided (URL comes from destination, not header)
-  if (sapUrl) {
-    warnings.push(`${HEADER_SAP_URL} is ignored when ${HEADER_MCP_DESTINATION} is present (URL is loaded from destination service key or .env file)`);
-  }
-
-  // Warning if x-sap-auth-type is provided (not needed for x-mcp-destination)
-  const authType = getHeaderValue(headers, HEADER_SAP_AUTH_TYPE);
-  if (authType) {
-    warnings.push(`${HEADER_SAP_AUTH_TYPE} is ignored when ${HEADER_MCP_DESTINATION} is present (always uses JWT)`);
-  }
-
-  // Extract optional SAP client
-  const sapClient = getHeaderValue(headers, HEADER_SAP_CLIENT);
-
-  // Warning if direct JWT token is also provided (destination takes priority)
-  const jwtToken = getHeaderValue(headers, HEADER_SAP_JWT_TOKEN);
-  if (jwtToken) {
-    warnings.push(`${HEADER_SAP_JWT_TOKEN} is ignored when ${HEADER_MCP_DESTINATION} is present (destination-based auth takes priority)`);
-  }
-
-  return {
-    priority: AuthMethodPriority.MCP_DESTINATION,
-    authType: AUTH_TYPE_JWT, // Always JWT for x-mcp-destination
-    sapUrl: '', // URL will be loaded from destination (service key or .env)
-    sapClient,
-    destination,
-    errors,
-    warnings,
-  };
+function resolveAuthMethods(options: HeaderValidationOptions): { methods: readonly AuthMethodPlugin[]; methodOrder: readonly number[] } {
+  const registry = options.authMethods ?? DEFAULT_AUTH_METHODS;
+  const methodOrder = options.methodOrder ?? registry.methods.map(method => method.priority).sort((a, b) => b - a);
+  return { methods: registry.methods, methodOrder };
 }
 
 /**
- * Validate direct JWT authentication (medium priority)
- * 
- * For authorization, only x-sap-jwt-token is required.
- * UAA headers (x-sap-uaa-url, x-sap-uaa-client-id, x-sap-uaa-client-secret) are optional
- * and only used for token refresh - they are a separate set of headers.
+ * Record method of selected config; priority becomes an AuthMethodPriority value and rank keeps the method priority
+ * Failed configs (priority NONE) keep their priority
  */
-function validateDirectJwtAuth(
-  headers: IncomingHttpHeaders,
-  sapUrl: string,
-  authType: AuthType
-): ValidatedAuthConfig | null {
-  if (authType !== AUTH_TYPE_JWT && authType !== AUTH_TYPE_XSUAA) {
-    return null;
-  }
-
-  const jwtToken = getHeaderValue(headers, HEADER_SAP_JWT_TOKEN);
-  
-  if (!jwtToken) {
-    return null;
-  }
-
-  const errors: string[] = [];
-  const warnings: string[] = [];
-
-  // Validate JWT token format (basic check - should start with eyJ)
-  if (jwtToken.length < 10) {
-    errors.push(`${HEADER_SAP_JWT_TOKEN} appears to be invalid (too short)`);
-  }
-
-  // Extract optional refresh token
-  const refreshToken = getHeaderValue(headers, HEADER_SAP_REFRESH_TOKEN);
-  
-  // Extract optional UAA config (for token refresh only - separate set of headers)
-  // These are optional and don't affect authorization validation
-  const uaaUrl = getHeaderValue(headers, HEADER_SAP_UAA_URL) || getHeaderValue(headers, HEADER_UAA_URL);
-  const uaaClientId = getHeaderValue(headers, HEADER_SAP_UAA_CLIENT_ID) || getHeaderValue(headers, HEADER_UAA_CLIENT_ID);
-  const uaaClientSecret = getHeaderValue(headers, HEADER_SAP_UAA_CLIENT_SECRET) || getHeaderValue(headers, HEADER_UAA_CLIENT_SECRET);
-  
-  // Validate UAA config completeness if any UAA header is present
-  if (uaaUrl || uaaClientId || uaaClientSecret) {
-    if (!uaaUrl || !uaaClientId || !uaaClientSecret) {
-      warnings.push(`UAA headers (${HEADER_SAP_UAA_URL}, ${HEADER_SAP_UAA_CLIENT_ID}, ${HEADER_SAP_UAA_CLIENT_SECRET}) should be provided together for token refresh`);
-    }
+function assignAuthMethod(method: AuthMethodPlugin, config: ValidatedAuthConfig): void {
+  config.authMethod = method.id;
+  if (config.priority !== AuthMethodPriority.NONE) {
+    config.priority = toAuthMethodPriority(method.priority);
+    config.rank = method.priority;
   }
-  
-  // Extract optional SAP client
-  const sapClient = getHeaderValue(headers, HEADER_SAP_CLIENT);
-  
-  return {
-    priority: AuthMethodPriority.DIRECT_JWT,
-    authType,
-    sapUrl,
-    sapClient,
-    jwtToken,
-    refreshToken,
-    uaaUrl,
-    uaaClientId,
-    uaaClientSecret,
-    errors,
-    warnings,
-  };
 }
 
 /**
- * Validate basic authentication (lowest priority)
+ * Build result for standalone method (destination found, valid or not)
  */
-function validateBasicAuth(
-  headers: IncomingHttpHeaders,
-  sapUrl: string,
-  authType: AuthType
-): ValidatedAuthConfig | null {
-  if (authType !== AUTH_TYPE_BASIC) {
-    return null;
-  }
-
-  const usernameRaw = headers[HEADER_SAP_LOGIN.toLowerCase()] || headers[HEADER_SAP_LOGIN];
-  const passwordRaw = headers[HEADER_SAP_PASSWORD.toLowerCase()] || headers[HEADER_SAP_PASSWORD];
-  
-  if (!usernameRaw || !passwordRaw) {
-    return null;
-  }
-
-  const username = getHeaderValue(headers, HEADER_SAP_LOGIN);
-  const password = getHeaderValue(headers, HEADER_SAP_PASSWORD);
-
-  const errors: string[] = [];
-  const warnings: string[] = [];
-
-  // Validate username and password (check if empty after trim)
-  if (!username || username.length === 0) {
-    errors.push(`${HEADER_SAP_LOGIN} header is empty`);
-  }
-
-  if (!password || password.length === 0) {
-    errors.push(`${HEADER_SAP_PASSWORD} header is empty`);
-  }
-  
-  // Return config with errors if validation failed
-  if (errors.length > 0) {
+function standaloneResult(method: AuthMethodPlugin, config: ValidatedAuthConfig, trace?: AuthTraceBuilder): HeaderValidationResult {
+  // Destination found - URL comes from destination, not header
+  if (config.errors.length === 0) {
+    trace?.method(method, 'chosen', 'highest-priority method present');
+    trace?.stop(`${method.name} was chosen (higher priority)`);
+    assignAuthMethod(method, config);
     return {
-      priority: AuthMethodPriority.NONE,
-      authType,
-      sapUrl,
-      errors,
-      warnings,
+      isValid: true,
+      config,
+      ...toDiagnosticSet(config.diagnostics ?? []),
     };
   }
-
+  // Has errors - method was requested explicitly, so don't fall back to other methods
+  trace?.method(method, 'rejected', config.errors.join('; '));
+  trace?.stop(`${method.name} was rejected; no fallback to lower-priority methods`);
   return {
-    priority: AuthMethodPriority.BASIC,
-    authType,
-    sapUrl,
-    username,
-    password,
-    errors,
-    warnings,
+    isValid: false,
+    ...toDiagnosticSet(config.diagnostics ?? []),
   };
 }
 
+function disabledMethodError(method: AuthMethodPlugin, headers: readonly string[]): ValidationDiagnostic {
+  return createError(
+    DiagnosticCode.AUTH_METHOD_DISABLED,
+    `${method.name} authentication is disabled`,
+    [...headers]
+  );
+}
+
 /**
- * Validate and prioritize authentication headers
- * 
- * @param headers HTTP headers
- * @returns Validation result with prioritized authentication configuration
+ * Select authentication method from headers
+ *
+ * Methods are checked in `methodOrder`; the first requested standalone method
+ * (destination) wins. Credential methods (direct JWT, basic auth) share one path
+ * (x-sap-url + x-sap-auth-type), which is also used when no method is requested at all.
  */
-export function validateAuthHeaders(headers?: IncomingHttpHeaders): HeaderValidationResult {
-  // No headers provided - this is not an error, user may be using .env file
-  if (!headers) {
+function selectAuthMethod(
+  headers: NormalizedHeaders,
+  options: HeaderValidationOptions,
+  trace?: AuthTraceBuilder
+): HeaderValidationResult {
+  const { methods, methodOrder } = resolveAuthMethods(options);
+  const registry = options.authMethods ?? DEFAULT_AUTH_METHODS;
+  const standaloneMethods = methods.filter(method => !method.authTypes);
+  const credentialMethods = methods.filter(method => method.authTypes);
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  // Headers of disabled standalone methods are rejected, not silently ignored
+  const disabledMethods = standaloneMethods.filter(method =>
+    !methodOrder.includes(method.priority) && isAuthMethodRequested(method, headers)
+  );
+  if (disabledMethods.length > 0) {
+    for (const method of disabledMethods) {
+      trace?.method(method, 'disabled', 'headers present but method is not in methodOrder');
+    }
+    trace?.stop('a disabled method was requested');
     return {
       isValid: false,
-      errors: [],
-      warnings: [],
+      ...toDiagnosticSet(disabledMethods.map(method => disabledMethodError(method, method.triggerHeaders))),
     };
   }
 
-  const errors: string[] = [];
-  const warnings: string[] = [];
+  const sapUrl = getHeaderValue(headers, HEADER_SAP_URL);
 
-  // Check for SAP destination first (doesn't require x-sap-url)
-  const sapDestinationConfig = validateSapDestinationAuth(headers);
-  if (sapDestinationConfig) {
-    // SAP destination found - URL comes from destination, not header
-    if (sapDestinationConfig.errors.length === 0) {
-      return {
-        isValid: true,
-        config: sapDestinationConfig,
-        errors: [],
-        warnings: sapDestinationConfig.warnings,
-      };
-    } else {
-      // Has errors, continue to check other methods or return error
-      return {
-        isValid: false,
-        errors: sapDestinationConfig.errors,
-        warnings: sapDestinationConfig.warnings,
-      };
+  for (const priority of methodOrder) {
+    const method = registry.get(priority);
+    if (!method) {
+      continue;
     }
+    if (!isAuthMethodRequested(method, headers)) {
+      // Credential methods can still be selected by x-sap-auth-type
+      if (!method.authTypes) {
+        trace?.method(method, 'not-detected', `none of ${method.triggerHeaders.join(', ')} present`);
+      }
+      continue;
+    }
+    if (method.authTypes) {
+      // Credential method requested before any standalone method
+      break;
+    }
+    // Standalone methods don't require x-sap-url
+    const config = method.validate({ headers, sapUrl, options });
+    if (config) {
+      return standaloneResult(method, config, trace);
+    }
+    trace?.method(method, 'skipped', 'method did not accept the headers');
   }
 
-  // Check for MCP destination (doesn't require x-sap-url, URL comes from destination)
-  const sapUrl = getHeaderValue(headers, HEADER_SAP_URL);
-  const mcpDestinationConfig = validateMcpDestinationAuth(headers, sapUrl);
-  if (mcpDestinationConfig) {
-    // MCP destination found - URL comes from destination, not header
-    if (mcpDestinationConfig.errors.length === 0) {
-      return {
-        isValid: true,
-        config: mcpDestinationConfig,
-        errors: [],
-        warnings: mcpDestinationConfig.warnings,
-      };
-    } else {
-      // Has errors, continue to check other methods or return error
-      return {
-        isValid: false,
-        errors: mcpDestinationConfig.errors,
-        warnings: mcpDestinationConfig.warnings,
-      };
+  // Standalone method headers that lost to direct credentials (custom method order only)
+  for (const method of standaloneMethods.filter(method => isAuthMethodRequested(method, headers))) {
+    trace?.method(method, 'skipped', 'direct credentials take priority by configured method order');
+  }
+  for (const header of standaloneMethods.flatMap(method => method.triggerHeaders)) {
+    if (getHeaderValue(headers, header)) {
+      diagnostics.push(createWarning(
+        DiagnosticCode.HEADER_IGNORED,
+        `${header} is ignored (direct credentials take priority by configured method order)`,
+        [header]
+      ));
     }
   }
 
-  // For other auth methods, x-sap-url is required
+  // For credential methods, x-sap-url is required
   if (!sapUrl) {
     // If no auth headers at all, return empty result (not an error - may use .env file)
+    trace?.step('check', HEADER_SAP_URL, [HEADER_SAP_URL], 'failed', 'missing; credential methods are not evaluated');
+    trace?.stop(`${HEADER_SAP_URL} is missing`);
     return {
       isValid: false,
-      errors: [],
-      warnings: [],
+      ...toDiagnosticSet([]),
     };
   }
 
   // Validate URL format
   if (!isValidUrl(sapUrl)) {
-    errors.push(`${HEADER_SAP_URL} is not a valid URL: ${sapUrl}`);
+    diagnostics.push(createError(DiagnosticCode.SAP_URL_INVALID, `${HEADER_SAP_URL} is not a valid URL: ${sanitizeHeaderValue(sapUrl)}`, [HEADER_SAP_URL]));
+    trace?.step('check', HEADER_SAP_URL, [HEADER_SAP_URL], 'failed', 'not a valid URL');
+    trace?.stop(`${HEADER_SAP_URL} is invalid`);
     return {
       isValid: false,
-      errors,
-      warnings,
+      ...toDiagnosticSet(diagnostics),
     };
   }
 
-  // Try to validate authentication methods in priority order
-  const configs: ValidatedAuthConfig[] = [];
+  // Check URL policy (SSRF protection)
+  if (options.urlPolicy) {
+    const policyResult = checkUrlPolicy(sapUrl, options.urlPolicy);
+    if (!policyResult.allowed) {
+      diagnostics.push(createError(DiagnosticCode.SAP_URL_NOT_ALLOWED, `${HEADER_SAP_URL} is not allowed: ${policyResult.error}`, [HEADER_SAP_URL]));
+      trace?.step('check', 'urlPolicy', [HEADER_SAP_URL], 'failed', policyResult.error ?? 'not allowed');
+      trace?.stop(`${HEADER_SAP_URL} is not allowed by URL policy`);
+      return {
+        isValid: false,
+        ...toDiagnosticSet(diagnostics),
+      };
+    }
+  }
+
+  trace?.step('check', HEADER_SAP_URL, [HEADER_SAP_URL], 'passed', options.urlPolicy ? 'valid URL, allowed by URL policy' : 'valid URL');
 
-  // Check if basic auth headers are present (x-sap-login, x-sap-password)
-  // These should come together with x-sap-auth-type: basic
-  const hasSapLogin = !!getHeaderValue(headers, HEADER_SAP_LOGIN);
-  const hasSapPassword = !!getHeaderValue(headers, HEADER_SAP_PASSWORD);
-  const hasBasicAuthHeaders = hasSapLogin || hasSapPassword;
-  
-  if (hasBasicAuthHeaders && (!hasSapLogin || !hasSapPassword)) {
-    errors.push(`${HEADER_SAP_LOGIN} and ${HEADER_SAP_PASSWORD} must be provided together`);
+  // Header consistency checks (e.g. x-sap-login without x-sap-password)
+  for (const method of credentialMethods) {
+    diagnostics.push(...(method.checkHeaders?.({ headers, sapUrl, options }) ?? []));
   }
 
-  // 3. Other auth methods require x-sap-auth-type
+  const candidates: { method: AuthMethodPlugin; config: ValidatedAuthConfig }[] = [];
+
+  // Credential methods require x-sap-auth-type
   const sapAuthType = getHeaderValue(headers, HEADER_SAP_AUTH_TYPE);
   if (sapAuthType) {
     // Validate auth type
-    const validAuthTypes: AuthType[] = [AUTH_TYPE_JWT, AUTH_TYPE_XSUAA, AUTH_TYPE_BASIC];
-    const authType = sapAuthType.toLowerCase() as AuthType;
-    
-    if (!validAuthTypes.includes(authType)) {
-      errors.push(`${HEADER_SAP_AUTH_TYPE} must be one of: ${validAuthTypes.join(', ')}, got: ${sapAuthType}`);
-    } else {
-      // Check if basic auth headers are present but auth-type is not basic
-      if (hasBasicAuthHeaders && authType !== AUTH_TYPE_BASIC) {
-        warnings.push(`${HEADER_SAP_LOGIN} and ${HEADER_SAP_PASSWORD} are present but ${HEADER_SAP_AUTH_TYPE} is not "${AUTH_TYPE_BASIC}"`);
+    const validAuthTypes = options.authTypes
+      ?? [...new Set(credentialMethods.flatMap(method => method.authTypes!))];
+    const authType = sapAuthType.toLowerCase();
+    const methods = credentialMethods.filter(method => method.authTypes!.includes(authType));
+    const enabledMethods = methods.filter(method => methodOrder.includes(method.priority));
+    const context: AuthMethodContext = { headers, sapUrl, authType, options };
+
+    if (!validAuthTypes.includes(authType) || methods.length === 0) {
+      diagnostics.push(createError(
+        DiagnosticCode.AUTH_TYPE_INVALID,
+        `${HEADER_SAP_AUTH_TYPE} must be one of: ${validAuthTypes.join(', ')}, got: ${sanitizeHeaderValue(sapAuthType)}`,
+        [HEADER_SAP_AUTH_TYPE]
+      ));
+      trace?.step('check', HEADER_SAP_AUTH_TYPE, [HEADER_SAP_AUTH_TYPE], 'failed', `"${sanitizeHeaderValue(sapAuthType)}" is not accepted`);
+      trace?.stop(`${HEADER_SAP_AUTH_TYPE} is invalid`);
+    } else if (enabledMethods.length === 0) {
+      diagnostics.push(...methods.map(method => disabledMethodError(method, [HEADER_SAP_AUTH_TYPE])));
+      trace?.step('check', HEADER_SAP_AUTH_TYPE, [HEADER_SAP_AUTH_TYPE], 'failed', `"${authType}" selects disabled methods only`);
+      for (const method of methods) {
+        trace?.method(method, 'disabled', `selected by ${HEADER_SAP_AUTH_TYPE} "${authType}" but not in methodOrder`);
       }
-      
-      // Check if auth-type is basic but headers are missing
-      if (authType === AUTH_TYPE_BASIC && !hasBasicAuthHeaders) {
-        errors.push(`${HEADER_SAP_AUTH_TYPE} is "${AUTH_TYPE_BASIC}" but ${HEADER_SAP_LOGIN} and ${HEADER_SAP_PASSWORD} are missing`);
+      trace?.stop(`${HEADER_SAP_AUTH_TYPE} "${authType}" selects disabled methods only`);
+      return {
+        isValid: false,
+        ...toDiagnosticSet(diagnostics),
+      };
+    } else {
+      trace?.step('check', HEADER_SAP_AUTH_TYPE, [HEADER_SAP_AUTH_TYPE], 'passed', `"${authType}" selects ${methods.map(method => method.name).join(', ')}`);
+      for (const method of credentialMethods) {
+        diagnostics.push(...(method.checkAuthType?.(context) ?? []));
       }
-      
-      // Only validate direct JWT and basic auth if MCP destination is not present
-      // (MCP destination already handled above)
-      if (!mcpDestinationConfig) {
-        // 4. Direct JWT auth (medium priority)
-        const jwtConfig = validateDirectJwtAuth(headers, sapUrl, authType);
-        if (jwtConfig) {
-          configs.push(jwtConfig);
+
+      for (const method of enabledMethods) {
+        const config = method.validate(context);
+        if (config) {
+          candidates.push({ method, config });
         }
+      }
 
-        // 5. Basic auth (lowest priority)
-        const basicConfig = validateBasicAuth(headers, sapUrl, authType);
-        if (basicConfig) {
-          configs.push(basicConfig);
+      // No method accepted the credentials
+      if (candidates.length === 0) {
+        for (const method of enabledMethods) {
+          const errors = missingCredentialsErrors(method, context);
+          diagnostics.push(...errors);
+          trace?.method(method, 'rejected', errors.map(d => d.message).join('; ') || 'credentials missing');
         }
       }
+      trace?.stop(candidates.length > 0
+        ? 'auth method already selected'
+        : `${HEADER_SAP_AUTH_TYPE} "${authType}" selects another method`);
     }
   } else {
     // No auth-type provided
-    // If basic auth headers are present, auth-type must be basic
-    if (hasBasicAuthHeaders) {
-      errors.push(`${HEADER_SAP_AUTH_TYPE} must be "${AUTH_TYPE_BASIC}" when ${HEADER_SAP_LOGIN} and ${HEADER_SAP_PASSWORD} are present`);
-    } else if (!mcpDestinationConfig && !sapDestinationConfig) {
+    // Credentials of a single-type method (e.g. x-sap-login) tell which auth-type is missing
+    const requested = credentialMethods.find(method =>
+      method.authTypes!.length === 1 && isAuthMethodRequested(method, headers)
+    );
+    const standaloneHeaders = standaloneMethods.flatMap(method => method.triggerHeaders);
+    trace?.step('check', HEADER_SAP_AUTH_TYPE, [HEADER_SAP_AUTH_TYPE], 'failed', 'missing; credential methods are not evaluated');
+    trace?.stop(`${HEADER_SAP_AUTH_TYPE} is missing`);
+    if (requested) {
+      diagnostics.push(createError(
+        DiagnosticCode.AUTH_TYPE_REQUIRED,
+        `${HEADER_SAP_AUTH_TYPE} must be "${requested.authTypes![0]}" when ${joinHeaders(requested.triggerHeaders)} ${requested.triggerHeaders.length === 1 ? 'is' : 'are'} present`,
+        [HEADER_SAP_AUTH_TYPE, ...requested.triggerHeaders]
+      ));
+    } else if (standaloneHeaders.length > 0) {
       // No auth-type and no destination - error
-      errors.push(`${HEADER_SAP_AUTH_TYPE} header is required when ${HEADER_SAP_DESTINATION_SERVICE} and ${HEADER_MCP_DESTINATION} are not present`);
+      diagnostics.push(createError(
+        DiagnosticCode.AUTH_TYPE_REQUIRED,
+        `${HEADER_SAP_AUTH_TYPE} header is required when ${joinHeaders(standaloneHeaders)} ${standaloneHeaders.length === 1 ? 'is' : 'are'} not present`,
+        [HEADER_SAP_AUTH_TYPE]
+      ));
+    } else {
+      diagnostics.push(createError(DiagnosticCode.AUTH_TYPE_REQUIRED, `${HEADER_SAP_AUTH_TYPE} header is required`, [HEADER_SAP_AUTH_TYPE]));
     }
   }
 
   // No valid authentication method found
-  if (configs.length === 0) {
-    if (sapAuthType) {
-      const authType = sapAuthType.toLowerCase() as AuthType;
-      if (authType === AUTH_TYPE_JWT || authType === AUTH_TYPE_XSUAA) {
-        errors.push(`JWT authentication requires either ${HEADER_SAP_DESTINATION_SERVICE}, ${HEADER_MCP_DESTINATION}, or ${HEADER_SAP_JWT_TOKEN} header`);
-      } else if (authType === AUTH_TYPE_BASIC) {
-        errors.push(`Basic authentication requires ${HEADER_SAP_LOGIN} and ${HEADER_SAP_PASSWORD} headers`);
-      }
-    } else {
-      // Check if MCP destination was found but has errors
-      const mcpConfig = validateMcpDestinationAuth(headers, sapUrl);
-      if (mcpConfig && mcpConfig.errors.length > 0) {
-        errors.push(...mcpConfig.errors);
-      }
-    }
-    
+  if (candidates.length === 0) {
     return {
       isValid: false,
-      errors,
-      warnings,
+      ...toDiagnosticSet(diagnostics),
     };
   }
 
-  // Select highest priority configuration
-  const selectedConfig = configs.reduce((prev, current) => 
-    current.priority > prev.priority ? current : prev
+  // Select configuration that comes first in method order (failed configs have priority NONE)
+  const rank = ({ method, config }: { method: AuthMethodPlugin; config: ValidatedAuthConfig }) => {
+    const index = config.priority === AuthMethodPriority.NONE ? -1 : methodOrder.indexOf(method.priority);
+    return index === -1 ? methodOrder.length : index;
+  };
+  const selected = candidates.reduce((prev, current) =>
+    rank(current) < rank(prev) ? current : prev
   );
 
-  // Check for conflicts (multiple auth methods with same priority shouldn't happen, but check anyway)
-  const samePriorityConfigs = configs.filter(c => c.priority === selectedConfig.priority);
-  if (samePriorityConfigs.length > 1) {
-    warnings.push(`Multiple authentication methods with same priority detected, using: ${AuthMethodPriority[selectedConfig.priority]}`);
+  // Several registered methods accept the same x-sap-auth-type
+  if (candidates.length > 1) {
+    diagnostics.push(createWarning(
+      DiagnosticCode.AUTH_METHOD_CONFLICT,
+      `Multiple authentication methods accept ${HEADER_SAP_AUTH_TYPE} "${sanitizeHeaderValue(sapAuthType!)}" (${candidates.map(({ method }) => method.name).join(', ')}), using: ${selected.method.name}`,
+      [HEADER_SAP_AUTH_TYPE]
+    ));
+  }
+
+  const selectedConfig = selected.config;
+  assignAuthMethod(selected.method, selectedConfig);
+  trace?.method(
+    selected.method,
+    'chosen',
+    selectedConfig.errors.length > 0 ? `selected with errors: ${selectedConfig.errors.join('; ')}` : 'credentials accepted'
+  );
+  for (const { method } of candidates) {
+    trace?.method(method, 'skipped', `${selected.method.name} comes first in method order`);
   }
 
   // Merge errors and warnings
-  const allErrors = [...errors, ...selectedConfig.errors];
-  const allWarnings = [...warnings, ...selectedConfig.warnings];
+  const allDiagnostics = toDiagnosticSet([...diagnostics, ...(selectedConfig.diagnostics ?? [])]);
 
   return {
-    isValid: allErrors.length === 0,
+    isValid: allDiagnostics.errors.length === 0,
     config: selectedConfig,
-    errors: allErrors,
-    warnings: allWarnings,
+    ...allDiagnostics,
+  };
+}
+
+/**
+ * Add diagnostics of preprocessing steps (e.g. Authorization mapping) to result
+ */
+function prependDiagnostics(result: HeaderValidationResult, diagnostics: ValidationDiagnostic[]): HeaderValidationResult {
+  if (diagnostics.length === 0) {
+    return result;
+  }
+  const diagnosticSet = toDiagnosticSet([...diagnostics, ...result.diagnostics]);
+  return {
+    ...result,
+    isValid: result.isValid && diagnosticSet.errors.length === 0,
+    ...diagnosticSet,
+  };
+}
+
+/**
+ * Apply header syntax checks and deployment policies to selection result
+ * - client number must have three digits
+ * - requireSapClient: selected config must have a client number
+ * Both check config.sapClient, which may come from x-sap-client or a resolved destination
+ * - strict: every warning becomes an error
+ */
+function applyPolicies(
+  headers: NormalizedHeaders,
+  result: HeaderValidationResult,
+  options: HeaderValidationOptions,
+  trace?: AuthTraceBuilder
+): HeaderValidationResult {
+  let diagnostics = result.diagnostics;
+
+  const sapClient = result.config?.sapClient;
+  if (sapClient && !SAP_CLIENT_PATTERN.test(sapClient)) {
+    const source = getHeaderValue(headers, HEADER_SAP_CLIENT) ? HEADER_SAP_CLIENT : `${HEADER_SAP_CLIENT} (from destination)`;
+    diagnostics = [
+      ...diagnostics,
+      createError(
+        DiagnosticCode.SAP_CLIENT_INVALID,
+        `${source} must be a three-digit client number, got: ${sanitizeHeaderValue(sapClient)}`,
+        [HEADER_SAP_CLIENT]
+      ),
+    ];
+    trace?.step('policy', HEADER_SAP_CLIENT, [HEADER_SAP_CLIENT], 'failed', 'not a three-digit client number');
+  }
+
+  if (options.requireSapClient && result.config && !sapClient) {
+    diagnostics = [
+      ...diagnostics,
+      createError(DiagnosticCode.SAP_CLIENT_REQUIRED, `${HEADER_SAP_CLIENT} header is required`, [HEADER_SAP_CLIENT]),
+    ];
+    trace?.step('policy', 'requireSapClient', [HEADER_SAP_CLIENT], 'failed', `${HEADER_SAP_CLIENT} is missing`);
+  }
+
+  if (options.strict) {
+    const warnings = diagnostics.filter(d => d.severity === 'warning').length;
+    diagnostics = diagnostics.map(d => d.severity === 'warning' ? { ...d, severity: 'error' as const } : d);
+    if (warnings > 0) {
+      trace?.step('policy', 'strict', [], 'failed', `${warnings} warning${warnings === 1 ? '' : 's'} reported as errors`);
+    }
+  }
+
+  if (diagnostics === result.diagnostics) {
+    return result;
+  }
+
+  const diagnosticSet = toDiagnosticSet(diagnostics);
+  return {
+    ...result,
+    isValid: result.isValid && diagnosticSet.errors.length === 0,
+    ...diagnosticSet,
+  };
+}
+
+/**
+ * Validate and prioritize authentication headers
+ * 
+ * @param headers HTTP headers
+ * @param options Validation options (JWT checks, method order, policies)
+ * @returns Validation result with prioritized authentication configuration
+ */
+export function validateAuthHeaders(
+  headers?: HeaderSource,
+  options: HeaderValidationOptions = {}
+): HeaderValidationResult {
+  // No headers provided - this is not an error, user may be using .env file
+  if (!headers) {
+    const { methods, methodOrder } = resolveAuthMethods(options);
+    return withTrace({
+      isValid: false,
+      ...toDiagnosticSet([]),
+    }, options.explain ? createAuthTraceBuilder(methods, methodOrder, {}) : undefined);
+  }
+
+  const normalized = normalizeHeaders(headers);
+
+  // Repeated headers and aliases with different values (first value would win silently)
+  const duplicates = checkDuplicateHeaders(headers);
+
+  // Standard Authorization header (opt-in)
+  const authorization = mapAuthorizationHeader(normalized, options.authorization);
+  const { methods, methodOrder } = resolveAuthMethods(options);
+  const trace = options.explain ? createAuthTraceBuilder(methods, methodOrder, authorization.headers) : undefined;
+  if (duplicates.length > 0) {
+    const conflict = duplicates.some(d => d.severity === 'error');
+    trace?.step(
+      'check',
+      'duplicate headers',
+      [...new Set(duplicates.flatMap(d => d.headers))],
+      conflict ? 'failed' : 'passed',
+      conflict ? 'headers sent with different values' : 'repeated headers have the same value'
+    );
+  }
+
+  // Misspelled headers are otherwise ignored silently
+  const unknown = checkUnknownHeaders(normalized, [
+    ...KNOWN_HEADERS,
+    ...methods.flatMap(method => [...method.triggerHeaders, ...method.requiredHeaders ?? [], ...method.optionalHeaders ?? []]),
+    ...options.knownHeaders ?? [],
+  ]);
+  if (unknown.length > 0) {
+    trace?.step('check', 'unknown headers', unknown.map(d => d.headers[0]), 'failed', 'not known headers, ignored');
+  }
+  if (authorization.usage) {
+    trace?.step('authorization', HEADER_AUTHORIZATION, [HEADER_AUTHORIZATION], 'passed', `${authorization.usage} (mode: ${options.authorization!.mode})`);
+  }
+  if (authorization.diagnostics.some(d => d.severity === 'error')) {
+    trace?.step('authorization', HEADER_AUTHORIZATION, [HEADER_AUTHORIZATION], 'failed', 'Authorization header is invalid');
+    trace?.stop('Authorization header is invalid');
+    return withTrace({
+      isValid: false,
+      ...toDiagnosticSet([...duplicates, ...unknown, ...authorization.diagnostics]),
+    }, trace);
+  }
+
+  const selected = prependDiagnostics(
+    selectAuthMethod(authorization.headers, options, trace),
+    [...duplicates, ...unknown, ...authorization.diagnostics]
+  );
+  const result = applyPolicies(authorization.headers, selected, options, trace);
+  if (authorization.usage && result.config) {
+    result.config.authorizationHeader = authorization.usage;
+  }
+  if (options.redactSecrets && result.config) {
+    makeConfigRedacting(result.config);
+  }
+  return withTrace(result, trace);
+}
+
+/**
+ * Attach finished decision trace to result (explain mode)
+ */
+function withTrace(result: HeaderValidationResult, trace?: AuthTraceBuilder): HeaderValidationResult {
+  if (trace) {
+    result.trace = trace.finish(result);
+  }
+  return result;
+}
+
+/**
+ * Header validator bound to deployment options
+ */
+export interface HeaderValidator {
+  readonly options: HeaderValidationOptions;
+  validateAuthHeaders(headers?: HeaderSource): HeaderValidationResult;
+}
+
+/**
+ * Create header validator with deployment-specific policies
+ * 
+ * `validateAuthHeaders` without options is the default-configured validator.
+ * 
+ * @example
+ * const validator = createHeaderValidator({
+ *   methodOrder: [AuthMethodPriority.SAP_DESTINATION, AuthMethodPriority.DIRECT_JWT], // basic auth disabled
+ *   requireSapClient: true,
+ *   strict: true,
+ * });
+ * const result = validator.validateAuthHeaders(req.headers);
+ * 
+ * @param options Validation options
+ * @returns Validator bound to options
+ */
+export function createHeaderValidator(options: HeaderValidationOptions = {}): HeaderValidator {
+  const boundOptions = { ...options };
+  return {
+    options: boundOptions,
+    validateAuthHeaders: (headers?: HeaderSource) => validateAuthHeaders(headers, boundOptions),
   };
 }
 
@@ -530,6 +603,7 @@ export interface ProxyHeaderValidationResult {
   hasMcpUrl: boolean;
   errors: string[];
   warnings: string[];
+  diagnostics: ValidationDiagnostic[];
 }
 
 /**
@@ -541,11 +615,14 @@ export interface ProxyHeaderValidationResult {
  * - x-mcp-url: Direct MCP server URL
  * 
  * @param headers HTTP headers
+ * @param options Validation options (URL policy for x-mcp-url)
  * @returns Validation result indicating which proxy headers are present
  */
-export function validateProxyHeaders(headers?: IncomingHttpHeaders): ProxyHeaderValidationResult {
-  const errors: string[] = [];
-  const warnings: string[] = [];
+export function validateProxyHeaders(
+  headers?: HeaderSource,
+  options: ProxyHeaderValidationOptions = {}
+): ProxyHeaderValidationResult {
+  const diagnostics: ValidationDiagnostic[] = [];
 
   if (!headers) {
     return {
@@ -553,14 +630,15 @@ export function validateProxyHeaders(headers?: IncomingHttpHeaders): ProxyHeader
       hasBtpDestination: false,
       hasMcpDestination: false,
       hasMcpUrl: false,
-      errors: [],
-      warnings: [],
+      ...toDiagnosticSet([]),
     };
   }
 
-  const btpDestination = getHeaderValue(headers, HEADER_BTP_DESTINATION);
-  const mcpDestination = getHeaderValue(headers, HEADER_MCP_DESTINATION);
-  const mcpUrl = getHeaderValue(headers, HEADER_MCP_URL);
+  const normalized = normalizeHeaders(headers);
+  diagnostics.push(...checkDuplicateHeaders(headers, SINGLE_VALUE_PROXY_HEADERS));
+  const btpDestination = getHeaderValue(normalized, HEADER_BTP_DESTINATION);
+  const mcpDestination = getHeaderValue(normalized, HEADER_MCP_DESTINATION);
+  const mcpUrl = getHeaderValue(normalized, HEADER_MCP_URL);
 
   const hasBtpDestination = !!btpDestination;
   const hasMcpDestination = !!mcpDestination;
@@ -568,33 +646,53 @@ export function validateProxyHeaders(headers?: IncomingHttpHeaders): ProxyHeader
 
   // Validate destination names if present
   if (hasBtpDestination && (!btpDestination || btpDestination.trim().length === 0)) {
-    errors.push(`${HEADER_BTP_DESTINATION} header is empty`);
+    diagnostics.push(createError(DiagnosticCode.HEADER_EMPTY, `${HEADER_BTP_DESTINATION} header is empty`, [HEADER_BTP_DESTINATION]));
+  } else if (hasBtpDestination) {
+    const nameError = destinationNameError(HEADER_BTP_DESTINATION, btpDestination!);
+    if (nameError) {
+      diagnostics.push(nameError);
+    }
   }
 
   if (hasMcpDestination && (!mcpDestination || mcpDestination.trim().length === 0)) {
-    errors.push(`${HEADER_MCP_DESTINATION} header is empty`);
+    diagnostics.push(createError(DiagnosticCode.HEADER_EMPTY, `${HEADER_MCP_DESTINATION} header is empty`, [HEADER_MCP_DESTINATION]));
+  } else if (hasMcpDestination) {
+    const nameError = destinationNameError(HEADER_MCP_DESTINATION, mcpDestination!);
+    if (nameError) {
+      diagnostics.push(nameError);
+    }
   }
 
   // Validate mcpUrl format if present
   if (hasMcpUrl) {
     if (!isValidUrl(mcpUrl!)) {
-      errors.push(`${HEADER_MCP_URL} is not a valid URL: ${mcpUrl}`);
+      diagnostics.push(createError(DiagnosticCode.MCP_URL_INVALID, `${HEADER_MCP_URL} is not a valid URL: ${sanitizeHeaderValue(mcpUrl!)}`, [HEADER_MCP_URL]));
+    } else if (options.urlPolicy) {
+      const policyResult = checkUrlPolicy(mcpUrl!, options.urlPolicy);
+      if (!policyResult.allowed) {
+        diagnostics.push(createError(DiagnosticCode.MCP_URL_NOT_ALLOWED, `${HEADER_MCP_URL} is not allowed: ${policyResult.error}`, [HEADER_MCP_URL]));
+      }
     }
   }
 
   // At least one proxy header should be present for proxy routing
   const hasAnyProxyHeader = hasBtpDestination || hasMcpDestination || hasMcpUrl;
   if (!hasAnyProxyHeader) {
-    warnings.push(`No proxy headers found (${HEADER_BTP_DESTINATION}, ${HEADER_MCP_DESTINATION}, or ${HEADER_MCP_URL})`);
+    diagnostics.push(createWarning(
+      DiagnosticCode.PROXY_HEADERS_MISSING,
+      `No proxy headers found (${HEADER_BTP_DESTINATION}, ${HEADER_MCP_DESTINATION}, or ${HEADER_MCP_URL})`,
+      [HEADER_BTP_DESTINATION, HEADER_MCP_DESTINATION, HEADER_MCP_URL]
+    ));
   }
 
+  const diagnosticSet = toDiagnosticSet(diagnostics);
+
   return {
-    isValid: errors.length === 0,
+    isValid: diagnosticSet.errors.length === 0,
     hasBtpDestination,
     hasMcpDestination,
     hasMcpUrl,
-    errors,
-    warnings,
+    ...diagnosticSet,
   };
 }
 
@@ -609,7 +707,7 @@ export function validateProxyHeaders(headers?: IncomingHttpHeaders): ProxyHeader
  * @param headers HTTP headers
  * @returns true if headers indicate a proxy request
  */
-export function isProxyRequest(headers?: IncomingHttpHeaders): boolean {
+export function isProxyRequest(headers?: HeaderSource): boolean {
   if (!headers) {
     return false;
   }
@@ -628,20 +726,22 @@ export function isProxyRequest(headers?: IncomingHttpHeaders): boolean {
  * @param headers HTTP headers
  * @returns true if headers indicate an MCP server request
  */
-export function isMcpServerRequest(headers?: IncomingHttpHeaders): boolean {
+export function isMcpServerRequest(headers?: HeaderSource): boolean {
   if (!headers) {
     return false;
   }
 
+  const normalized = normalizeHeaders(headers);
+
   // Check for MCP authentication headers
-  const hasSapDestination = !!getHeaderValue(headers, HEADER_SAP_DESTINATION_SERVICE);
-  const hasMcpDestination = !!getHeaderValue(headers, HEADER_MCP_DESTINATION);
-  const hasSapUrl = !!getHeaderValue(headers, HEADER_SAP_URL);
-  const hasSapJwtToken = !!getHeaderValue(headers, HEADER_SAP_JWT_TOKEN);
+  const hasSapDestination = !!getHeaderValue(normalized, HEADER_SAP_DESTINATION_SERVICE);
+  const hasMcpDestination = !!getHeaderValue(normalized, HEADER_MCP_DESTINATION);
+  const hasSapUrl = !!getHeaderValue(normalized, HEADER_SAP_URL);
+  const hasSapJwtToken = !!getHeaderValue(normalized, HEADER_SAP_JWT_TOKEN);
 
   // Check for proxy-specific headers
-  const hasBtpDestination = !!getHeaderValue(headers, HEADER_BTP_DESTINATION);
-  const hasMcpUrl = !!getHeaderValue(headers, HEADER_MCP_URL);
+  const hasBtpDestination = !!getHeaderValue(normalized, HEADER_BTP_DESTINATION);
+  const hasMcpUrl = !!getHeaderValue(normalized, HEADER_MCP_URL);
 
   // MCP server request has MCP auth headers but no proxy headers
   const hasMcpAuthHeaders = hasSapDestination || hasMcpDestination || hasSapUrl || hasSapJwtToken;
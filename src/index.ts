@@ -2,6 +2,8 @@
  * Header validator for MCP ABAP ADT
  * 
  * Validates and prioritizes authentication headers for MCP ABAP ADT servers
+ * Loads no Node.js built-ins; file and crypto based parts are in ./node
+ * (deprecated root re-exports of them load ./node on first use)
  */
 
 export { 
@@ -9,7 +11,235 @@ export {
   validateProxyHeaders,
   isProxyRequest,
   isMcpServerRequest,
+  createHeaderValidator,
+  DEFAULT_AUTH_METHOD_ORDER,
+  DEFAULT_AUTH_TYPES,
+  type HeaderValidator,
   type ProxyHeaderValidationResult,
 } from './headerValidator';
+export {
+  resolveProxyRoute,
+  type ProxyRoute,
+  type ProxyRouteResult,
+  type ProxyUpstreamType,
+} from './proxyRoute';
+export {
+  buildUpstreamHeaders,
+  PROXY_ONLY_HEADERS,
+  HOP_BY_HOP_HEADERS,
+  CREDENTIAL_HEADERS,
+  type ForwardingPolicy,
+  type UpstreamHeaders,
+  type HeaderRemoval,
+  type HeaderRemovalReason,
+} from './forwarding';
+export { serializeAuthConfig } from './serialization';
+export { formatAuthTrace } from './decisionTrace';
+export {
+  checkDuplicateHeaders,
+  SINGLE_VALUE_HEADERS,
+  SINGLE_VALUE_PROXY_HEADERS,
+  COMMA_JOINED_HEADERS,
+  HEADER_ALIASES,
+} from './duplicateHeaders';
+export {
+  checkUnknownHeaders,
+  suggestHeader,
+  KNOWN_HEADERS,
+  CHECKED_HEADER_PREFIXES,
+} from './unknownHeaders';
+export {
+  resolveEffectiveAuthConfig,
+  ENV_CONNECTION_VARIABLES,
+  ENV_UAA_VARIABLES,
+  ENV_CREDENTIAL_VARIABLES,
+  type EnvSource,
+  type ConfigFieldSource,
+  type ProvenanceField,
+  type EffectiveAuthConfigResult,
+} from './effectiveConfig';
+export {
+  validateMcpMeta,
+  validateInitializeParams,
+  validateStdioEnv,
+  headersFromMcpMeta,
+  headersFromInitializeParams,
+  headersFromStdioEnv,
+  MCP_META_HEADERS_KEY,
+  STDIO_ENV_VARIABLES,
+  type McpMeta,
+  type McpInitializeParams,
+} from './mcpSources';
+export {
+  validateAuthHeadersAsync,
+  createDestinationCheckResolver,
+  createTokenIntrospectionResolver,
+  createRevocationResolver,
+  createAllowlistResolver,
+  getAuthIdentity,
+  DEFAULT_RESOLVER_TIMEOUT_MS,
+  type AuthResolver,
+  type AuthResolverContext,
+  type AsyncHeaderValidationOptions,
+  type AuthIdentity,
+} from './asyncValidation';
+export {
+  auditTraffic,
+  createTrafficAudit,
+  readHarRequests,
+  readNdjsonRequests,
+  DEPRECATED_HEADERS,
+  DEFAULT_AUDIT_MAX_EXAMPLES,
+  type AuditRecord,
+  type AuditInput,
+  type AuditOptions,
+  type AuditReport,
+  type AuditDiagnosticStat,
+  type AuditStrictFailure,
+  type AuditDeprecatedHeaderStat,
+  type AuditClientStat,
+  type TrafficAudit,
+} from './audit';
+export {
+  parseHeaderInput,
+  parseHeaderLines,
+  parseCurlCommand,
+  parseHttpRequest,
+  parseHeaderJson,
+  type HeaderInputFormat,
+  type HeaderInputResult,
+} from './headerInput';
+export {
+  decodeJwt,
+  validateJwtClaims,
+  summarizeJwtClaims,
+  DEFAULT_JWT_CLOCK_SKEW_SECONDS,
+  SUPPORTED_JWT_ALGORITHMS,
+  type DecodedJwt,
+  type JwtDecodeResult,
+  type JwtClaimsValidationResult,
+} from './jwt';
+export {
+  HEADER_SAP_CLIENT_CERTIFICATE,
+  AUTH_TYPE_X509,
+  DEFAULT_CERTIFICATE_CLOCK_SKEW_SECONDS,
+} from './clientCertificateHeader';
+export type { ClientCertificateDecodeResult, ClientCertificateValidationResult } from './x509';
+export {
+  readLogonTicket,
+  decodeLogonTicket,
+  validateLogonTicket,
+  HEADER_SAP_LOGON_TICKET,
+  AUTH_TYPE_LOGON_TICKET,
+  LOGON_TICKET_COOKIE,
+  DEFAULT_LOGON_TICKET_CLOCK_SKEW_SECONDS,
+  type DecodedLogonTicket,
+  type LogonTicketDecodeResult,
+  type LogonTicketValidationResult,
+} from './logonTicket';
+export {
+  decodeSamlAssertion,
+  validateSamlAssertion,
+  HEADER_SAP_SAML_ASSERTION,
+  AUTH_TYPE_SAML,
+  DEFAULT_SAML_CLOCK_SKEW_SECONDS,
+  type DecodedSamlAssertion,
+  type SamlAssertionDecodeResult,
+  type SamlAssertionValidationResult,
+} from './saml';
+export type { JwtAlgorithm } from './jwt';
+export type {
+  JwtSignatureFailureReason,
+  JsonWebKeySet,
+  PemKey,
+  JwtKeySetSource,
+  JwtKey,
+  JwtKeySet,
+  JwtSignatureVerificationResult,
+} from './jwks';
+export {
+  createJwtKeySet,
+  verifyJwtSignature,
+  X509_AUTH_METHOD,
+  decodeClientCertificate,
+  validateClientCertificate,
+  summarizeClientCertificate,
+  createDestinationResolver,
+} from './nodeCompat';
+export {
+  createHeaderValidationMiddleware,
+  withHeaderValidation,
+  evaluateRequestHeaders,
+  getRequestHeaderValidation,
+  getValidationHttpStatus,
+  DEFAULT_REQUEST_PROPERTY,
+  type RequestHeaderKind,
+  type RequestHeaderValidation,
+  type HeaderValidationErrorBody,
+  type HeaderValidationMiddlewareOptions,
+  type WithHeaderValidationOptions,
+  type ValidationOutcome,
+  type NextFunction,
+} from './middleware';
+export {
+  DiagnosticCode,
+  type DiagnosticSeverity,
+  type ValidationDiagnostic,
+  type DiagnosticSet,
+} from './diagnostics';
+export {
+  createAuthMethodRegistry,
+  BUILTIN_AUTH_METHODS,
+  EXTENDED_AUTH_METHOD_PRIORITY,
+  toAuthMethodPriority,
+  type AuthMethodPlugin,
+  type AuthMethodContext,
+  type AuthMethodRegistry,
+} from './authMethods';
+export {
+  normalizeHeaders,
+  getHeaderValue,
+  collectHeaderValues,
+  type HeaderRecord,
+  type IterableHeaders,
+  type HeaderSource,
+  type NormalizedHeaders,
+} from './headerSource';
+export {
+  parseEnvFile,
+  validateDestinationName,
+  MAX_DESTINATION_NAME_LENGTH,
+  type DestinationSourceType,
+  type DestinationResolutionFailureReason,
+  type ResolvedDestination,
+  type DestinationResolution,
+  type DestinationResolver,
+} from './destinations';
+export type { DestinationResolverOptions } from './destinationResolver';
+export {
+  parseAuthorizationHeader,
+  HEADER_AUTHORIZATION,
+  type ParsedAuthorization,
+  type AuthorizationParseResult,
+} from './authorization';
+export {
+  checkUrlPolicy,
+  isPrivateHost,
+  matchesHostPattern,
+  type UrlPolicy,
+  type UrlPolicyViolation,
+  type UrlPolicyResult,
+} from './urlPolicy';
+export {
+  redactAuthConfig,
+  describeAuthConfig,
+  describeAuthResult,
+  redactToken,
+  redactJwt,
+  redactUrl,
+  REDACTED,
+  SECRET_CONFIG_FIELDS,
+  type RedactedAuthConfig,
+  type SecretConfigField,
+} from './redaction';
 export * from './types';
-
@@ -0,0 +1,237 @@
+/**
+ * Offline JWT signature verification
+ *
+ * Keys are supplied locally (JWKS file, PEM keys or in-memory JWKS) - no network
+ * access is performed at validation time. Multiple keys are supported for key
+ * rotation; the key is selected by the token's `kid` header.
+ *
+ * Supported algorithms: RS256, ES256
+ */
+
+import { readFileSync } from 'fs';
+import { createPublicKey, verify, type KeyObject, type JsonWebKey } from 'crypto';
+import { SUPPORTED_JWT_ALGORITHMS, type DecodedJwt, type JwtAlgorithm } from './jwt';
+
+export { SUPPORTED_JWT_ALGORITHMS, type JwtAlgorithm };
+
+/**
+ * Reason of signature verification failure
+ */
+export type JwtSignatureFailureReason =
+  | 'alg_missing'
+  | 'alg_none'
+  | 'unsupported_alg'
+  | 'unknown_kid'
+  | 'bad_signature';
+
+export interface JsonWebKeySet {
+  keys: JsonWebKey[];
+}
+
+/**
+ * PEM-encoded public key (or certificate)
+ */
+export interface PemKey {
+  pem: string;
+  kid?: string;
+  alg?: JwtAlgorithm;
+}
+
+/**
+ * Key sources for createJwtKeySet
+ */
+export interface JwtKeySetSource {
+  /** Path(s) to JWKS JSON files ({ "keys": [...] }) */
+  jwksFiles?: string | string[];
+  /** In-memory JWKS */
+  jwks?: JsonWebKeySet;
+  /** PEM public keys or certificates */
+  pemKeys?: Array<string | PemKey>;
+}
+
+export interface JwtKey {
+  kid?: string;
+  alg?: JwtAlgorithm;
+  key: KeyObject;
+}
+
+/**
+ * Prepared set of verification keys
+ * The validator calls verify, so validation modules don't load node:crypto themselves
+ */
+export interface JwtKeySet {
+  keys: JwtKey[];
+  /** Verify token signature against keys (see verifyJwtSignature) */
+  verify(jwt: DecodedJwt): JwtSignatureVerificationResult;
+}
+
+export interface JwtSignatureVerificationResult {
+  verified: boolean;
+  reason?: JwtSignatureFailureReason;
+  error?: string;
+  /** kid of the key that verified the signature */
+  kid?: string;
+  alg?: string;
+}
+
+function isSupportedAlgorithm(alg: unknown): alg is JwtAlgorithm {
+  return typeof alg === 'string' && (SUPPORTED_JWT_ALGORITHMS as readonly string[]).includes(alg);
+}
+
+function jwkToKey(jwk: JsonWebKey): JwtKey | null {
+  // Skip keys that are not meant for signature verification
+  if (jwk.use && jwk.use !== 'sig') {
+    return null;
+  }
+  if (jwk.kty !== 'RSA' && jwk.kty !== 'EC') {
+    return null;
+  }
+  return {
+    kid: typeof jwk.kid === 'string' ? jwk.kid : undefined,
+    alg: isSupportedAlgorithm(jwk.alg) ? jwk.alg : undefined,
+    key: createPublicKey({ key: jwk, format: 'jwk' }),
+  };
+}
+
+/**
+ * Create key set from local key sources
+ *
+ * Called once at startup; throws if a source cannot be read or parsed.
+ *
+ * @param source JWKS files, in-memory JWKS and/or PEM keys
+ * @returns Key set for JwtValidationOptions.keySet
+ */
+export function createJwtKeySet(source: JwtKeySetSource): JwtKeySet {
+  const keys: JwtKey[] = [];
+
+  const jwksFiles = source.jwksFiles === undefined
+    ? []
+    : Array.isArray(source.jwksFiles) ? source.jwksFiles : [source.jwksFiles];
+
+  const jwksList: JsonWebKeySet[] = [];
+  for (const file of jwksFiles) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(file, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to read JWKS file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!parsed || !Array.isArray((parsed as JsonWebKeySet).keys)) {
+      throw new Error(`JWKS file ${file} has no "keys" array`);
+    }
+    jwksList.push(parsed as JsonWebKeySet);
+  }
+  if (source.jwks) {
+    jwksList.push(source.jwks);
+  }
+
+  for (const jwks of jwksList) {
+    for (const jwk of jwks.keys) {
+      const key = jwkToKey(jwk);
+      if (key) {
+        keys.push(key);
+      }
+    }
+  }
+
+  for (const pemKey of source.pemKeys ?? []) {
+    const entry = typeof pemKey === 'string' ? { pem: pemKey } : pemKey;
+    keys.push({
+      kid: entry.kid,
+      alg: entry.alg,
+      key: createPublicKey(entry.pem),
+    });
+  }
+
+  const keySet: JwtKeySet = {
+    keys,
+    verify: jwt => verifyJwtSignature(jwt, keySet),
+  };
+  return keySet;
+}
+
+/**
+ * Check that key type matches algorithm (RS256 - RSA, ES256 - EC P-256)
+ */
+function isKeyCompatible(key: JwtKey, alg: JwtAlgorithm): boolean {
+  if (key.alg && key.alg !== alg) {
+    return false;
+  }
+  if (alg === 'RS256') {
+    return key.key.asymmetricKeyType === 'rsa';
+  }
+  return key.key.asymmetricKeyType === 'ec'
+    && key.key.asymmetricKeyDetails?.namedCurve === 'prime256v1';
+}
+
+function verifyWithKey(jwt: DecodedJwt, alg: JwtAlgorithm, key: JwtKey): boolean {
+  const data = Buffer.from(jwt.signingInput);
+  const signature = Buffer.from(jwt.signature, 'base64url');
+  try {
+    if (alg === 'RS256') {
+      return verify('sha256', data, key.key, signature);
+    }
+    // JWS ECDSA signatures are raw r || s, not DER
+    return verify('sha256', data, { key: key.key, dsaEncoding: 'ieee-p1363' }, signature);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify JWT signature against local key set
+ *
+ * Keys are selected by `kid` when the token has one; otherwise all keys
+ * compatible with the token algorithm are tried (key rotation without kid).
+ *
+ * @param jwt Decoded token (see decodeJwt)
+ * @param keySet Verification keys
+ * @returns Verification result with failure reason
+ */
+export function verifyJwtSignature(jwt: DecodedJwt, keySet: Pick<JwtKeySet, 'keys'>): JwtSignatureVerificationResult {
+  const alg = jwt.header.alg;
+  const kid = typeof jwt.header.kid === 'string' ? jwt.header.kid : undefined;
+
+  if (typeof alg !== 'string' || alg.length === 0) {
+    return { verified: false, reason: 'alg_missing', error: 'token header has no alg string' };
+  }
+
+  if (alg.toLowerCase() === 'none') {
+    return { verified: false, reason: 'alg_none', error: 'unsigned token (alg: none) is not accepted' };
+  }
+
+  if (!isSupportedAlgorithm(alg)) {
+    return {
+      verified: false,
+      reason: 'unsupported_alg',
+      alg,
+      error: `algorithm ${alg} is not supported (supported: ${SUPPORTED_JWT_ALGORITHMS.join(', ')})`,
+    };
+  }
+
+  const candidates = keySet.keys.filter(key =>
+    (kid === undefined || key.kid === undefined || key.kid === kid) && isKeyCompatible(key, alg)
+  );
+
+  if (candidates.length === 0) {
+    return {
+      verified: false,
+      reason: 'unknown_kid',
+      alg,
+      error: kid !== undefined
+        ? `no ${alg} key with kid "${kid}" in key set`
+        : `no ${alg} key in key set`,
+    };
+  }
+
+  // Prefer keys with exact kid match before keys without kid
+  candidates.sort((a, b) => Number(b.kid === kid) - Number(a.kid === kid));
+
+  for (const key of candidates) {
+    if (verifyWithKey(jwt, alg, key)) {
+      return { verified: true, alg, kid: key.kid ?? kid };
+    }
+  }
+
+  return { verified: false, reason: 'bad_signature', alg, error: 'signature does not match' };
+}
@@ -0,0 +1,244 @@
+/**
+ * JWT decoding and claim validation for direct JWT authentication
+ *
+ * Only structural checks and time-based claim checks are performed here:
+ * - Token must consist of three base64url segments (header.payload.signature)
+ * - Header and payload must decode to JSON objects
+ * - exp / nbf / iat are checked against the current time with a clock skew
+ *
+ * Signature verification is not part of decoding.
+ */
+
+import type { JwtClaimsSummary, JwtValidationOptions } from './types';
+import {
+  DiagnosticCode,
+  createError,
+  createWarning,
+  toDiagnosticSet,
+  type DiagnosticSet,
+  type ValidationDiagnostic,
+} from './diagnostics';
+
+/**
+ * Default clock skew (seconds) tolerated when checking exp/nbf/iat
+ */
+export const DEFAULT_JWT_CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * Algorithms supported by offline signature verification (jwks.ts)
+ */
+export const SUPPORTED_JWT_ALGORITHMS = ['RS256', 'ES256'] as const;
+export type JwtAlgorithm = typeof SUPPORTED_JWT_ALGORITHMS[number];
+
+/**
+ * Decoded (but not verified) JWT
+ */
+export interface DecodedJwt {
+  header: Record<string, unknown>;
+  payload: Record<string, unknown>;
+  /** Raw base64url signature segment */
+  signature: string;
+  /** `header.payload` part of the token, as signed by the issuer */
+  signingInput: string;
+}
+
+export interface JwtDecodeResult {
+  jwt?: DecodedJwt;
+  error?: string;
+}
+
+export type JwtClaimsValidationResult = DiagnosticSet;
+
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Decode base64url segment to bytes
+ * Uses atob so decoding works outside of Node.js as well
+ */
+export function base64UrlToBytes(segment: string): Uint8Array {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Decode base64url JSON segment (header or payload)
+ */
+function decodeJsonSegment(segment: string, name: string): { value?: Record<string, unknown>; error?: string } {
+  if (!BASE64URL_PATTERN.test(segment)) {
+    return { error: `${name} is not base64url encoded` };
+  }
+
+  let json: string;
+  try {
+    json = new TextDecoder('utf-8', { fatal: true }).decode(base64UrlToBytes(segment));
+  } catch {
+    return { error: `${name} is not base64url encoded` };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return { error: `${name} is not valid JSON` };
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: `${name} is not a JSON object` };
+  }
+
+  return { value: value as Record<string, unknown> };
+}
+
+/**
+ * Decode JWT without verifying its signature
+ *
+ * @param token Compact JWT (header.payload.signature)
+ * @returns Decoded token or error description
+ */
+export function decodeJwt(token: string): JwtDecodeResult {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    return { error: `expected 3 dot-separated segments, got ${segments.length}` };
+  }
+
+  const [headerSegment, payloadSegment, signature] = segments;
+
+  const header = decodeJsonSegment(headerSegment, 'header');
+  if (header.error) {
+    return { error: header.error };
+  }
+
+  const payload = decodeJsonSegment(payloadSegment, 'payload');
+  if (payload.error) {
+    return { error: payload.error };
+  }
+
+  if (signature.length > 0 && !BASE64URL_PATTERN.test(signature)) {
+    return { error: 'signature is not base64url encoded' };
+  }
+
+  return {
+    jwt: {
+      header: header.value!,
+      payload: payload.value!,
+      signature,
+      signingInput: `${headerSegment}.${payloadSegment}`,
+    },
+  };
+}
+
+function formatEpoch(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+/**
+ * Read numeric date claim (seconds since epoch)
+ * Returns null if claim is present but not a number
+ */
+function readNumericDate(payload: Record<string, unknown>, claim: string): number | undefined | null {
+  const value = payload[claim];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Validate time-based JWT claims (exp, nbf, iat)
+ *
+ * @param payload Decoded JWT payload
+ * @param options Clock skew and time source
+ * @returns Diagnostics for expired, not-yet-valid or malformed claims
+ */
+export function validateJwtClaims(
+  payload: Record<string, unknown>,
+  options: JwtValidationOptions = {}
+): JwtClaimsValidationResult {
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  const skew = options.clockSkewSeconds ?? DEFAULT_JWT_CLOCK_SKEW_SECONDS;
+  const now = Math.floor((options.now ? options.now() : Date.now()) / 1000);
+
+  const exp = readNumericDate(payload, 'exp');
+  const nbf = readNumericDate(payload, 'nbf');
+  const iat = readNumericDate(payload, 'iat');
+
+  if (exp === null) {
+    diagnostics.push(createError(DiagnosticCode.JWT_CLAIM_INVALID, '"exp" claim must be a number'));
+  } else if (exp === undefined) {
+    diagnostics.push(createWarning(DiagnosticCode.JWT_NO_EXPIRY, 'token has no "exp" claim and never expires'));
+  } else if (exp + skew <= now) {
+    diagnostics.push(createError(DiagnosticCode.JWT_EXPIRED, `token expired at ${formatEpoch(exp)}`));
+  }
+
+  if (nbf === null) {
+    diagnostics.push(createError(DiagnosticCode.JWT_CLAIM_INVALID, '"nbf" claim must be a number'));
+  } else if (nbf !== undefined && nbf - skew > now) {
+    diagnostics.push(createError(DiagnosticCode.JWT_NOT_YET_VALID, `token is not valid before ${formatEpoch(nbf)}`));
+  }
+
+  if (iat === null) {
+    diagnostics.push(createError(DiagnosticCode.JWT_CLAIM_INVALID, '"iat" claim must be a number'));
+  } else if (iat !== undefined && iat - skew > now) {
+    diagnostics.push(createError(DiagnosticCode.JWT_ISSUED_IN_FUTURE, `token is issued in the future (${formatEpoch(iat)})`));
+  }
+
+  return toDiagnosticSet(diagnostics);
+}
+
+function readString(payload: Record<string, unknown>, ...claims: string[]): string | undefined {
+  for (const claim of claims) {
+    const value = payload[claim];
+    if (typeof value === 'string' && value.length > 0) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extract claims relevant for SAP authentication from JWT payload
+ *
+ * Zone/tenant is taken from XSUAA (`zid`) or IAS (`zone_uuid`, `app_tid`) claims.
+ */
+export function summarizeJwtClaims(payload: Record<string, unknown>): JwtClaimsSummary {
+  const aud = payload.aud;
+  let audience: string[] | undefined;
+  if (typeof aud === 'string') {
+    audience = [aud];
+  } else if (Array.isArray(aud)) {
+    audience = aud.filter((value): value is string => typeof value === 'string');
+  }
+
+  const extAttr = payload.ext_attr;
+  const subdomain = extAttr && typeof extAttr === 'object'
+    ? readString(extAttr as Record<string, unknown>, 'zdn')
+    : undefined;
+
+  const numeric = (claim: string): number | undefined => {
+    const value = readNumericDate(payload, claim);
+    return value === null ? undefined : value;
+  };
+
+  return {
+    subject: readString(payload, 'sub'),
+    issuer: readString(payload, 'iss'),
+    audience,
+    userName: readString(payload, 'user_name', 'email'),
+    clientId: readString(payload, 'client_id', 'cid', 'azp'),
+    zoneId: readString(payload, 'zid', 'zone_uuid', 'app_tid'),
+    subdomain,
+    expiresAt: numeric('exp'),
+    notBefore: numeric('nbf'),
+    issuedAt: numeric('iat'),
+  };
+}
@@ -0,0 +1,272 @@
+/**
+ * SAP logon ticket (MYSAPSSO2) decoding and expiry check
+ *
+ * Logon tickets are passed in x-sap-logon-ticket or, when that header is absent,
+ * in the MYSAPSSO2 cookie. The value is base64 with `!` instead of `+`, often
+ * URL-encoded. Only structural checks are performed:
+ * - Value must decode to a version 2 ticket with a four-digit code page
+ * - Fields (id, 2-byte length, value) must fit the ticket, user and signature must be present
+ * - Creation time plus validity period is checked against the current time with a clock skew
+ *
+ * The ticket signature is not verified - the SAP system verifies it against its
+ * trusted ticket-issuing systems.
+ */
+
+import type { LogonTicketSummary, LogonTicketValidationOptions } from './types';
+import { getHeaderValue, type NormalizedHeaders } from './headerSource';
+import {
+  DiagnosticCode,
+  createError,
+  toDiagnosticSet,
+  type DiagnosticSet,
+  type ValidationDiagnostic,
+} from './diagnostics';
+
+export const HEADER_SAP_LOGON_TICKET = 'x-sap-logon-ticket';
+
+export const AUTH_TYPE_LOGON_TICKET = 'logon-ticket';
+
+/**
+ * Cookie that carries logon ticket in browser sessions
+ */
+export const LOGON_TICKET_COOKIE = 'MYSAPSSO2';
+
+/**
+ * Default clock skew (seconds) tolerated when checking ticket expiry
+ */
+export const DEFAULT_LOGON_TICKET_CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * Decoded (but not verified) logon ticket
+ */
+export interface DecodedLogonTicket {
+  version: number;
+  /** SAP code page of text fields (e.g. 4103 - UTF-16LE, 4110 - UTF-8) */
+  codePage: string;
+  summary: LogonTicketSummary;
+}
+
+export interface LogonTicketDecodeResult {
+  ticket?: DecodedLogonTicket;
+  error?: string;
+}
+
+export type LogonTicketValidationResult = DiagnosticSet;
+
+const TICKET_VERSION = 2;
+
+const FIELD_USER = 0x01;
+const FIELD_CLIENT = 0x02;
+const FIELD_SYSTEM_ID = 0x03;
+const FIELD_CREATED_AT = 0x04;
+const FIELD_VALID_HOURS = 0x05;
+const FIELD_VALID_MINUTES = 0x07;
+const FIELD_USER_UTF8 = 0x0a;
+const FIELD_SIGNATURE = 0xff;
+
+/**
+ * Decode UTF-16 code units; surrogate pairs stay paired in the resulting string
+ */
+function decodeUtf16(bytes: Uint8Array, bigEndian: boolean): string {
+  let text = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    text += String.fromCharCode(bigEndian ? (bytes[i] << 8) | bytes[i + 1] : bytes[i] | (bytes[i + 1] << 8));
+  }
+  return text;
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+function decodeLatin1(bytes: Uint8Array): string {
+  let text = '';
+  for (const byte of bytes) {
+    text += String.fromCharCode(byte);
+  }
+  return text;
+}
+
+/**
+ * Text decoder for SAP code page
+ * Only UTF-8 goes through TextDecoder: runtimes without full ICU support no other label
+ */
+function decoderFor(codePage: string): (bytes: Uint8Array) => string {
+  switch (codePage) {
+    case '4102':
+      return bytes => decodeUtf16(bytes, true);
+    case '4103':
+      return bytes => decodeUtf16(bytes, false);
+    case '4110':
+      return decodeUtf8;
+    default:
+      return decodeLatin1;
+  }
+}
+
+
+function readInteger(bytes: Uint8Array): number {
+  return bytes.reduce((value, byte) => value * 256 + byte, 0);
+}
+
+/**
+ * Parse creation time (YYYYMMDDHHMM, UTC) to seconds since epoch
+ */
+function parseCreatedAt(value: string): number | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})$/.exec(value);
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day, hour, minute] = match.map(Number);
+  return Date.UTC(year, month - 1, day, hour, minute) / 1000;
+}
+
+function formatEpoch(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+/**
+ * Read logon ticket from x-sap-logon-ticket or MYSAPSSO2 cookie
+ *
+ * @param headers Normalized headers
+ * @returns Ticket value, or undefined if neither is present
+ */
+export function readLogonTicket(headers: NormalizedHeaders): string | undefined {
+  const value = getHeaderValue(headers, HEADER_SAP_LOGON_TICKET);
+  if (value) {
+    return value;
+  }
+
+  const cookies = headers.cookie;
+  for (const cookieHeader of Array.isArray(cookies) ? cookies : cookies ? [cookies] : []) {
+    for (const cookie of cookieHeader.split(';')) {
+      const separator = cookie.indexOf('=');
+      if (separator !== -1 && cookie.slice(0, separator).trim() === LOGON_TICKET_COOKIE) {
+        return cookie.slice(separator + 1).trim() || undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Decode logon ticket and check its structure
+ *
+ * @param value Ticket (MYSAPSSO2 encoding, optionally URL-encoded)
+ * @returns Decoded ticket or error
+ */
+export function decodeLogonTicket(value: string): LogonTicketDecodeResult {
+  let text = value.trim();
+  if (text.includes('%')) {
+    try {
+      text = decodeURIComponent(text);
+    } catch {
+      return { error: 'URL encoding is invalid' };
+    }
+  }
+
+  const base64 = text.replace(/!/g, '+');
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(base64)) {
+    return { error: 'not base64 encoded' };
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  } catch {
+    return { error: 'not base64 encoded' };
+  }
+  if (bytes.length < 5) {
+    return { error: 'ticket is too short' };
+  }
+  if (bytes[0] !== TICKET_VERSION) {
+    return { error: `unsupported ticket version ${bytes[0]}` };
+  }
+  const codePage = String.fromCharCode(...bytes.slice(1, 5));
+  if (!/^\d{4}$/.test(codePage)) {
+    return { error: 'ticket code page is invalid' };
+  }
+
+  const fields = new Map<number, Uint8Array>();
+  let pos = 5;
+  while (pos < bytes.length) {
+    if (pos + 3 > bytes.length) {
+      return { error: 'ticket field header is truncated' };
+    }
+    const id = bytes[pos];
+    const length = (bytes[pos + 1] << 8) | bytes[pos + 2];
+    if (pos + 3 + length > bytes.length) {
+      return { error: `ticket field 0x${id.toString(16).padStart(2, '0')} exceeds ticket length` };
+    }
+    if (!fields.has(id)) {
+      fields.set(id, bytes.slice(pos + 3, pos + 3 + length));
+    }
+    pos += 3 + length;
+  }
+
+  if (!fields.get(FIELD_SIGNATURE)?.length) {
+    return { error: 'ticket has no signature' };
+  }
+
+  const decode = decoderFor(codePage);
+  const readText = (id: number, decodeField = decode): string | undefined => {
+    const field = fields.get(id);
+    const fieldText = field ? decodeField(field).replace(/\0/g, '').trim() : '';
+    return fieldText || undefined;
+  };
+
+  const user = readText(FIELD_USER_UTF8, decodeUtf8) ?? readText(FIELD_USER);
+  if (!user) {
+    return { error: 'ticket has no user' };
+  }
+
+  const createdText = readText(FIELD_CREATED_AT);
+  const issuedAt = createdText ? parseCreatedAt(createdText) : undefined;
+  if (createdText && issuedAt === undefined) {
+    return { error: 'ticket creation time is invalid' };
+  }
+
+  const validHours = fields.get(FIELD_VALID_HOURS);
+  const validMinutes = fields.get(FIELD_VALID_MINUTES);
+  const validSeconds = validHours || validMinutes
+    ? (validHours ? readInteger(validHours) * 3600 : 0) + (validMinutes ? readInteger(validMinutes) * 60 : 0)
+    : undefined;
+
+  return {
+    ticket: {
+      version: bytes[0],
+      codePage,
+      summary: {
+        user,
+        client: readText(FIELD_CLIENT),
+        systemId: readText(FIELD_SYSTEM_ID),
+        issuedAt,
+        expiresAt: issuedAt !== undefined && validSeconds !== undefined ? issuedAt + validSeconds : undefined,
+      },
+    },
+  };
+}
+
+/**
+ * Check ticket expiry (creation time plus validity period)
+ *
+ * @param ticket Decoded ticket
+ * @param options Clock skew and time source
+ * @returns Diagnostics for expired tickets
+ */
+export function validateLogonTicket(
+  ticket: DecodedLogonTicket,
+  options: LogonTicketValidationOptions = {}
+): LogonTicketValidationResult {
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  const skew = options.clockSkewSeconds ?? DEFAULT_LOGON_TICKET_CLOCK_SKEW_SECONDS;
+  const now = Math.floor((options.now ? options.now() : Date.now()) / 1000);
+  const { expiresAt } = ticket.summary;
+
+  if (expiresAt !== undefined && expiresAt + skew <= now) {
+    diagnostics.push(createError(DiagnosticCode.LOGON_TICKET_EXPIRED, `ticket expired at ${formatEpoch(expiresAt)}`));
+  }
+
+  return toDiagnosticSet(diagnostics);
+}
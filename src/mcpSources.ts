@@ -0,0 +1,185 @@
+/**
+ * Auth from MCP protocol metadata and stdio environments
+ *
+ * Over stdio there are no HTTP headers: clients pass per-request credentials in
+ * MCP request `_meta`, in `initialize` client info, or the server is configured by
+ * its process environment. Each source is converted to the headers it stands for and
+ * validated with validateAuthHeaders, so the priority rules and diagnostics are the
+ * same as for HTTP requests (messages name the header, e.g. x-sap-url).
+ *
+ * - `_meta` / client info: keys named like headers (`x-sap-*`, `x-mcp-*`, `x-btp-*`,
+ *   `x-uaa-*` or `authorization`, any case), at top level or in a nested `headers`
+ *   object. Other keys (`progressToken`, client name and version) are ignored.
+ *   Numbers are converted to strings, other non-string values are skipped
+ * - stdio environment: SAP_* variables (see STDIO_ENV_VARIABLES)
+ */
+
+import { HEADER_SAP_DESTINATION_SERVICE, HEADER_MCP_DESTINATION } from '@mcp-abap-adt/interfaces';
+import type { HeaderValidationOptions, HeaderValidationResult } from './types';
+import type { HeaderRecord } from './headerSource';
+import { validateAuthHeaders } from './headerValidator';
+import { CHECKED_HEADER_PREFIXES } from './unknownHeaders';
+import { HEADER_AUTHORIZATION } from './authorization';
+import {
+  ENV_CONNECTION_VARIABLES,
+  ENV_UAA_VARIABLES,
+  ENV_CREDENTIAL_VARIABLES,
+  type EnvSource,
+} from './effectiveConfig';
+
+/**
+ * Key of nested header object in `_meta` and client info
+ */
+export const MCP_META_HEADERS_KEY = 'headers';
+
+/**
+ * Environment variables of stdio servers and the headers they stand for
+ */
+export const STDIO_ENV_VARIABLES: Readonly<Record<string, string>> = {
+  SAP_DESTINATION: HEADER_SAP_DESTINATION_SERVICE,
+  MCP_DESTINATION: HEADER_MCP_DESTINATION,
+  ...ENV_CONNECTION_VARIABLES,
+  ...ENV_UAA_VARIABLES,
+  ...ENV_CREDENTIAL_VARIABLES,
+};
+
+/**
+ * MCP request metadata (`params._meta`)
+ */
+export type McpMeta = Readonly<Record<string, unknown>>;
+
+/**
+ * MCP `initialize` request parameters (only the parts read here)
+ */
+export interface McpInitializeParams {
+  clientInfo?: Readonly<Record<string, unknown>>;
+  _meta?: McpMeta;
+}
+
+function isObject(value: unknown): value is Readonly<Record<string, unknown>> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether key of `_meta` or client info is named like an auth or proxy header
+ */
+function isHeaderName(name: string): boolean {
+  return name === HEADER_AUTHORIZATION || CHECKED_HEADER_PREFIXES.some(prefix => name.startsWith(prefix));
+}
+
+/**
+ * Add header-valued entries of object; repeated names become arrays (reported as duplicates)
+ */
+function addHeaderEntries(headers: Record<string, string[]>, source: Readonly<Record<string, unknown>>): void {
+  for (const [name, value] of Object.entries(source)) {
+    const key = name.toLowerCase();
+    if (!isHeaderName(key)) {
+      continue;
+    }
+    const values = Array.isArray(value) ? value : [value];
+    const strings = values
+      .filter(item => typeof item === 'string' || typeof item === 'number')
+      .map(String);
+    if (strings.length > 0) {
+      headers[key] = [...headers[key] ?? [], ...strings];
+    }
+  }
+}
+
+/**
+ * Collect headers from `_meta` or client info (top level and nested `headers`)
+ */
+function collectObjectHeaders(headers: Record<string, string[]>, source: unknown): void {
+  if (!isObject(source)) {
+    return;
+  }
+  addHeaderEntries(headers, source);
+  const nested = source[MCP_META_HEADERS_KEY];
+  if (isObject(nested)) {
+    addHeaderEntries(headers, nested);
+  }
+}
+
+/**
+ * Convert MCP request `_meta` to headers
+ *
+ * @param meta `params._meta` of MCP request
+ * @returns Headers (lowercase names)
+ */
+export function headersFromMcpMeta(meta?: McpMeta): HeaderRecord {
+  const headers: Record<string, string[]> = {};
+  collectObjectHeaders(headers, meta);
+  return headers;
+}
+
+/**
+ * Convert MCP `initialize` parameters to headers (client info and `_meta`)
+ * A header sent in both with different values is reported as HEADER_CONFLICT
+ *
+ * @param params `params` of initialize request
+ * @returns Headers (lowercase names)
+ */
+export function headersFromInitializeParams(params?: McpInitializeParams): HeaderRecord {
+  const headers: Record<string, string[]> = {};
+  collectObjectHeaders(headers, params?.clientInfo);
+  collectObjectHeaders(headers, params?._meta);
+  return headers;
+}
+
+/**
+ * Convert stdio process environment to headers
+ *
+ * @param env Environment variables (process.env or parseEnvFile output)
+ * @returns Headers for set variables of STDIO_ENV_VARIABLES
+ */
+export function headersFromStdioEnv(env: EnvSource): HeaderRecord {
+  const headers: HeaderRecord = {};
+  for (const [variable, header] of Object.entries(STDIO_ENV_VARIABLES)) {
+    const value = env[variable]?.trim();
+    if (value) {
+      headers[header] = value;
+    }
+  }
+  return headers;
+}
+
+/**
+ * Validate auth carried in MCP request `_meta`
+ *
+ * @example
+ * server.setRequestHandler(CallToolRequestSchema, request => {
+ *   const auth = validateMcpMeta(request.params._meta);
+ * });
+ *
+ * @param meta `params._meta` of MCP request
+ * @param options Validation options
+ * @returns Same result as validateAuthHeaders for the equivalent headers
+ */
+export function validateMcpMeta(meta?: McpMeta, options: HeaderValidationOptions = {}): HeaderValidationResult {
+  return validateAuthHeaders(headersFromMcpMeta(meta), options);
+}
+
+/**
+ * Validate auth carried in MCP `initialize` parameters
+ *
+ * @param params `params` of initialize request
+ * @param options Validation options
+ * @returns Same result as validateAuthHeaders for the equivalent headers
+ */
+export function validateInitializeParams(params?: McpInitializeParams, options: HeaderValidationOptions = {}): HeaderValidationResult {
+  return validateAuthHeaders(headersFromInitializeParams(params), options);
+}
+
+/**
+ * Validate auth configuration of stdio server process
+ *
+ * @example
+ * const auth = validateStdioEnv(process.env);
+ *
+ * @param env Environment variables (process.env or parseEnvFile output)
+ * @param options Validation options
+ * @returns Same result as validateAuthHeaders for the equivalent headers
+ */
+export function validateStdioEnv(env: EnvSource, options: HeaderValidationOptions = {}): HeaderValidationResult {
+  return validateAuthHeaders(headersFromStdioEnv(env), options);
+}
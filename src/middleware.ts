@@ -0,0 +1,281 @@
+/**
+ * HTTP middleware for header validation
+ *
+ * - Connect/Express-style middleware: (req, res, next)
+ * - Plain node:http request listener wrapper
+ *
+ * Both validate request headers, attach the validation result to the request
+ * and respond with a consistent JSON error body when headers are invalid.
+ * Requests without auth headers are passed through (server falls back to .env)
+ * unless `allowEnvFallback` is disabled.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { HeaderValidationResult } from './types';
+import {
+  createHeaderValidator,
+  validateProxyHeaders,
+  isProxyRequest,
+  type HeaderValidator,
+  type ProxyHeaderValidationResult,
+} from './headerValidator';
+import { DiagnosticCode, type ValidationDiagnostic } from './diagnostics';
+
+/**
+ * How the request is handled
+ * - mcp: MCP authentication headers validated
+ * - proxy: proxy routing headers validated
+ * - env: no auth headers, server falls back to .env configuration
+ */
+export type RequestHeaderKind = 'mcp' | 'proxy' | 'env';
+
+/**
+ * Validation result attached to request
+ */
+export interface RequestHeaderValidation {
+  kind: RequestHeaderKind;
+  auth?: HeaderValidationResult;
+  proxy?: ProxyHeaderValidationResult;
+}
+
+/**
+ * JSON body of error response
+ */
+export interface HeaderValidationErrorBody {
+  error: 'invalid_auth_headers' | 'invalid_proxy_headers' | 'auth_headers_required';
+  message: string;
+  errors: string[];
+  warnings: string[];
+  diagnostics: ValidationDiagnostic[];
+}
+
+export interface HeaderValidationMiddlewareOptions {
+  /** Validator to use (default: default-configured validator) */
+  validator?: HeaderValidator;
+  /**
+   * Which headers to validate
+   * - mcp: MCP authentication headers only (default)
+   * - proxy: proxy routing headers only
+   * - auto: proxy headers if isProxyRequest(), MCP authentication headers otherwise
+   */
+  mode?: 'mcp' | 'proxy' | 'auto';
+  /** Pass requests without auth headers through (default: true) */
+  allowEnvFallback?: boolean;
+  /** Request property the validation is attached to (default: headerValidation) */
+  requestProperty?: string;
+}
+
+export interface WithHeaderValidationOptions extends HeaderValidationMiddlewareOptions {
+  /**
+   * Handle validator errors and listener throws/rejections
+   * (default: respond 500 and end the response; also used when onError throws)
+   */
+  onError?: (error: unknown, req: IncomingMessage, res: ServerResponse) => void;
+}
+
+export type NextFunction = (err?: unknown) => void;
+
+export const DEFAULT_REQUEST_PROPERTY = 'headerValidation';
+
+/**
+ * Diagnostic codes that mean "credentials rejected" (401) rather than "bad request" (400)
+ */
+const UNAUTHORIZED_CODES: ReadonlySet<DiagnosticCode> = new Set([
+  DiagnosticCode.JWT_MALFORMED,
+  DiagnosticCode.JWT_CLAIM_INVALID,
+  DiagnosticCode.JWT_EXPIRED,
+  DiagnosticCode.JWT_NOT_YET_VALID,
+  DiagnosticCode.JWT_ISSUED_IN_FUTURE,
+  DiagnosticCode.JWT_ALG_MISSING,
+  DiagnosticCode.JWT_ALG_NONE,
+  DiagnosticCode.JWT_ALG_UNSUPPORTED,
+  DiagnosticCode.JWT_KID_UNKNOWN,
+  DiagnosticCode.JWT_SIGNATURE_INVALID,
+  DiagnosticCode.X509_CERTIFICATE_MALFORMED,
+  DiagnosticCode.X509_CERTIFICATE_EXPIRED,
+  DiagnosticCode.X509_CERTIFICATE_NOT_YET_VALID,
+  DiagnosticCode.X509_ISSUER_NOT_ALLOWED,
+  DiagnosticCode.X509_SUBJECT_NOT_ALLOWED,
+  DiagnosticCode.LOGON_TICKET_MALFORMED,
+  DiagnosticCode.LOGON_TICKET_EXPIRED,
+  DiagnosticCode.SAML_ASSERTION_MALFORMED,
+  DiagnosticCode.SAML_ASSERTION_EXPIRED,
+  DiagnosticCode.SAML_ASSERTION_NOT_YET_VALID,
+  DiagnosticCode.AUTH_METHOD_DISABLED,
+  DiagnosticCode.AUTHORIZATION_INVALID,
+  DiagnosticCode.TOKEN_INACTIVE,
+  DiagnosticCode.TOKEN_REVOKED,
+  DiagnosticCode.IDENTITY_NOT_ALLOWED,
+]);
+
+/**
+ * HTTP status for failed validation
+ * 401 if credentials were rejected, 400 for malformed or inconsistent headers
+ */
+export function getValidationHttpStatus(diagnostics: ValidationDiagnostic[]): 400 | 401 {
+  const unauthorized = diagnostics.some(d => d.severity === 'error' && UNAUTHORIZED_CODES.has(d.code));
+  return unauthorized ? 401 : 400;
+}
+
+export interface ValidationOutcome {
+  validation: RequestHeaderValidation;
+  failure?: { status: number; body: HeaderValidationErrorBody };
+}
+
+function errorBody(
+  error: HeaderValidationErrorBody['error'],
+  result: { errors: string[]; warnings: string[]; diagnostics: ValidationDiagnostic[] }
+): HeaderValidationErrorBody {
+  return {
+    error,
+    message: result.errors.length > 0 ? result.errors.join('; ') : 'Authentication headers are required',
+    errors: result.errors,
+    warnings: result.warnings,
+    diagnostics: result.diagnostics,
+  };
+}
+
+/**
+ * Validate request headers according to middleware options
+ *
+ * @param req Incoming request
+ * @param options Middleware options
+ * @returns Attached validation and failure response (if request must be rejected)
+ */
+export function evaluateRequestHeaders(
+  req: Pick<IncomingMessage, 'headers'>,
+  options: HeaderValidationMiddlewareOptions = {}
+): ValidationOutcome {
+  const mode = options.mode ?? 'mcp';
+  const headers = req.headers;
+  const validator = options.validator ?? createHeaderValidator();
+
+  if (mode === 'proxy' || (mode === 'auto' && isProxyRequest(headers))) {
+    // x-mcp-url is checked with the same URL policy as x-sap-url
+    const proxy = validateProxyHeaders(headers, { urlPolicy: validator.options.urlPolicy });
+    const validation: RequestHeaderValidation = { kind: 'proxy', proxy };
+    if (!proxy.isValid) {
+      return { validation, failure: { status: 400, body: errorBody('invalid_proxy_headers', proxy) } };
+    }
+    return { validation };
+  }
+
+  const auth = validator.validateAuthHeaders(headers);
+
+  // Invalid without errors - no auth headers, server may use .env file
+  if (!auth.isValid && auth.errors.length === 0) {
+    const validation: RequestHeaderValidation = { kind: 'env', auth };
+    if (options.allowEnvFallback === false) {
+      return { validation, failure: { status: 401, body: errorBody('auth_headers_required', auth) } };
+    }
+    return { validation };
+  }
+
+  const validation: RequestHeaderValidation = { kind: 'mcp', auth };
+  if (!auth.isValid) {
+    return {
+      validation,
+      failure: { status: getValidationHttpStatus(auth.diagnostics), body: errorBody('invalid_auth_headers', auth) },
+    };
+  }
+  return { validation };
+}
+
+function sendJson(res: ServerResponse, status: number, body: HeaderValidationErrorBody): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+}
+
+function attach(req: IncomingMessage, property: string, validation: RequestHeaderValidation): void {
+  (req as unknown as Record<string, unknown>)[property] = validation;
+}
+
+/**
+ * Get validation attached by middleware
+ */
+export function getRequestHeaderValidation(
+  req: IncomingMessage,
+  requestProperty: string = DEFAULT_REQUEST_PROPERTY
+): RequestHeaderValidation | undefined {
+  return (req as unknown as Record<string, unknown>)[requestProperty] as RequestHeaderValidation | undefined;
+}
+
+/**
+ * Create Connect/Express-style middleware
+ *
+ * @example
+ * app.use(createHeaderValidationMiddleware({ mode: 'auto' }));
+ * app.post('/mcp', (req, res) => {
+ *   const { kind, auth } = getRequestHeaderValidation(req)!;
+ * });
+ */
+export function createHeaderValidationMiddleware(
+  options: HeaderValidationMiddlewareOptions = {}
+): (req: IncomingMessage, res: ServerResponse, next: NextFunction) => void {
+  const requestProperty = options.requestProperty ?? DEFAULT_REQUEST_PROPERTY;
+  const resolvedOptions = { ...options, validator: options.validator ?? createHeaderValidator() };
+
+  return (req, res, next) => {
+    let outcome: ValidationOutcome;
+    try {
+      outcome = evaluateRequestHeaders(req, resolvedOptions);
+    } catch (error) {
+      next(error);
+      return;
+    }
+
+    attach(req, requestProperty, outcome.validation);
+    if (outcome.failure) {
+      sendJson(res, outcome.failure.status, outcome.failure.body);
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Respond 500 to failed request
+ */
+function endWithServerError(_error: unknown, _req: IncomingMessage, res: ServerResponse): void {
+  if (!res.headersSent) {
+    res.statusCode = 500;
+  }
+  res.end();
+}
+
+/**
+ * Wrap plain node:http request listener with header validation
+ * Listener throws and rejections are passed to `onError`; if `onError` throws,
+ * the response is ended with 500
+ *
+ * @example
+ * http.createServer(withHeaderValidation((req, res) => { ... }, {
+ *   onError: (error, req, res) => { logger.error(error); res.statusCode = 500; res.end(); },
+ * }));
+ */
+export function withHeaderValidation(
+  listener: (req: IncomingMessage, res: ServerResponse) => void | Promise<void>,
+  options: WithHeaderValidationOptions = {}
+): (req: IncomingMessage, res: ServerResponse) => void {
+  const { onError = endWithServerError, ...middlewareOptions } = options;
+  const middleware = createHeaderValidationMiddleware(middlewareOptions);
+
+  const handleError = (error: unknown, req: IncomingMessage, res: ServerResponse): void => {
+    try {
+      onError(error, req, res);
+    } catch {
+      endWithServerError(error, req, res);
+    }
+  };
+
+  return (req, res) => {
+    middleware(req, res, (err?: unknown) => {
+      if (err) {
+        handleError(err, req, res);
+        return;
+      }
+      new Promise<void>(resolve => resolve(listener(req, res))).catch(error => handleError(error, req, res));
+    });
+  };
+}
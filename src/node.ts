@@ -0,0 +1,24 @@
+/**
+ * Node.js entry of header validator (@mcp-abap-adt/header-validator/node)
+ *
+ * Parts that need node:fs or node:crypto: JWT key sets and signature verification,
+ * X.509 client certificate auth and destinations loaded from local directories.
+ * Everything else is imported from the package root.
+ */
+
+export {
+  createJwtKeySet,
+  verifyJwtSignature,
+  SUPPORTED_JWT_ALGORITHMS,
+} from './jwks';
+export {
+  X509_AUTH_METHOD,
+  decodeClientCertificate,
+  validateClientCertificate,
+  summarizeClientCertificate,
+  DEFAULT_CERTIFICATE_CLOCK_SKEW_SECONDS,
+} from './x509';
+export {
+  createDestinationResolver,
+  type DestinationResolverOptions,
+} from './destinationResolver';
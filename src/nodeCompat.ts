@@ -0,0 +1,44 @@
+/**
+ * Deprecated package root exports of the Node.js entry
+ *
+ * These were exported from the package root before the ./node entry existed.
+ * They load ./node (and with it node:fs and node:crypto) on first use, so
+ * importing the package root still loads no Node.js built-ins.
+ */
+
+import type * as NodeEntry from './node';
+import type { AuthMethodPlugin } from './authMethods';
+
+function nodeEntry(): typeof NodeEntry {
+  return require('./node');
+}
+
+/** @deprecated Import from `@mcp-abap-adt/header-validator/node` */
+export const createJwtKeySet: typeof NodeEntry.createJwtKeySet = (...args) => nodeEntry().createJwtKeySet(...args);
+
+/** @deprecated Import from `@mcp-abap-adt/header-validator/node` */
+export const verifyJwtSignature: typeof NodeEntry.verifyJwtSignature = (...args) => nodeEntry().verifyJwtSignature(...args);
+
+/** @deprecated Import from `@mcp-abap-adt/header-validator/node` */
+export const decodeClientCertificate: typeof NodeEntry.decodeClientCertificate = (...args) => nodeEntry().decodeClientCertificate(...args);
+
+/** @deprecated Import from `@mcp-abap-adt/header-validator/node` */
+export const validateClientCertificate: typeof NodeEntry.validateClientCertificate = (...args) => nodeEntry().validateClientCertificate(...args);
+
+/** @deprecated Import from `@mcp-abap-adt/header-validator/node` */
+export const summarizeClientCertificate: typeof NodeEntry.summarizeClientCertificate = (...args) => nodeEntry().summarizeClientCertificate(...args);
+
+/** @deprecated Import from `@mcp-abap-adt/header-validator/node` */
+export const createDestinationResolver: typeof NodeEntry.createDestinationResolver = (...args) => nodeEntry().createDestinationResolver(...args);
+
+/**
+ * X.509 method plugin, loaded when a property is first read
+ *
+ * @deprecated Import from `@mcp-abap-adt/header-validator/node`
+ */
+export const X509_AUTH_METHOD: AuthMethodPlugin = new Proxy({} as AuthMethodPlugin, {
+  get: (_target, property) => Reflect.get(nodeEntry().X509_AUTH_METHOD, property),
+  has: (_target, property) => Reflect.has(nodeEntry().X509_AUTH_METHOD, property),
+  ownKeys: () => Reflect.ownKeys(nodeEntry().X509_AUTH_METHOD),
+  getOwnPropertyDescriptor: (_target, property) => Reflect.getOwnPropertyDescriptor(nodeEntry().X509_AUTH_METHOD, property),
+});
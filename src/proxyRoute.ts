@@ -0,0 +1,130 @@
+/**
+ * Proxy route planning
+ *
+ * Turns proxy headers into a route plan for the proxy:
+ * - x-mcp-url: MCP server is called directly; x-btp-destination (optional) authorizes the hop
+ * - x-btp-destination + x-mcp-destination: MCP server URL comes from the BTP destination,
+ *   x-mcp-destination is passed through as SAP destination
+ *
+ * Conflict rules:
+ * - x-mcp-url and x-mcp-destination cannot be combined (direct URL vs. routing via BTP destination)
+ * - x-btp-destination needs a target (x-mcp-url or x-mcp-destination)
+ * - x-mcp-destination needs x-btp-destination to reach the MCP server
+ */
+
+import {
+  HEADER_BTP_DESTINATION,
+  HEADER_MCP_DESTINATION,
+  HEADER_MCP_URL,
+} from '@mcp-abap-adt/interfaces';
+import type { ProxyHeaderValidationOptions } from './types';
+import { normalizeHeaders, getHeaderValue, type HeaderSource } from './headerSource';
+import { validateProxyHeaders, type ProxyHeaderValidationResult } from './headerValidator';
+import {
+  DiagnosticCode,
+  createError,
+  toDiagnosticSet,
+  type DiagnosticSet,
+  type ValidationDiagnostic,
+} from './diagnostics';
+
+/**
+ * How the proxy reaches the MCP server
+ * - url: x-mcp-url
+ * - btp-destination: URL of x-btp-destination (resolved by the proxy via BTP Destination service)
+ */
+export type ProxyUpstreamType = 'url' | 'btp-destination';
+
+/**
+ * Route plan for a proxy request
+ */
+export interface ProxyRoute {
+  upstream: ProxyUpstreamType;
+  /** Upstream MCP server URL (upstream 'url' only) */
+  mcpUrl?: string;
+  /** BTP destination that authorizes the hop to the MCP server */
+  btpDestination?: string;
+  /** SAP destination passed through to the MCP server (x-mcp-destination) */
+  sapDestination?: string;
+}
+
+export interface ProxyRouteResult extends DiagnosticSet {
+  isValid: boolean;
+  /** Route plan (only when isValid) */
+  route?: ProxyRoute;
+  /** Underlying header validation */
+  validation: ProxyHeaderValidationResult;
+}
+
+/**
+ * Check combination of proxy headers
+ */
+function routeConflicts(btpDestination?: string, sapDestination?: string, mcpUrl?: string): ValidationDiagnostic[] {
+  if (mcpUrl && sapDestination) {
+    return [createError(
+      DiagnosticCode.PROXY_ROUTE_CONFLICT,
+      `${HEADER_MCP_URL} and ${HEADER_MCP_DESTINATION} cannot be combined: ${HEADER_MCP_URL} calls the MCP server directly, ${HEADER_MCP_DESTINATION} is routed via ${HEADER_BTP_DESTINATION}`,
+      [HEADER_MCP_URL, HEADER_MCP_DESTINATION]
+    )];
+  }
+  if (btpDestination && !mcpUrl && !sapDestination) {
+    return [createError(
+      DiagnosticCode.PROXY_ROUTE_INCOMPLETE,
+      `${HEADER_BTP_DESTINATION} requires ${HEADER_MCP_URL} or ${HEADER_MCP_DESTINATION} as target`,
+      [HEADER_BTP_DESTINATION, HEADER_MCP_URL, HEADER_MCP_DESTINATION]
+    )];
+  }
+  if (sapDestination && !btpDestination) {
+    return [createError(
+      DiagnosticCode.PROXY_ROUTE_INCOMPLETE,
+      `${HEADER_MCP_DESTINATION} requires ${HEADER_BTP_DESTINATION} to reach the MCP server`,
+      [HEADER_MCP_DESTINATION, HEADER_BTP_DESTINATION]
+    )];
+  }
+  return [];
+}
+
+/**
+ * Resolve proxy route from proxy headers
+ *
+ * @example
+ * const { isValid, route, errors } = resolveProxyRoute(req.headers, { urlPolicy });
+ * if (route?.upstream === 'url') {
+ *   forward(route.mcpUrl, { authorizeWith: route.btpDestination });
+ * }
+ *
+ * @param headers HTTP headers
+ * @param options Validation options (URL policy for x-mcp-url)
+ * @returns Route plan, or errors for invalid and conflicting headers
+ */
+export function resolveProxyRoute(
+  headers?: HeaderSource,
+  options: ProxyHeaderValidationOptions = {}
+): ProxyRouteResult {
+  const validation = validateProxyHeaders(headers, options);
+  const normalized = normalizeHeaders(headers ?? {});
+  const btpDestination = getHeaderValue(normalized, HEADER_BTP_DESTINATION);
+  const sapDestination = getHeaderValue(normalized, HEADER_MCP_DESTINATION);
+  const mcpUrl = getHeaderValue(normalized, HEADER_MCP_URL);
+
+  const diagnosticSet = toDiagnosticSet([
+    ...validation.diagnostics,
+    ...routeConflicts(btpDestination, sapDestination, mcpUrl),
+  ]);
+  const hasTarget = !!(mcpUrl || sapDestination);
+  const isValid = diagnosticSet.errors.length === 0 && hasTarget;
+
+  return {
+    isValid,
+    route: isValid
+      ? {
+          upstream: mcpUrl ? 'url' : 'btp-destination',
+          mcpUrl,
+          btpDestination,
+          sapDestination,
+        }
+      : undefined,
+    validation,
+    ...diagnosticSet,
+  };
+}
@@ -0,0 +1,246 @@
+/**
+ * Secret redaction for validated auth configs
+ *
+ * Validated configs carry credentials in clear text (password, JWT, refresh token,
+ * UAA client secret). Helpers here produce copies that are safe to log:
+ * - Tokens keep a short prefix, their length and (for JWT) the expiry
+ * - Passwords and client secrets are fully masked
+ * - URLs lose embedded credentials and query values
+ */
+
+import { AuthMethodPriority } from '@mcp-abap-adt/interfaces';
+import type { HeaderValidationResult, ValidatedAuthConfig } from './types';
+import { decodeJwt } from './jwt';
+
+/**
+ * Replacement for masked values
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Number of leading characters kept from tokens
+ */
+const TOKEN_PREFIX_LENGTH = 6;
+
+/**
+ * Maximum length of header values echoed in diagnostic messages
+ */
+const MAX_ECHOED_VALUE_LENGTH = 64;
+
+/**
+ * Config fields that hold secrets
+ */
+export const SECRET_CONFIG_FIELDS = [
+  'password',
+  'jwtToken',
+  'refreshToken',
+  'uaaClientSecret',
+  'logonTicket',
+  'samlAssertion',
+] as const;
+
+export type SecretConfigField = typeof SECRET_CONFIG_FIELDS[number];
+
+/**
+ * Config with secret fields replaced by masked descriptions
+ */
+export type RedactedAuthConfig = Omit<ValidatedAuthConfig, SecretConfigField> & {
+  [K in SecretConfigField]?: string;
+};
+
+/**
+ * Symbol used by Node.js util.inspect for custom output
+ * (Symbol.for keeps this module free of node:util)
+ */
+const INSPECT_CUSTOM = Symbol.for('nodejs.util.inspect.custom');
+
+function maskToken(token: string, details: string[] = []): string {
+  const info = [REDACTED, `${token.length} chars`, ...details].join(', ');
+  if (token.length <= TOKEN_PREFIX_LENGTH * 2) {
+    return `[${info}]`;
+  }
+  return `${token.slice(0, TOKEN_PREFIX_LENGTH)}…[${info}]`;
+}
+
+/**
+ * Mask token, keeping prefix and length
+ *
+ * @example
+ * redactToken('eyJhbGciOiJSUzI1NiJ9...') // 'eyJhbG…[REDACTED, 812 chars]'
+ */
+export function redactToken(token: string): string {
+  return maskToken(token);
+}
+
+/**
+ * Mask JWT, keeping prefix, length and expiry (if token can be decoded)
+ */
+export function redactJwt(token: string): string {
+  const exp = decodeJwt(token).jwt?.payload.exp;
+  if (typeof exp !== 'number' || !Number.isFinite(exp)) {
+    return maskToken(token);
+  }
+  return maskToken(token, [`exp ${new Date(exp * 1000).toISOString()}`]);
+}
+
+/**
+ * Remove credentials from URL: password in userinfo and query parameter values
+ * Values that are not URLs are returned unchanged.
+ */
+export function redactUrl(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return value;
+  }
+  if (!url.password && !url.search) {
+    return value;
+  }
+  if (url.password) {
+    url.password = REDACTED;
+  }
+  for (const key of Array.from(new Set(url.searchParams.keys()))) {
+    url.searchParams.set(key, REDACTED);
+  }
+  return url.toString();
+}
+
+/**
+ * Sanitize raw header value before echoing it in a diagnostic message
+ * - userinfo password and query values are masked (also in unparsable URLs)
+ * - control characters are replaced (no log injection)
+ * - long values are truncated
+ */
+export function sanitizeHeaderValue(value: string): string {
+  let sanitized = value
+    .replace(/(\/\/[^/?#:@\s]*):[^@/?#\s]*@/, `$1:${REDACTED}@`)
+    .replace(/([?&][^=&#\s]*)=[^&#]*/g, `$1=${REDACTED}`)
+    .replace(/[\u0000-\u001f\u007f]/g, '?');
+  if (sanitized.length > MAX_ECHOED_VALUE_LENGTH) {
+    sanitized = `${sanitized.slice(0, MAX_ECHOED_VALUE_LENGTH)}… (${value.length} chars)`;
+  }
+  return sanitized;
+}
+
+/**
+ * Create copy of config that is safe to log
+ *
+ * @param config Validated auth config
+ * @returns Config with secrets masked and URLs stripped of credentials
+ */
+export function redactAuthConfig(config: ValidatedAuthConfig): RedactedAuthConfig {
+  const { password, jwtToken, refreshToken, uaaClientSecret, logonTicket, samlAssertion, ...rest } = config;
+  const redacted: RedactedAuthConfig = { ...rest };
+
+  if (redacted.sapUrl) {
+    redacted.sapUrl = redactUrl(redacted.sapUrl);
+  }
+  if (redacted.uaaUrl) {
+    redacted.uaaUrl = redactUrl(redacted.uaaUrl);
+  }
+  if (password !== undefined) {
+    redacted.password = REDACTED;
+  }
+  if (jwtToken !== undefined) {
+    redacted.jwtToken = redactJwt(jwtToken);
+  }
+  if (refreshToken !== undefined) {
+    redacted.refreshToken = redactToken(refreshToken);
+  }
+  if (uaaClientSecret !== undefined) {
+    redacted.uaaClientSecret = REDACTED;
+  }
+  if (logonTicket !== undefined) {
+    redacted.logonTicket = redactToken(logonTicket);
+  }
+  if (samlAssertion !== undefined) {
+    redacted.samlAssertion = redactToken(samlAssertion);
+  }
+
+  return redacted;
+}
+
+/**
+ * Describe auth config in one line, without secrets
+ *
+ * @example
+ * describeAuthConfig(result.config)
+ * // 'BASIC (basic) https://test.sap.com client 100, user DEVELOPER'
+ */
+export function describeAuthConfig(authConfig: ValidatedAuthConfig): string {
+  const config = redactAuthConfig(authConfig);
+  // Methods without own AuthMethodPriority value are named by ID
+  const method = config.rank !== undefined && config.rank !== config.priority
+    ? config.authMethod ?? String(config.rank)
+    : AuthMethodPriority[config.priority] ?? config.authMethod ?? String(config.priority);
+  const parts = [`${method} (${config.authType})`];
+  if (config.destination) {
+    parts.push(`destination ${config.destination}`);
+  }
+  if (config.sapUrl) {
+    parts.push(config.sapUrl);
+  }
+  if (config.sapClient) {
+    parts.push(`client ${config.sapClient}`);
+  }
+
+  const details: string[] = [];
+  if (config.username) {
+    details.push(`user ${config.username}`);
+  }
+  if (config.jwtToken) {
+    details.push(`token ${config.jwtToken}`);
+  }
+  if (config.refreshToken) {
+    details.push(`refresh token ${config.refreshToken}`);
+  }
+  if (config.clientCertificate) {
+    details.push(`certificate ${config.clientCertificate.subject} (serial ${config.clientCertificate.serialNumber})`);
+  }
+  if (config.logonTicketSummary) {
+    details.push(`logon ticket user ${config.logonTicketSummary.user}`);
+  }
+  if (config.samlAssertionSummary?.subject) {
+    details.push(`SAML subject ${config.samlAssertionSummary.subject}`);
+  }
+
+  return [parts.join(' '), ...details].join(', ');
+}
+
+/**
+ * Describe validation result in one line, without secrets
+ *
+ * @example
+ * describeAuthResult(result)
+ * // 'valid: DIRECT_JWT (jwt) https://test.sap.com client 100, token eyJhbG…[REDACTED, 812 chars, exp 2025-12-13T10:00:00.000Z]'
+ */
+export function describeAuthResult(result: HeaderValidationResult): string {
+  if (!result.config) {
+    if (result.errors.length === 0) {
+      return 'no auth headers';
+    }
+    return `invalid: ${result.errors.join('; ')}`;
+  }
+
+  const status = result.isValid ? 'valid' : `invalid (${result.errors.join('; ')})`;
+  return `${status}: ${describeAuthConfig(result.config)}`;
+}
+
+/**
+ * Make toJSON and util.inspect output of config redacted
+ * Properties are non-enumerable, so config shape and clear-text access are unchanged.
+ */
+export function makeConfigRedacting<T extends ValidatedAuthConfig>(config: T): T {
+  Object.defineProperty(config, 'toJSON', {
+    value: () => redactAuthConfig(config),
+    enumerable: false,
+    configurable: true,
+  });
+  Object.defineProperty(config, INSPECT_CUSTOM, {
+    value: () => redactAuthConfig(config),
+    enumerable: false,
+    configurable: true,
+  });
+  return config;
+}
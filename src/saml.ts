@@ -0,0 +1,365 @@
+/**
+ * SAML 2.0 bearer assertion decoding and time checks
+ *
+ * x-sap-saml-assertion carries a base64 (or base64url) encoded SAML 2.0 Assertion
+ * for principal propagation (RFC 7522). Only structural checks are performed:
+ * - Value must be base64 and decode to well-formed UTF-8 XML (DTDs are rejected)
+ * - Root element must be a SAML 2.0 Assertion with ID, Version and IssueInstant
+ * - Conditions NotBefore / NotOnOrAfter and bearer SubjectConfirmationData
+ *   NotOnOrAfter are checked against the current time with a clock skew
+ *
+ * The XML signature is not verified - the SAP system verifies it against its trusted IdPs.
+ */
+
+import type { SamlAssertionSummary, SamlValidationOptions } from './types';
+import {
+  DiagnosticCode,
+  createError,
+  createWarning,
+  toDiagnosticSet,
+  type DiagnosticSet,
+  type ValidationDiagnostic,
+} from './diagnostics';
+
+export const HEADER_SAP_SAML_ASSERTION = 'x-sap-saml-assertion';
+
+export const AUTH_TYPE_SAML = 'saml';
+
+/**
+ * Default clock skew (seconds) tolerated when checking NotBefore / NotOnOrAfter
+ */
+export const DEFAULT_SAML_CLOCK_SKEW_SECONDS = 60;
+
+const SAML_ASSERTION_NAMESPACE = 'urn:oasis:names:tc:SAML:2.0:assertion';
+
+/**
+ * Decoded (but not verified) SAML assertion
+ */
+export interface DecodedSamlAssertion {
+  /** Assertion XML */
+  xml: string;
+  summary: SamlAssertionSummary;
+}
+
+export interface SamlAssertionDecodeResult {
+  assertion?: DecodedSamlAssertion;
+  error?: string;
+}
+
+export type SamlAssertionValidationResult = DiagnosticSet;
+
+interface XmlElement {
+  name: string;
+  localName: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const NAME_PATTERN = /[A-Za-z_][\w.-]*(?::[A-Za-z_][\w.-]*)?/y;
+const WHITESPACE_PATTERN = /\s*/y;
+const ATTRIBUTE_PATTERN = /([A-Za-z_][\w.:-]*)\s*=\s*(["'])/y;
+const ENTITY_PATTERN = /&(?:(lt|gt|amp|quot|apos)|#(\d+)|#x([0-9a-fA-F]+));/g;
+/**
+ * Maximum element nesting (SAML assertions are shallow; deep nesting is an attack)
+ */
+const MAX_XML_DEPTH = 64;
+
+const PREDEFINED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(value: string): string | undefined {
+  // Any '&' that doesn't start a predefined or character reference is not well-formed
+  if (value.replace(ENTITY_PATTERN, '').includes('&')) {
+    return undefined;
+  }
+  return value.replace(ENTITY_PATTERN, (_, name: string, decimal: string, hex: string) => {
+    if (name) {
+      return PREDEFINED_ENTITIES[name];
+    }
+    const codePoint = decimal ? Number(decimal) : parseInt(hex, 16);
+    return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '\ufffd';
+  });
+}
+
+/**
+ * Match sticky pattern at position (no substring copies)
+ */
+function matchAt(pattern: RegExp, text: string, pos: number): RegExpExecArray | null {
+  pattern.lastIndex = pos;
+  return pattern.exec(text);
+}
+
+/**
+ * Parse well-formed XML into element tree
+ * Supports the subset used by SAML: elements, attributes, text, CDATA, comments
+ * and processing instructions. DTDs are rejected (entity expansion attacks).
+ */
+function parseXml(xml: string): { root?: XmlElement; error?: string } {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+  let pos = xml.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const appendText = (text: string): string | undefined => {
+    if (stack.length === 0) {
+      return text.trim() ? 'text outside of root element' : undefined;
+    }
+    stack[stack.length - 1].text += text;
+    return undefined;
+  };
+
+  while (pos < xml.length) {
+    if (xml.startsWith('<!--', pos)) {
+      const end = xml.indexOf('-->', pos + 4);
+      if (end === -1) {
+        return { error: 'unterminated comment' };
+      }
+      pos = end + 3;
+    } else if (xml.startsWith('<?', pos)) {
+      const end = xml.indexOf('?>', pos + 2);
+      if (end === -1) {
+        return { error: 'unterminated processing instruction' };
+      }
+      pos = end + 2;
+    } else if (xml.startsWith('<!DOCTYPE', pos)) {
+      return { error: 'DOCTYPE is not allowed' };
+    } else if (xml.startsWith('<![CDATA[', pos)) {
+      const end = xml.indexOf(']]>', pos + 9);
+      if (end === -1) {
+        return { error: 'unterminated CDATA section' };
+      }
+      const error = appendText(xml.slice(pos + 9, end));
+      if (error || stack.length === 0) {
+        return { error: error ?? 'CDATA outside of root element' };
+      }
+      pos = end + 3;
+    } else if (xml.startsWith('</', pos)) {
+      const name = matchAt(NAME_PATTERN, xml, pos + 2)?.[0];
+      const close = xml.indexOf('>', pos);
+      if (!name || close === -1 || xml.slice(pos + 2 + name.length, close).trim()) {
+        return { error: 'malformed end tag' };
+      }
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        return { error: `unexpected end tag </${name}>` };
+      }
+      pos = close + 1;
+    } else if (xml[pos] === '<') {
+      const name = matchAt(NAME_PATTERN, xml, pos + 1)?.[0];
+      if (!name) {
+        return { error: 'malformed start tag' };
+      }
+      const element: XmlElement = {
+        name,
+        localName: name.includes(':') ? name.slice(name.indexOf(':') + 1) : name,
+        attributes: {},
+        children: [],
+        text: '',
+      };
+      pos += 1 + name.length;
+
+      let selfClosing = false;
+      for (;;) {
+        const whitespace = matchAt(WHITESPACE_PATTERN, xml, pos)![0];
+        pos += whitespace.length;
+        if (xml.startsWith('/>', pos)) {
+          selfClosing = true;
+          pos += 2;
+          break;
+        }
+        if (xml[pos] === '>') {
+          pos += 1;
+          break;
+        }
+        const attribute = matchAt(ATTRIBUTE_PATTERN, xml, pos);
+        if (!attribute || !whitespace) {
+          return { error: `malformed attribute in <${name}>` };
+        }
+        const valueStart = pos + attribute[0].length;
+        const valueEnd = xml.indexOf(attribute[2], valueStart);
+        const rawValue = valueEnd === -1 ? '' : xml.slice(valueStart, valueEnd);
+        const value = decodeEntities(rawValue);
+        if (valueEnd === -1 || rawValue.includes('<') || value === undefined) {
+          return { error: `malformed attribute ${attribute[1]} in <${name}>` };
+        }
+        if (attribute[1] in element.attributes) {
+          return { error: `duplicate attribute ${attribute[1]} in <${name}>` };
+        }
+        element.attributes[attribute[1]] = value;
+        pos = valueEnd + 1;
+      }
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        return { error: 'more than one root element' };
+      } else {
+        root = element;
+      }
+      if (!selfClosing) {
+        if (stack.length >= MAX_XML_DEPTH) {
+          return { error: `elements are nested deeper than ${MAX_XML_DEPTH} levels` };
+        }
+        stack.push(element);
+      }
+    } else {
+      const next = xml.indexOf('<', pos);
+      const raw = xml.slice(pos, next === -1 ? xml.length : next);
+      const text = decodeEntities(raw);
+      if (text === undefined) {
+        return { error: 'undefined entity or bare "&" in text' };
+      }
+      const error = appendText(text);
+      if (error) {
+        return { error };
+      }
+      pos += raw.length;
+    }
+  }
+
+  if (stack.length > 0) {
+    return { error: `element <${stack[stack.length - 1].name}> is not closed` };
+  }
+  if (!root) {
+    return { error: 'no root element' };
+  }
+  return { root };
+}
+
+function findChild(element: XmlElement | undefined, localName: string): XmlElement | undefined {
+  return element?.children.find(child => child.localName === localName);
+}
+
+function findDescendants(element: XmlElement, localName: string): XmlElement[] {
+  return element.children.flatMap(child => [
+    ...(child.localName === localName ? [child] : []),
+    ...findDescendants(child, localName),
+  ]);
+}
+
+function namespaceOf(element: XmlElement): string | undefined {
+  const prefix = element.name.includes(':') ? element.name.slice(0, element.name.indexOf(':')) : undefined;
+  return element.attributes[prefix ? `xmlns:${prefix}` : 'xmlns'];
+}
+
+/**
+ * Parse xs:dateTime to seconds since epoch
+ * Returns undefined for absent attribute, null for invalid value
+ */
+function readDateTime(element: XmlElement | undefined, attribute: string): number | null | undefined {
+  const value = element?.attributes[attribute];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/.test(value)) {
+    return null;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : Math.floor(time / 1000);
+}
+
+function formatEpoch(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+/**
+ * Decode base64 (or base64url) SAML 2.0 assertion and check its structure
+ *
+ * @param value Header value
+ * @returns Decoded assertion or error
+ */
+export function decodeSamlAssertion(value: string): SamlAssertionDecodeResult {
+  const base64 = value.replace(/\s+/g, '').replace(/-/g, '+').replace(/_/g, '/');
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(base64)) {
+    return { error: 'not base64 encoded' };
+  }
+
+  let xml: string;
+  try {
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    const bytes = Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+    xml = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return { error: 'not base64 encoded UTF-8' };
+  }
+
+  const parsed = parseXml(xml);
+  if (parsed.error) {
+    return { error: `XML is not well-formed: ${parsed.error}` };
+  }
+
+  const root = parsed.root!;
+  if (root.localName !== 'Assertion' || namespaceOf(root) !== SAML_ASSERTION_NAMESPACE) {
+    return { error: `root element must be a SAML 2.0 Assertion, got <${root.name}>` };
+  }
+  if (root.attributes.Version !== '2.0') {
+    return { error: 'Assertion Version must be "2.0"' };
+  }
+  if (!root.attributes.ID) {
+    return { error: 'Assertion has no ID' };
+  }
+
+  const issuedAt = readDateTime(root, 'IssueInstant');
+  if (issuedAt === undefined || issuedAt === null) {
+    return { error: 'Assertion IssueInstant is missing or not a valid dateTime' };
+  }
+
+  const conditions = findChild(root, 'Conditions');
+  const notBefore = readDateTime(conditions, 'NotBefore');
+  const conditionsExpiry = readDateTime(conditions, 'NotOnOrAfter');
+  const subject = findChild(root, 'Subject');
+  const confirmationExpiries = findDescendants(subject ?? root, 'SubjectConfirmationData')
+    .map(data => readDateTime(data, 'NotOnOrAfter'));
+
+  const times = [notBefore, conditionsExpiry, ...confirmationExpiries];
+  if (times.includes(null)) {
+    return { error: 'NotBefore / NotOnOrAfter is not a valid dateTime' };
+  }
+  const expiries = [conditionsExpiry, ...confirmationExpiries].filter((time): time is number => typeof time === 'number');
+
+  const audience = findDescendants(conditions ?? root, 'Audience').map(element => element.text.trim()).filter(Boolean);
+
+  return {
+    assertion: {
+      xml,
+      summary: {
+        id: root.attributes.ID,
+        issuer: findChild(root, 'Issuer')?.text.trim() || undefined,
+        subject: findChild(subject, 'NameID')?.text.trim() || undefined,
+        audience: audience.length > 0 ? audience : undefined,
+        issuedAt,
+        notBefore: notBefore ?? undefined,
+        expiresAt: expiries.length > 0 ? Math.min(...expiries) : undefined,
+      },
+    },
+  };
+}
+
+/**
+ * Check assertion validity window (NotBefore / NotOnOrAfter)
+ *
+ * @param assertion Decoded assertion
+ * @param options Clock skew and time source
+ * @returns Diagnostics for expired or not-yet-valid assertions
+ */
+export function validateSamlAssertion(
+  assertion: DecodedSamlAssertion,
+  options: SamlValidationOptions = {}
+): SamlAssertionValidationResult {
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  const skew = options.clockSkewSeconds ?? DEFAULT_SAML_CLOCK_SKEW_SECONDS;
+  const now = Math.floor((options.now ? options.now() : Date.now()) / 1000);
+  const { notBefore, expiresAt } = assertion.summary;
+
+  if (expiresAt === undefined) {
+    diagnostics.push(createWarning(DiagnosticCode.SAML_ASSERTION_NO_EXPIRY, 'assertion has no NotOnOrAfter and never expires'));
+  } else if (expiresAt + skew <= now) {
+    diagnostics.push(createError(DiagnosticCode.SAML_ASSERTION_EXPIRED, `assertion expired at ${formatEpoch(expiresAt)}`));
+  }
+
+  if (notBefore !== undefined && notBefore - skew > now) {
+    diagnostics.push(createError(DiagnosticCode.SAML_ASSERTION_NOT_YET_VALID, `assertion is not valid before ${formatEpoch(notBefore)}`));
+  }
+
+  return toDiagnosticSet(diagnostics);
+}
@@ -0,0 +1,54 @@
+/**
+ * Serialization of auth config into headers
+ *
+ * Inverse of validateAuthHeaders: a config (destination, direct JWT with refresh/UAA,
+ * basic, logon ticket, SAML) is turned into the minimal canonical header set. Headers
+ * come from the toHeaders hook of the method that produced the config.
+ *
+ * Round trip: validating the headers with the same authMethods yields an equivalent
+ * config without header warnings. Checks of credential contents (e.g. JWT expiry)
+ * still apply.
+ */
+
+import type { AuthConfigInput, HeaderValidationOptions } from './types';
+import { AuthMethodPriority } from './types';
+import { createAuthMethodRegistry } from './authMethods';
+
+const DEFAULT_AUTH_METHODS = createAuthMethodRegistry();
+
+/**
+ * Serialize auth config into canonical headers
+ *
+ * @example
+ * const headers = serializeAuthConfig({
+ *   priority: AuthMethodPriority.BASIC,
+ *   authType: 'basic',
+ *   sapUrl: 'https://sap.example.com',
+ *   username: 'DEVELOPER',
+ *   password: secret,
+ * });
+ * // { 'x-sap-url': ..., 'x-sap-auth-type': 'basic', 'x-sap-login': 'DEVELOPER', 'x-sap-password': ... }
+ *
+ * @param config Validated or hand-built config; method is taken from authMethod, otherwise from rank or priority
+ * @param options Registered authentication methods (default: built-in methods)
+ * @returns Headers (lowercase names)
+ * @throws if the method is unknown, cannot be serialized, or config lacks required fields
+ */
+export function serializeAuthConfig(
+  config: AuthConfigInput,
+  options: Pick<HeaderValidationOptions, 'authMethods'> = {}
+): Record<string, string> {
+  const registry = options.authMethods ?? DEFAULT_AUTH_METHODS;
+  const method = config.authMethod
+    ? registry.methods.find(candidate => candidate.id === config.authMethod)
+    : registry.get(config.rank ?? config.priority);
+
+  if (!method) {
+    const label = config.authMethod ?? (config.rank !== undefined ? String(config.rank) : AuthMethodPriority[config.priority] ?? String(config.priority));
+    throw new Error(`Authentication method "${label}" is not registered`);
+  }
+  if (!method.toHeaders) {
+    throw new Error(`Authentication method "${method.id}" cannot be serialized into headers`);
+  }
+  return method.toHeaders(config);
+}
@@ -2,13 +2,324 @@
  * Types for header validator
  */
 
-import { IncomingHttpHeaders } from 'http';
 import type { AuthType } from '@mcp-abap-adt/interfaces';
 import { AuthMethodPriority, type IValidatedAuthConfig, type IHeaderValidationResult } from '@mcp-abap-adt/interfaces';
+import type { JwtKeySet, JwtSignatureVerificationResult } from './jwks';
+import type { ValidationDiagnostic } from './diagnostics';
+import type { DestinationResolver, DestinationSourceType } from './destinations';
+import type { UrlPolicy } from './urlPolicy';
+import type { AuthMethodRegistry } from './authMethods';
 
 // Re-export for backward compatibility
 export type { AuthType };
 export { AuthMethodPriority };
-export type ValidatedAuthConfig = IValidatedAuthConfig;
-export type HeaderValidationResult = IHeaderValidationResult;
 
+/**
+ * x-sap-auth-type values of methods that have no AuthType value in @mcp-abap-adt/interfaces
+ */
+export type ExtendedAuthType = 'x509' | 'logon-ticket' | 'saml';
+
+/**
+ * Auth type of validated config
+ */
+export type ValidatedAuthType = AuthType | ExtendedAuthType;
+
+/**
+ * Claims decoded from x-sap-jwt-token (not verified)
+ * Time values are seconds since epoch, as in the token
+ */
+export interface JwtClaimsSummary {
+  subject?: string;
+  issuer?: string;
+  audience?: string[];
+  userName?: string;
+  clientId?: string;
+  /** Zone (tenant) ID - zid (XSUAA), zone_uuid or app_tid (IAS) */
+  zoneId?: string;
+  /** Subaccount subdomain (ext_attr.zdn) */
+  subdomain?: string;
+  expiresAt?: number;
+  notBefore?: number;
+  issuedAt?: number;
+}
+
+/**
+ * Client certificate fields (X.509 auth only)
+ * Time values are seconds since epoch
+ */
+export interface ClientCertificateSummary {
+  /** Subject DN ("O=Example Corp, CN=alice") */
+  subject: string;
+  issuer: string;
+  /** Serial number (uppercase hex) */
+  serialNumber: string;
+  /** SHA-256 fingerprint (colon-separated hex) */
+  fingerprint256: string;
+  notBefore?: number;
+  expiresAt?: number;
+}
+
+/**
+ * Fields of SAP logon ticket (logon ticket auth only, not verified)
+ * Time values are seconds since epoch
+ */
+export interface LogonTicketSummary {
+  user: string;
+  /** Client of issuing system */
+  client?: string;
+  /** System ID of issuing system */
+  systemId?: string;
+  issuedAt?: number;
+  expiresAt?: number;
+}
+
+/**
+ * Fields of SAML 2.0 assertion (SAML auth only, not verified)
+ * Time values are seconds since epoch
+ */
+export interface SamlAssertionSummary {
+  id: string;
+  issuer?: string;
+  /** Subject NameID */
+  subject?: string;
+  audience?: string[];
+  issuedAt: number;
+  /** Conditions NotBefore */
+  notBefore?: number;
+  /** Earliest NotOnOrAfter of Conditions and SubjectConfirmationData */
+  expiresAt?: number;
+}
+
+export interface ValidatedAuthConfig extends Omit<IValidatedAuthConfig, 'authType'> {
+  /** Auth type; extended values only come from methods registered in addition to the built-ins */
+  authType: ValidatedAuthType;
+  /** Decoded claims of x-sap-jwt-token (direct JWT auth only) */
+  jwtClaims?: JwtClaimsSummary;
+  /** Signature verification result (only when JwtValidationOptions.keySet is set) */
+  jwtSignature?: JwtSignatureVerificationResult;
+  /** Forwarded client certificate (X.509 auth only) */
+  clientCertificate?: ClientCertificateSummary;
+  /** SAP logon ticket (logon ticket auth only) */
+  logonTicket?: string;
+  /** Decoded logon ticket fields (logon ticket auth only) */
+  logonTicketSummary?: LogonTicketSummary;
+  /** Base64 SAML assertion as received (SAML auth only) */
+  samlAssertion?: string;
+  /** Decoded assertion fields (SAML auth only) */
+  samlAssertionSummary?: SamlAssertionSummary;
+  /** Structured form of errors and warnings */
+  diagnostics?: ValidationDiagnostic[];
+  /** Destination file the URL was loaded from (only when destinationResolver is set) */
+  destinationFile?: string;
+  /** Type of destination file (only when destinationResolver is set) */
+  destinationSource?: DestinationSourceType;
+  /**
+   * How the Authorization header was used (only when HeaderValidationOptions.authorization is set)
+   * Anything but 'mapped' means the header must not be forwarded to the SAP backend
+   */
+  authorizationHeader?: AuthorizationHeaderUsage;
+  /** ID of the authentication method that produced the config (see AuthMethodPlugin.id) */
+  authMethod?: string;
+  /**
+   * Priority of the method that produced the config (AuthMethodPlugin.priority, as used in methodOrder)
+   * Differs from priority for methods without AuthMethodPriority value (EXTENDED_AUTH_METHOD_PRIORITY, custom methods)
+   */
+  rank?: number;
+}
+
+export interface HeaderValidationResult extends Omit<IHeaderValidationResult, 'config'> {
+  config?: ValidatedAuthConfig;
+  /** Structured form of errors and warnings, with stable codes */
+  diagnostics: ValidationDiagnostic[];
+  /** Ordered decision path (only with `explain: true`) */
+  trace?: AuthTraceStep[];
+}
+
+/**
+ * Decision trace step kind
+ * - authorization: Authorization header mapping
+ * - method: authentication method considered (one step per registered method)
+ * - check: header check on the credential path (x-sap-url, URL policy, x-sap-auth-type)
+ * - policy: deployment policy applied to the selected config (x-sap-client, requireSapClient, strict)
+ * - resolver: async resolver run by validateAuthHeadersAsync
+ * - result: final outcome
+ */
+export type AuthTraceStepKind = 'authorization' | 'method' | 'check' | 'policy' | 'resolver' | 'result';
+
+/**
+ * Decision trace step outcome
+ * - passed / failed: check or policy result
+ * - chosen: method produced the returned config
+ * - rejected: method was evaluated and reported errors
+ * - skipped: method headers are present but method was not evaluated or lost to another method
+ * - not-detected: no method headers present
+ * - disabled: method is not in methodOrder
+ * - valid / invalid / env-fallback: final outcome (result step)
+ */
+export type AuthTraceOutcome =
+  | 'passed'
+  | 'failed'
+  | 'chosen'
+  | 'rejected'
+  | 'skipped'
+  | 'not-detected'
+  | 'disabled'
+  | 'valid'
+  | 'invalid'
+  | 'env-fallback';
+
+/**
+ * Step of decision trace
+ */
+export interface AuthTraceStep {
+  kind: AuthTraceStepKind;
+  /** Method name, checked header or policy */
+  subject: string;
+  /** Method ID (method steps) */
+  method?: string;
+  /** Whether method headers are present (method steps) */
+  detected?: boolean;
+  /** Headers that triggered the method or were checked */
+  headers: string[];
+  outcome: AuthTraceOutcome;
+  reason: string;
+}
+
+/**
+ * JWT claim validation options
+ */
+export interface JwtValidationOptions {
+  /** Tolerated clock skew in seconds for exp/nbf/iat checks (default: 60) */
+  clockSkewSeconds?: number;
+  /** Current time in milliseconds (default: Date.now) */
+  now?: () => number;
+  /**
+   * Local verification keys (see createJwtKeySet)
+   * When set, token signature is verified and unsigned/forged tokens are rejected
+   */
+  keySet?: JwtKeySet;
+}
+
+/**
+ * Client certificate checks for X.509 auth
+ * Chain verification is done by the ingress that forwards the certificate
+ */
+export interface ClientCertificateValidationOptions {
+  /** Tolerated clock skew in seconds for validity dates (default: 60) */
+  clockSkewSeconds?: number;
+  /** Current time in milliseconds (default: Date.now) */
+  now?: () => number;
+  /** Allowed issuer DNs; strings match the whole DN (case-insensitive), RegExps are tested against it */
+  allowedIssuers?: readonly (string | RegExp)[];
+  /** Allowed subject DNs; strings match the whole DN (case-insensitive), RegExps are tested against it */
+  allowedSubjects?: readonly (string | RegExp)[];
+}
+
+/**
+ * Config accepted by serializeAuthConfig (diagnostics are not needed)
+ */
+export type AuthConfigInput = Omit<ValidatedAuthConfig, 'errors' | 'warnings' | 'diagnostics'>;
+
+/**
+ * Logon ticket expiry check options
+ */
+export interface LogonTicketValidationOptions {
+  /** Tolerated clock skew in seconds (default: 60) */
+  clockSkewSeconds?: number;
+  /** Current time in milliseconds (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * SAML assertion NotBefore / NotOnOrAfter check options
+ */
+export interface SamlValidationOptions {
+  /** Tolerated clock skew in seconds (default: 60) */
+  clockSkewSeconds?: number;
+  /** Current time in milliseconds (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * How the Authorization header was used
+ * - mapped: credentials were taken from Authorization
+ * - ignored: Authorization was not used (x-sap-* or destination headers take precedence, unsupported scheme)
+ * - server: Authorization protects the MCP server itself
+ */
+export type AuthorizationHeaderUsage = 'mapped' | 'ignored' | 'server';
+
+/**
+ * Standard Authorization header handling
+ */
+export interface AuthorizationHeaderOptions {
+  /**
+   * - map: `Bearer` is used as direct JWT, `Basic` as basic auth credentials
+   * - server: Authorization protects the MCP server and is never used as SAP credentials
+   */
+  mode: 'map' | 'server';
+  /**
+   * Which credentials win when both Authorization and x-sap-* credential headers
+   * (x-sap-auth-type, x-sap-jwt-token, x-sap-login, x-sap-password) are present (default: sap-headers)
+   */
+  precedence?: 'sap-headers' | 'authorization';
+}
+
+/**
+ * Options for validateAuthHeaders / createHeaderValidator
+ */
+export interface HeaderValidationOptions {
+  jwt?: JwtValidationOptions;
+  /** Client certificate checks (X.509 auth, see X509_AUTH_METHOD) */
+  clientCertificate?: ClientCertificateValidationOptions;
+  /** Logon ticket expiry check (x-sap-auth-type: logon-ticket) */
+  logonTicket?: LogonTicketValidationOptions;
+  /** SAML assertion time checks (x-sap-auth-type: saml) */
+  saml?: SamlValidationOptions;
+  /**
+   * Resolve x-sap-destination / x-mcp-destination against local files (see createDestinationResolver)
+   * When set, unknown or malformed destinations are rejected and sapUrl, sapClient and UAA
+   * fields are filled from the destination
+   */
+  destinationResolver?: DestinationResolver;
+  /** Restrict x-sap-url hosts, protocol and ports (see UrlPolicy) */
+  urlPolicy?: UrlPolicy;
+  /** Standard Authorization header handling (default: Authorization header is not inspected) */
+  authorization?: AuthorizationHeaderOptions;
+  /**
+   * Registered authentication methods (see createAuthMethodRegistry)
+   * Default: built-in SAP destination, MCP destination, direct JWT, basic auth, logon ticket
+   * and SAML (BUILTIN_AUTH_METHODS); X.509 is opt-in (X509_AUTH_METHOD from the ./node entry)
+   */
+  authMethods?: AuthMethodRegistry;
+  /**
+   * Enabled authentication methods by priority, highest priority first
+   * Methods not listed are disabled (default: all registered methods by descending priority)
+   */
+  methodOrder?: readonly number[];
+  /** Accepted x-sap-auth-type values (default: auth types of registered methods - jwt, xsuaa, basic, logon-ticket, saml; x509 once X509_AUTH_METHOD is registered) */
+  authTypes?: readonly string[];
+  /** Require x-sap-client header for every authentication method */
+  requireSapClient?: boolean;
+  /** Report every warning (ignored headers, partial UAA set, etc.) as error */
+  strict?: boolean;
+  /** Return decision trace in `result.trace` (see AuthTraceStep) */
+  explain?: boolean;
+  /**
+   * Additional x-sap-*, x-mcp-*, x-btp-* and x-uaa-* headers not reported as unknown
+   * (headers of registered auth methods are always known)
+   */
+  knownHeaders?: readonly string[];
+  /**
+   * Redact secrets when config is serialized: `JSON.stringify` and `util.inspect`
+   * (console.log) output of returned config is masked; properties stay readable
+   */
+  redactSecrets?: boolean;
+}
+
+/**
+ * Options for validateProxyHeaders
+ */
+export interface ProxyHeaderValidationOptions {
+  /** Restrict x-mcp-url hosts, protocol and ports (see UrlPolicy) */
+  urlPolicy?: UrlPolicy;
+}
@@ -0,0 +1,164 @@
+/**
+ * Unknown header detection
+ *
+ * Misspelled headers (x-sap-destinaton, x-sap-authtype, x-sap-user) are otherwise
+ * ignored, and the validator then reports a confusing follow-up error such as
+ * "x-sap-auth-type header is required". Headers with a validator prefix that are not
+ * known are reported with a suggestion for the intended header.
+ */
+
+import {
+  HEADER_SAP_DESTINATION_SERVICE,
+  HEADER_MCP_DESTINATION,
+  HEADER_BTP_DESTINATION,
+  HEADER_MCP_URL,
+  HEADER_SAP_URL,
+  HEADER_SAP_CLIENT,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_SAP_REFRESH_TOKEN,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_PASSWORD,
+  HEADER_SAP_UAA_URL,
+  HEADER_UAA_URL,
+  HEADER_SAP_UAA_CLIENT_ID,
+  HEADER_UAA_CLIENT_ID,
+  HEADER_SAP_UAA_CLIENT_SECRET,
+  HEADER_UAA_CLIENT_SECRET,
+} from '@mcp-abap-adt/interfaces';
+import type { NormalizedHeaders } from './headerSource';
+import { HEADER_SAP_CLIENT_CERTIFICATE } from './clientCertificateHeader';
+import { HEADER_SAP_LOGON_TICKET } from './logonTicket';
+import { HEADER_SAP_SAML_ASSERTION } from './saml';
+import { DiagnosticCode, createWarning, type ValidationDiagnostic } from './diagnostics';
+
+/**
+ * Header name prefixes checked for unknown headers
+ */
+export const CHECKED_HEADER_PREFIXES: readonly string[] = ['x-sap-', 'x-mcp-', 'x-btp-', 'x-uaa-'];
+
+/**
+ * Headers read by the validators
+ */
+export const KNOWN_HEADERS: readonly string[] = [
+  HEADER_SAP_DESTINATION_SERVICE,
+  HEADER_MCP_DESTINATION,
+  HEADER_BTP_DESTINATION,
+  HEADER_MCP_URL,
+  HEADER_SAP_URL,
+  HEADER_SAP_CLIENT,
+  HEADER_SAP_AUTH_TYPE,
+  HEADER_SAP_JWT_TOKEN,
+  HEADER_SAP_REFRESH_TOKEN,
+  HEADER_SAP_LOGIN,
+  HEADER_SAP_PASSWORD,
+  HEADER_SAP_UAA_URL,
+  HEADER_SAP_UAA_CLIENT_ID,
+  HEADER_SAP_UAA_CLIENT_SECRET,
+  HEADER_UAA_URL,
+  HEADER_UAA_CLIENT_ID,
+  HEADER_UAA_CLIENT_SECRET,
+  HEADER_SAP_CLIENT_CERTIFICATE,
+  HEADER_SAP_LOGON_TICKET,
+  HEADER_SAP_SAML_ASSERTION,
+];
+
+/**
+ * Common words for the last name segment that edit distance can't bridge
+ */
+const SEGMENT_SYNONYMS: Readonly<Record<string, string>> = {
+  user: 'login',
+  username: 'login',
+  pass: 'password',
+  pwd: 'password',
+  token: 'jwt-token',
+  bearer: 'jwt-token',
+  host: 'url',
+  mandant: 'client',
+};
+
+/**
+ * Optimal string alignment distance (Levenshtein with adjacent transpositions)
+ */
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j;
+  }
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/**
+ * Name without separators, for matches such as x-sap-authtype / x_sap_auth_type
+ */
+function compact(name: string): string {
+  return name.replace(/[-_]/g, '');
+}
+
+/**
+ * Suggest the known header a name was probably meant to be
+ * 1. Same name without separators (x-sap-authtype)
+ * 2. Synonym of the last segment (x-sap-user)
+ * 3. Known header extending the name (x-sap-jwt)
+ * 4. Smallest edit distance, up to a third of the name length (x-sap-destinaton)
+ *
+ * @param name Unknown header name (lowercase)
+ * @param known Known header names
+ * @returns Suggested header, or undefined if nothing is close
+ */
+export function suggestHeader(name: string, known: readonly string[] = KNOWN_HEADERS): string | undefined {
+  const exact = known.find(header => compact(header) === compact(name));
+  if (exact) {
+    return exact;
+  }
+
+  const segmentStart = name.lastIndexOf('-') + 1;
+  const synonym = SEGMENT_SYNONYMS[name.slice(segmentStart)];
+  if (synonym && known.includes(`${name.slice(0, segmentStart)}${synonym}`)) {
+    return `${name.slice(0, segmentStart)}${synonym}`;
+  }
+
+  const extended = known.filter(header => header.startsWith(`${name}-`));
+  if (extended.length === 1) {
+    return extended[0];
+  }
+
+  let best: { header: string; distance: number } | undefined;
+  for (const header of known) {
+    const distance = editDistance(name, header);
+    if (!best || distance < best.distance) {
+      best = { header, distance };
+    }
+  }
+  return best && best.distance <= Math.max(1, Math.floor(name.length / 3)) ? best.header : undefined;
+}
+
+/**
+ * Report headers with a checked prefix that are not known
+ *
+ * @param headers Normalized headers
+ * @param known Known header names (default: KNOWN_HEADERS)
+ * @returns HEADER_UNKNOWN warnings, with suggestion where one is close
+ */
+export function checkUnknownHeaders(headers: NormalizedHeaders, known: readonly string[] = KNOWN_HEADERS): ValidationDiagnostic[] {
+  const knownNames = known.map(header => header.toLowerCase());
+  return Object.keys(headers)
+    .filter(name => CHECKED_HEADER_PREFIXES.some(prefix => name.startsWith(prefix)) && !knownNames.includes(name))
+    .map(name => {
+      const suggestion = suggestHeader(name, knownNames);
+      return createWarning(
+        DiagnosticCode.HEADER_UNKNOWN,
+        suggestion ? `${name} is not a known header (did you mean ${suggestion}?)` : `${name} is not a known header`,
+        suggestion ? [name, suggestion] : [name]
+      );
+    });
+}
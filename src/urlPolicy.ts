@@ -0,0 +1,221 @@
+/**
+ * URL policy for x-sap-url and x-mcp-url (SSRF protection)
+ *
+ * Header URLs make the server connect to arbitrary hosts. The policy restricts them:
+ * - host allowlist / denylist with `*.` wildcards
+ * - https only, except for listed development hosts
+ * - no loopback, link-local, private or unspecified IP literals (and `localhost`)
+ * - no embedded `user:pass@` credentials
+ * - allowed ports
+ *
+ * Only the URL itself is checked - host names are not resolved, so a public name
+ * pointing to an internal address must be handled by an allowlist or network egress rules.
+ */
+
+export interface UrlPolicy {
+  /** Allowed hosts (`sap.example.com`, `*.hana.ondemand.com`). When set, other hosts are rejected */
+  allowedHosts?: readonly string[];
+  /** Denied hosts, checked before allowedHosts */
+  deniedHosts?: readonly string[];
+  /** Require https (default: true) */
+  requireHttps?: boolean;
+  /** Hosts allowed over plain http (development systems) */
+  insecureHosts?: readonly string[];
+  /** Reject loopback, link-local, private and unspecified IP literals and localhost (default: true) */
+  blockPrivateAddresses?: boolean;
+  /** Allow `user:pass@` in URL (default: false) */
+  allowCredentials?: boolean;
+  /** Allowed ports; default ports (443/80) are used when URL has none. When not set, any port is allowed */
+  allowedPorts?: readonly number[];
+}
+
+/**
+ * Reason of URL policy violation
+ */
+export type UrlPolicyViolation =
+  | 'invalid_url'
+  | 'credentials'
+  | 'insecure_protocol'
+  | 'host_denied'
+  | 'host_not_allowed'
+  | 'private_address'
+  | 'port_not_allowed';
+
+export interface UrlPolicyResult {
+  allowed: boolean;
+  reason?: UrlPolicyViolation;
+  error?: string;
+}
+
+/**
+ * Check that value is an absolute http(s) URL
+ */
+export function isValidUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Match host against pattern
+ * `*.example.com` matches subdomains (not example.com itself), `*` matches any host
+ */
+export function matchesHostPattern(host: string, pattern: string): boolean {
+  const normalizedHost = host.toLowerCase();
+  const normalizedPattern = pattern.trim().toLowerCase();
+  if (normalizedPattern === '*') {
+    return true;
+  }
+  if (normalizedPattern.startsWith('*.')) {
+    return normalizedHost.endsWith(normalizedPattern.slice(1));
+  }
+  return normalizedHost === normalizedPattern;
+}
+
+function matchesAny(host: string, patterns: readonly string[] | undefined): boolean {
+  return !!patterns && patterns.some(pattern => matchesHostPattern(host, pattern));
+}
+
+function parseIPv4(host: string): number[] | null {
+  const match = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(host);
+  if (!match) {
+    return null;
+  }
+  const octets = match.slice(1).map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+}
+
+/**
+ * Parse IPv6 address into eight 16-bit groups (embedded dotted IPv4 allowed)
+ */
+function parseIPv6(address: string): number[] | null {
+  let normalized = address.toLowerCase();
+  const dotted = /^(.*:)(\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3})$/.exec(normalized);
+  if (dotted) {
+    const octets = parseIPv4(dotted[2]);
+    if (!octets) {
+      return null;
+    }
+    normalized = `${dotted[1]}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+  const halves = normalized.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+  const parseGroups = (part: string) => (part === '' ? [] : part.split(':'));
+  const head = parseGroups(halves[0]);
+  const tail = halves.length === 2 ? parseGroups(halves[1]) : [];
+  const zeros = 8 - head.length - tail.length;
+  if (halves.length === 2 ? zeros < 1 : zeros !== 0) {
+    return null;
+  }
+  const groups = [...head, ...Array<string>(zeros).fill('0'), ...tail];
+  return groups.every(group => /^[0-9a-f]{1,4}$/.test(group)) ? groups.map(group => parseInt(group, 16)) : null;
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return a === 0 // unspecified / "this network"
+    || a === 10
+    || a === 127 // loopback
+    || (a === 100 && b >= 64 && b <= 127) // carrier-grade NAT
+    || (a === 169 && b === 254) // link-local (cloud metadata)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || a >= 224; // multicast 224.0.0.0/4, reserved 240.0.0.0/4 and broadcast
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const groups = parseIPv6(address);
+  if (!groups) {
+    return false;
+  }
+  const embeddedIPv4 = () => [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff];
+  const zeroUntil = (end: number) => groups.slice(0, end).every(group => group === 0);
+
+  if (zeroUntil(7) && groups[7] <= 1) {
+    return true; // unspecified :: and loopback ::1
+  }
+  // IPv4-mapped ::ffff:a.b.c.d, IPv4-compatible ::a.b.c.d and NAT64 64:ff9b::a.b.c.d
+  if ((zeroUntil(5) && groups[5] === 0xffff)
+    || zeroUntil(6)
+    || (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0))) {
+    return isPrivateIPv4(embeddedIPv4());
+  }
+  return (groups[0] & 0xffc0) === 0xfe80 // link-local fe80::/10
+    || (groups[0] & 0xfe00) === 0xfc00 // unique local fc00::/7
+    || (groups[0] & 0xff00) === 0xff00; // multicast ff00::/8
+}
+
+/**
+ * Check whether host is loopback, link-local, private, multicast or unspecified address (or localhost)
+ * IPv4 addresses embedded in IPv6 (mapped, compatible, NAT64 64:ff9b::/96) are checked as IPv4
+ *
+ * @param hostname URL hostname (IPv6 in brackets, as returned by URL)
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return true;
+  }
+  if (host.startsWith('[') && host.endsWith(']')) {
+    return isPrivateIPv6(host.slice(1, -1));
+  }
+  const ipv4 = parseIPv4(host);
+  return !!ipv4 && isPrivateIPv4(ipv4);
+}
+
+/**
+ * Check URL against policy
+ *
+ * @param value URL from header
+ * @param policy URL policy
+ * @returns Whether URL is allowed, with violation reason
+ */
+export function checkUrlPolicy(value: string, policy: UrlPolicy): UrlPolicyResult {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return { allowed: false, reason: 'invalid_url', error: 'not a valid URL' };
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { allowed: false, reason: 'invalid_url', error: `protocol ${url.protocol} is not allowed` };
+  }
+
+  // Trailing dot (fully qualified name) must not bypass host lists
+  const host = url.hostname.toLowerCase().replace(/\.$/, '');
+
+  if (!policy.allowCredentials && (url.username || url.password)) {
+    return { allowed: false, reason: 'credentials', error: 'embedded credentials are not allowed' };
+  }
+
+  if (matchesAny(host, policy.deniedHosts)) {
+    return { allowed: false, reason: 'host_denied', error: `host ${host} is denied` };
+  }
+
+  if (policy.allowedHosts && !matchesAny(host, policy.allowedHosts)) {
+    return { allowed: false, reason: 'host_not_allowed', error: `host ${host} is not in allowed hosts` };
+  }
+
+  // Explicitly allowed hosts may be private (e.g. on-premise system in the same network)
+  const explicitlyAllowed = matchesAny(host, policy.allowedHosts?.filter(pattern => pattern.trim() !== '*'));
+  if ((policy.blockPrivateAddresses ?? true) && !explicitlyAllowed && isPrivateHost(host)) {
+    return { allowed: false, reason: 'private_address', error: `host ${host} is a loopback, link-local or private address` };
+  }
+
+  if ((policy.requireHttps ?? true) && url.protocol !== 'https:' && !matchesAny(host, policy.insecureHosts)) {
+    return { allowed: false, reason: 'insecure_protocol', error: 'https is required' };
+  }
+
+  if (policy.allowedPorts) {
+    const port = url.port ? Number(url.port) : url.protocol === 'https:' ? 443 : 80;
+    if (!policy.allowedPorts.includes(port)) {
+      return { allowed: false, reason: 'port_not_allowed', error: `port ${port} is not allowed` };
+    }
+  }
+
+  return { allowed: true };
+}
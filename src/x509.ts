@@ -0,0 +1,233 @@
+/**
+ * Client certificate decoding and checks for X.509 authentication
+ *
+ * The ingress that terminates TLS forwards the verified client certificate in
+ * x-sap-client-cert, in one of these forms:
+ * - PEM (`-----BEGIN CERTIFICATE-----`), line breaks may be replaced by spaces or tabs
+ * - URL-encoded PEM (nginx `$ssl_client_escaped_cert`, AWS ALB)
+ * - base64 DER without PEM armor
+ *
+ * The certificate chain is verified by the ingress. Here only validity dates and
+ * optional issuer/subject restrictions are checked.
+ */
+
+import { X509Certificate } from 'crypto';
+import { HEADER_SAP_URL, HEADER_SAP_CLIENT, HEADER_SAP_AUTH_TYPE } from '@mcp-abap-adt/interfaces';
+import type { ClientCertificateSummary, ClientCertificateValidationOptions, ValidatedAuthConfig } from './types';
+import { getHeaderValue, type NormalizedHeaders } from './headerSource';
+import { sanitizeHeaderValue } from './redaction';
+import { HEADER_SAP_CLIENT_CERTIFICATE, AUTH_TYPE_X509, DEFAULT_CERTIFICATE_CLOCK_SKEW_SECONDS } from './clientCertificateHeader';
+import {
+  EXTENDED_AUTH_METHOD_PRIORITY,
+  credentialHeaderConflicts,
+  toAuthMethodPriority,
+  type AuthMethodPlugin,
+} from './authMethods';
+import {
+  DiagnosticCode,
+  createError,
+  toDiagnosticSet,
+  type DiagnosticSet,
+  type ValidationDiagnostic,
+} from './diagnostics';
+
+export { HEADER_SAP_CLIENT_CERTIFICATE, AUTH_TYPE_X509, DEFAULT_CERTIFICATE_CLOCK_SKEW_SECONDS };
+
+export interface ClientCertificateDecodeResult {
+  certificate?: X509Certificate;
+  error?: string;
+}
+
+export type ClientCertificateValidationResult = DiagnosticSet;
+
+const PEM_PATTERN = /-----BEGIN CERTIFICATE-----([\s\S]*?)-----END CERTIFICATE-----/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * Decode forwarded client certificate
+ * Only the first certificate is used when the header carries a chain
+ *
+ * @param value Header value (PEM, URL-encoded PEM or base64 DER)
+ * @returns Parsed certificate or error
+ */
+export function decodeClientCertificate(value: string): ClientCertificateDecodeResult {
+  let text = value.trim();
+  if (text.includes('%')) {
+    try {
+      text = decodeURIComponent(text);
+    } catch {
+      return { error: 'URL encoding is invalid' };
+    }
+  }
+
+  let body = text;
+  if (text.includes('-----BEGIN')) {
+    const pem = PEM_PATTERN.exec(text);
+    if (!pem) {
+      return { error: 'PEM block is incomplete or not a certificate' };
+    }
+    body = pem[1];
+  }
+
+  const base64 = body.replace(/\s+/g, '');
+  if (!BASE64_PATTERN.test(base64)) {
+    return { error: 'not a PEM or base64 DER certificate' };
+  }
+
+  try {
+    return { certificate: new X509Certificate(Buffer.from(base64, 'base64')) };
+  } catch {
+    return { error: 'cannot be parsed as X.509 certificate' };
+  }
+}
+
+/**
+ * Format distinguished name as single line ("O=Example Corp, CN=alice")
+ */
+export function formatDistinguishedName(name: string): string {
+  return name.split('\n').filter(part => part.length > 0).join(', ');
+}
+
+function toEpochSeconds(date: string): number | undefined {
+  const time = Date.parse(date);
+  return Number.isNaN(time) ? undefined : Math.floor(time / 1000);
+}
+
+function formatEpoch(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+function matchesName(name: string, patterns: readonly (string | RegExp)[]): boolean {
+  return patterns.some(pattern => typeof pattern === 'string'
+    ? pattern.toLowerCase() === name.toLowerCase()
+    : pattern.test(name));
+}
+
+/**
+ * Check certificate validity dates and issuer/subject restrictions
+ *
+ * @param certificate Decoded client certificate
+ * @param options Clock skew, time source and allowed issuers/subjects
+ * @returns Diagnostics for expired, not-yet-valid or not allowed certificates
+ */
+export function validateClientCertificate(
+  certificate: X509Certificate,
+  options: ClientCertificateValidationOptions = {}
+): ClientCertificateValidationResult {
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  const skew = options.clockSkewSeconds ?? DEFAULT_CERTIFICATE_CLOCK_SKEW_SECONDS;
+  const now = Math.floor((options.now ? options.now() : Date.now()) / 1000);
+
+  const notBefore = toEpochSeconds(certificate.validFrom);
+  const expiresAt = toEpochSeconds(certificate.validTo);
+  if (notBefore === undefined || expiresAt === undefined) {
+    diagnostics.push(createError(DiagnosticCode.X509_CERTIFICATE_MALFORMED, 'certificate validity dates cannot be read'));
+  } else if (expiresAt + skew <= now) {
+    diagnostics.push(createError(DiagnosticCode.X509_CERTIFICATE_EXPIRED, `certificate expired at ${formatEpoch(expiresAt)}`));
+  } else if (notBefore - skew > now) {
+    diagnostics.push(createError(DiagnosticCode.X509_CERTIFICATE_NOT_YET_VALID, `certificate is not valid before ${formatEpoch(notBefore)}`));
+  }
+
+  const issuer = formatDistinguishedName(certificate.issuer);
+  if (options.allowedIssuers && !matchesName(issuer, options.allowedIssuers)) {
+    diagnostics.push(createError(DiagnosticCode.X509_ISSUER_NOT_ALLOWED, `certificate issuer "${sanitizeHeaderValue(issuer)}" is not allowed`));
+  }
+
+  const subject = formatDistinguishedName(certificate.subject);
+  if (options.allowedSubjects && !matchesName(subject, options.allowedSubjects)) {
+    diagnostics.push(createError(DiagnosticCode.X509_SUBJECT_NOT_ALLOWED, `certificate subject "${sanitizeHeaderValue(subject)}" is not allowed`));
+  }
+
+  return toDiagnosticSet(diagnostics);
+}
+
+/**
+ * Extract certificate fields relevant for logon and audit
+ */
+export function summarizeClientCertificate(certificate: X509Certificate): ClientCertificateSummary {
+  return {
+    subject: formatDistinguishedName(certificate.subject),
+    issuer: formatDistinguishedName(certificate.issuer),
+    serialNumber: certificate.serialNumber.toUpperCase(),
+    fingerprint256: certificate.fingerprint256,
+    notBefore: toEpochSeconds(certificate.validFrom),
+    expiresAt: toEpochSeconds(certificate.validTo),
+  };
+}
+
+/**
+ * Validate X.509 client certificate authentication
+ *
+ * Certificate is forwarded by the TLS-terminating ingress, which verifies the chain.
+ * Validity dates and optional issuer/subject restrictions are checked here.
+ */
+function validateX509Auth(
+  headers: NormalizedHeaders,
+  sapUrl: string,
+  certificateOptions?: ClientCertificateValidationOptions
+): ValidatedAuthConfig | null {
+  const certificateValue = getHeaderValue(headers, HEADER_SAP_CLIENT_CERTIFICATE);
+  if (!certificateValue) {
+    return null;
+  }
+
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  let clientCertificate: ClientCertificateSummary | undefined;
+  const decoded = decodeClientCertificate(certificateValue);
+  if (decoded.error) {
+    diagnostics.push(createError(
+      DiagnosticCode.X509_CERTIFICATE_MALFORMED,
+      `${HEADER_SAP_CLIENT_CERTIFICATE} is not a valid certificate (${decoded.error})`,
+      [HEADER_SAP_CLIENT_CERTIFICATE]
+    ));
+  } else {
+    const checks = validateClientCertificate(decoded.certificate!, certificateOptions);
+    diagnostics.push(...checks.diagnostics.map(d => ({
+      ...d,
+      headers: [HEADER_SAP_CLIENT_CERTIFICATE],
+      message: `${HEADER_SAP_CLIENT_CERTIFICATE} is rejected: ${d.message}`,
+    })));
+    clientCertificate = summarizeClientCertificate(decoded.certificate!);
+  }
+
+  return {
+    priority: toAuthMethodPriority(EXTENDED_AUTH_METHOD_PRIORITY.X509),
+    rank: EXTENDED_AUTH_METHOD_PRIORITY.X509,
+    authType: AUTH_TYPE_X509,
+    sapUrl,
+    sapClient: getHeaderValue(headers, HEADER_SAP_CLIENT),
+    clientCertificate,
+    ...toDiagnosticSet(diagnostics),
+  };
+}
+
+/**
+ * x-sap-client-cert with x-sap-auth-type x509
+ *
+ * Not registered by default: x-sap-client-cert can only be trusted when the ingress
+ * always overwrites it with the certificate of the TLS client.
+ * Has no toHeaders - config keeps only the certificate summary, and the ingress sets the header.
+ */
+export const X509_AUTH_METHOD: AuthMethodPlugin = {
+  id: 'x509',
+  name: 'X.509 client certificate',
+  priority: EXTENDED_AUTH_METHOD_PRIORITY.X509,
+  triggerHeaders: [HEADER_SAP_CLIENT_CERTIFICATE],
+  requiredHeaders: [HEADER_SAP_URL, HEADER_SAP_AUTH_TYPE, HEADER_SAP_CLIENT_CERTIFICATE],
+  optionalHeaders: [HEADER_SAP_CLIENT],
+  authTypes: [AUTH_TYPE_X509],
+  // Certificate and other credentials in one request - only one of them is used
+  checkAuthType: ({ headers, authType }) => credentialHeaderConflicts(headers, authType, {
+    authType: AUTH_TYPE_X509,
+    header: HEADER_SAP_CLIENT_CERTIFICATE,
+    credential: 'client certificate',
+  }),
+  validate: ({ headers, sapUrl, options }) => validateX509Auth(headers, sapUrl!, options.clientCertificate),
+  missingCredentials: () => [createError(
+    DiagnosticCode.X509_CERTIFICATE_MISSING,
+    `X.509 authentication requires ${HEADER_SAP_CLIENT_CERTIFICATE} header (client certificate forwarded by the ingress)`,
+    [HEADER_SAP_CLIENT_CERTIFICATE]
+  )],
+};